@@ -3,6 +3,7 @@ import {
     MockEmbeddingModel,
     InMemoryCache,
     KeywordReranker,
+    InMemoryVectorStore,
 } from '../src/index';
 
 /**
@@ -10,65 +11,6 @@ import {
  * Perfect for testing without Docker
  */
 
-interface Document {
-    id: string;
-    content: string;
-    metadata?: any;
-    embedding?: number[];
-}
-
-class SimpleInMemoryVectorStore {
-    private documents: Document[] = [];
-    private embeddingModel: MockEmbeddingModel;
-
-    constructor(embeddingModel: MockEmbeddingModel) {
-        this.embeddingModel = embeddingModel;
-    }
-
-    async addDocuments(docs: Array<{ content: string; metadata?: any }>) {
-        for (const doc of docs) {
-            const embedding = await this.embeddingModel.embedText(doc.content);
-            this.documents.push({
-                id: `doc_${this.documents.length}`,
-                content: doc.content,
-                metadata: doc.metadata,
-                embedding,
-            });
-        }
-        console.log(`✅ Added ${docs.length} documents to in-memory store`);
-    }
-
-    async search(query: string, k: number = 5) {
-        const queryEmbedding = await this.embeddingModel.embedText(query);
-
-        // Calculate cosine similarity
-        const results = this.documents.map((doc) => {
-            const similarity = this.cosineSimilarity(queryEmbedding, doc.embedding!);
-            return {
-                document: doc,
-                score: similarity,
-            };
-        });
-
-        // Sort by score and return top k
-        return results.sort((a, b) => b.score - a.score).slice(0, k);
-    }
-
-    private cosineSimilarity(a: number[], b: number[]): number {
-        let dotProduct = 0;
-        let normA = 0;
-        let normB = 0;
-
-        for (let i = 0; i < a.length; i++) {
-            dotProduct += a[i] * b[i];
-            normA += a[i] * a[i];
-            normB += b[i] * b[i];
-        }
-
-        return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-    }
-}
-
 async function main() {
     console.log('🚀 LiteRAG.js - In-Memory Demo (No Docker Required!)');
     console.log('═'.repeat(60));
@@ -77,7 +19,8 @@ async function main() {
     // 1. Setup
     console.log('📦 Setting up components...');
     const embeddingModel = new MockEmbeddingModel(384);
-    const vectorStore = new SimpleInMemoryVectorStore(embeddingModel);
+    const vectorStore = new InMemoryVectorStore(embeddingModel);
+    await vectorStore.initialize();
     const textSplitter = new RecursiveCharacterTextSplitter({
         chunkSize: 500,
         chunkOverlap: 50,
@@ -138,6 +81,7 @@ async function main() {
     for (const doc of documents) {
         const chunks = textSplitter.splitText(doc.content);
         const chunkDocs = chunks.map((chunk, idx) => ({
+            id: `${doc.metadata.source}_chunk_${idx}`,
             content: chunk,
             metadata: { ...doc.metadata, chunkIndex: idx, totalChunks: chunks.length },
         }));
@@ -163,20 +107,10 @@ async function main() {
         console.log('');
 
         // Retrieve
-        let results = await vectorStore.search(query, 3);
+        const results = await vectorStore.similaritySearch(query, 3);
 
         // Re-rank
-        const rerankedResults = await reranker.rerank(
-            query,
-            results.map((r) => ({
-                document: {
-                    id: r.document.id,
-                    content: r.document.content,
-                    metadata: r.document.metadata,
-                },
-                score: r.score,
-            }))
-        );
+        const rerankedResults = await reranker.rerank(query, results);
 
         // Display results
         console.log(`Found ${rerankedResults.length} relevant chunks:\n`);
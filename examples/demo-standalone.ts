@@ -3,6 +3,7 @@ import {
     RecursiveCharacterTextSplitter,
     MockEmbeddingModel,
     KeywordReranker,
+    InMemoryVectorStore,
 } from '../src/index';
 
 /**
@@ -15,65 +16,9 @@ const PORT = 8080;
 
 app.use(express.json());
 
-// In-memory vector store
-interface Document {
-    id: string;
-    content: string;
-    metadata?: any;
-    embedding?: number[];
-}
-
-class SimpleInMemoryVectorStore {
-    private documents: Document[] = [];
-    private embeddingModel: MockEmbeddingModel;
-
-    constructor(embeddingModel: MockEmbeddingModel) {
-        this.embeddingModel = embeddingModel;
-    }
-
-    async addDocuments(docs: Array<{ content: string; metadata?: any }>) {
-        for (const doc of docs) {
-            const embedding = await this.embeddingModel.embedText(doc.content);
-            this.documents.push({
-                id: `doc_${this.documents.length}`,
-                content: doc.content,
-                metadata: doc.metadata,
-                embedding,
-            });
-        }
-    }
-
-    async search(query: string, k: number = 5) {
-        const queryEmbedding = await this.embeddingModel.embedText(query);
-
-        const results = this.documents.map((doc) => {
-            const similarity = this.cosineSimilarity(queryEmbedding, doc.embedding!);
-            return { document: doc, score: similarity };
-        });
-
-        return results.sort((a, b) => b.score - a.score).slice(0, k);
-    }
-
-    private cosineSimilarity(a: number[], b: number[]): number {
-        let dotProduct = 0;
-        let normA = 0;
-        let normB = 0;
-        for (let i = 0; i < a.length; i++) {
-            dotProduct += a[i] * b[i];
-            normA += a[i] * a[i];
-            normB += b[i] * b[i];
-        }
-        return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-    }
-
-    clear() {
-        this.documents = [];
-    }
-}
-
 // Initialize components
 const embeddingModel = new MockEmbeddingModel(384);
-const vectorStore = new SimpleInMemoryVectorStore(embeddingModel);
+const vectorStore = new InMemoryVectorStore(embeddingModel);
 const textSplitter = new RecursiveCharacterTextSplitter({
     chunkSize: 500,
     chunkOverlap: 50,
@@ -415,20 +360,10 @@ app.post('/query', async (req, res) => {
             return res.status(400).json({ error: 'Query is required' });
         }
 
-        let results = await vectorStore.search(query, k);
+        const results = await vectorStore.similaritySearch(query, k);
 
         // Re-rank
-        const rerankedResults = await reranker.rerank(
-            query,
-            results.map((r) => ({
-                document: {
-                    id: r.document.id,
-                    content: r.document.content,
-                    metadata: r.document.metadata,
-                },
-                score: r.score,
-            }))
-        );
+        const rerankedResults = await reranker.rerank(query, results);
 
         res.json({
             query,
@@ -443,8 +378,9 @@ app.post('/query', async (req, res) => {
     }
 });
 
-app.post('/clear', (req, res) => {
-    vectorStore.clear();
+app.post('/clear', async (req, res) => {
+    // Closing the in-memory store drops its documents; it stays usable afterwards
+    await vectorStore.close();
     res.json({ success: true, message: 'All data cleared' });
 });
 
@@ -3,6 +3,7 @@ import {
     RecursiveCharacterTextSplitter,
     MockEmbeddingModel,
     KeywordReranker,
+    InMemoryVectorStore,
 } from '../src/index';
 
 /**
@@ -16,69 +17,19 @@ import {
  * 2. Set OPENAI_API_KEY environment variable
  */
 
-// In-memory vector store (same as demo)
-interface Document {
-    id: string;
-    content: string;
-    metadata?: any;
-    embedding?: number[];
-}
-
-class SimpleInMemoryVectorStore {
-    private documents: Document[] = [];
-    private embeddingModel: MockEmbeddingModel;
-
-    constructor(embeddingModel: MockEmbeddingModel) {
-        this.embeddingModel = embeddingModel;
-    }
-
-    async addDocuments(docs: Array<{ content: string; metadata?: any }>) {
-        for (const doc of docs) {
-            const embedding = await this.embeddingModel.embedText(doc.content);
-            this.documents.push({
-                id: `doc_${this.documents.length}`,
-                content: doc.content,
-                metadata: doc.metadata,
-                embedding,
-            });
-        }
-    }
-
-    async search(query: string, k: number = 5) {
-        const queryEmbedding = await this.embeddingModel.embedText(query);
-        const results = this.documents.map((doc) => {
-            const similarity = this.cosineSimilarity(queryEmbedding, doc.embedding!);
-            return { document: doc, score: similarity };
-        });
-        return results.sort((a, b) => b.score - a.score).slice(0, k);
-    }
-
-    private cosineSimilarity(a: number[], b: number[]): number {
-        let dotProduct = 0;
-        let normA = 0;
-        let normB = 0;
-        for (let i = 0; i < a.length; i++) {
-            dotProduct += a[i] * b[i];
-            normA += a[i] * a[i];
-            normB += b[i] * b[i];
-        }
-        return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-    }
-}
-
 /**
  * RAG Pipeline Class
  * Combines retrieval with LLM generation
  */
 class RAGPipeline {
-    private vectorStore: SimpleInMemoryVectorStore;
+    private vectorStore: InMemoryVectorStore;
     private textSplitter: RecursiveCharacterTextSplitter;
     private reranker: KeywordReranker;
     private llm: OpenAI;
 
     constructor(openaiApiKey: string) {
         const embeddingModel = new MockEmbeddingModel(384);
-        this.vectorStore = new SimpleInMemoryVectorStore(embeddingModel);
+        this.vectorStore = new InMemoryVectorStore(embeddingModel);
         this.textSplitter = new RecursiveCharacterTextSplitter({
             chunkSize: 500,
             chunkOverlap: 50,
@@ -117,21 +68,11 @@ class RAGPipeline {
 
         // Step 1: Retrieve relevant documents
         console.log('📚 Retrieving relevant documents...');
-        let results = await this.vectorStore.search(question, topK);
+        const results = await this.vectorStore.similaritySearch(question, topK);
 
         // Step 2: Re-rank
         console.log('🎯 Re-ranking results...');
-        const rerankedResults = await this.reranker.rerank(
-            question,
-            results.map((r) => ({
-                document: {
-                    id: r.document.id,
-                    content: r.document.content,
-                    metadata: r.document.metadata,
-                },
-                score: r.score,
-            }))
-        );
+        const rerankedResults = await this.reranker.rerank(question, results);
 
         // Step 3: Build context from top results
         const context = rerankedResults
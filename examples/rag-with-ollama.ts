@@ -2,6 +2,7 @@ import {
     RecursiveCharacterTextSplitter,
     MockEmbeddingModel,
     KeywordReranker,
+    InMemoryVectorStore,
 } from '../src/index';
 
 /**
@@ -18,56 +19,6 @@ import {
  * No API keys needed! Everything runs locally.
  */
 
-// In-memory vector store
-interface Document {
-    id: string;
-    content: string;
-    metadata?: any;
-    embedding?: number[];
-}
-
-class SimpleInMemoryVectorStore {
-    private documents: Document[] = [];
-    private embeddingModel: MockEmbeddingModel;
-
-    constructor(embeddingModel: MockEmbeddingModel) {
-        this.embeddingModel = embeddingModel;
-    }
-
-    async addDocuments(docs: Array<{ content: string; metadata?: any }>) {
-        for (const doc of docs) {
-            const embedding = await this.embeddingModel.embedText(doc.content);
-            this.documents.push({
-                id: `doc_${this.documents.length}`,
-                content: doc.content,
-                metadata: doc.metadata,
-                embedding,
-            });
-        }
-    }
-
-    async search(query: string, k: number = 5) {
-        const queryEmbedding = await this.embeddingModel.embedText(query);
-        const results = this.documents.map((doc) => {
-            const similarity = this.cosineSimilarity(queryEmbedding, doc.embedding!);
-            return { document: doc, score: similarity };
-        });
-        return results.sort((a, b) => b.score - a.score).slice(0, k);
-    }
-
-    private cosineSimilarity(a: number[], b: number[]): number {
-        let dotProduct = 0;
-        let normA = 0;
-        let normB = 0;
-        for (let i = 0; i < a.length; i++) {
-            dotProduct += a[i] * b[i];
-            normA += a[i] * a[i];
-            normB += b[i] * b[i];
-        }
-        return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-    }
-}
-
 /**
  * Ollama Client
  */
@@ -169,14 +120,14 @@ class OllamaClient {
  * RAG Pipeline with Ollama
  */
 class OllamaRAGPipeline {
-    private vectorStore: SimpleInMemoryVectorStore;
+    private vectorStore: InMemoryVectorStore;
     private textSplitter: RecursiveCharacterTextSplitter;
     private reranker: KeywordReranker;
     private llm: OllamaClient;
 
     constructor(model: string = 'llama2') {
         const embeddingModel = new MockEmbeddingModel(384);
-        this.vectorStore = new SimpleInMemoryVectorStore(embeddingModel);
+        this.vectorStore = new InMemoryVectorStore(embeddingModel);
         this.textSplitter = new RecursiveCharacterTextSplitter({
             chunkSize: 500,
             chunkOverlap: 50,
@@ -211,21 +162,11 @@ class OllamaRAGPipeline {
 
         // Step 1: Retrieve
         console.log('📚 Retrieving relevant documents...');
-        let results = await this.vectorStore.search(question, topK);
+        const results = await this.vectorStore.similaritySearch(question, topK);
 
         // Step 2: Re-rank
         console.log('🎯 Re-ranking results...');
-        const rerankedResults = await this.reranker.rerank(
-            question,
-            results.map((r) => ({
-                document: {
-                    id: r.document.id,
-                    content: r.document.content,
-                    metadata: r.document.metadata,
-                },
-                score: r.score,
-            }))
-        );
+        const rerankedResults = await this.reranker.rerank(question, results);
 
         // Step 3: Build context
         const context = rerankedResults
@@ -268,18 +209,8 @@ class OllamaRAGPipeline {
 
         // Retrieve and re-rank
         console.log('📚 Retrieving and re-ranking...');
-        let results = await this.vectorStore.search(question, topK);
-        const rerankedResults = await this.reranker.rerank(
-            question,
-            results.map((r) => ({
-                document: {
-                    id: r.document.id,
-                    content: r.document.content,
-                    metadata: r.document.metadata,
-                },
-                score: r.score,
-            }))
-        );
+        const results = await this.vectorStore.similaritySearch(question, topK);
+        const rerankedResults = await this.reranker.rerank(question, results);
 
         const context = rerankedResults
             .slice(0, 3)
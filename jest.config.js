@@ -4,4 +4,10 @@ module.exports = {
     roots: ['<rootDir>/src'],
     testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
     collectCoverageFrom: ['src/**/*.ts', '!src/**/*.d.ts'],
+    // uuid ships as ESM only, so it has to be transpiled for the CommonJS test runtime
+    transform: {
+        '^.+\\.ts$': 'ts-jest',
+        '^.+\\.js$': ['ts-jest', { tsconfig: { allowJs: true } }],
+    },
+    transformIgnorePatterns: ['/node_modules/(?!uuid/)'],
 };
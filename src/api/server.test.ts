@@ -0,0 +1,252 @@
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { LiteRAGServer } from '../api/server';
+import { InMemoryVectorStore } from '../vector-store/memory';
+import { MockEmbeddingModel } from '../core/embedding';
+import { RecursiveCharacterTextSplitter } from '../ingestion/splitters';
+import { VectorStore } from '../core/types';
+import { BM25Index } from '../retrieval/bm25';
+
+describe('LiteRAGServer document routes', () => {
+    let server: Server;
+    let baseUrl: string;
+    let vectorStore: VectorStore;
+
+    const listen = async (store: VectorStore) => {
+        const app = new LiteRAGServer({
+            port: 0,
+            vectorStore: store,
+            embeddingModel: new MockEmbeddingModel(8),
+            textSplitter: new RecursiveCharacterTextSplitter({ chunkSize: 200, chunkOverlap: 0 }),
+        }).getApp();
+        server = await new Promise<Server>((resolve) => {
+            const listening = app.listen(0, () => resolve(listening));
+        });
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    };
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        vectorStore = new InMemoryVectorStore(new MockEmbeddingModel(8));
+        await vectorStore.addDocuments([
+            { id: 'a', content: 'alpha', metadata: { category: 'tech' } },
+            { id: 'b', content: 'beta', metadata: { category: 'science' } },
+            { id: 'c', content: 'gamma', metadata: { category: 'tech' } },
+        ]);
+        await listen(vectorStore);
+    });
+
+    afterEach(async () => {
+        await new Promise((resolve) => server.close(resolve));
+        jest.restoreAllMocks();
+    });
+
+    it('should get documents by id', async () => {
+        const body = await (await fetch(`${baseUrl}/documents?ids=b,zzz`)).json();
+        expect(body).toEqual({ documents: [{ id: 'b', content: 'beta', metadata: { category: 'science' } }] });
+    });
+
+    it('should page through documents with a filter', async () => {
+        const filter = encodeURIComponent(JSON.stringify({ equals: { category: 'tech' } }));
+        const first: any = await (await fetch(`${baseUrl}/documents?limit=1&filter=${filter}`)).json();
+        expect(first.documents.map((d: any) => d.id)).toEqual(['a']);
+
+        const second = await (
+            await fetch(`${baseUrl}/documents?limit=1&filter=${filter}&cursor=${first.nextCursor}`)
+        ).json();
+        expect(second).toEqual({ documents: [{ id: 'c', content: 'gamma', metadata: { category: 'tech' } }] });
+    });
+
+    it('should count documents', async () => {
+        const filter = encodeURIComponent(JSON.stringify({ equals: { category: 'tech' } }));
+        expect(await (await fetch(`${baseUrl}/documents/count`)).json()).toEqual({ count: 3 });
+        expect(await (await fetch(`${baseUrl}/documents/count?filter=${filter}`)).json()).toEqual({ count: 2 });
+    });
+
+    it('should reject malformed parameters', async () => {
+        expect((await fetch(`${baseUrl}/documents?filter=nope`)).status).toBe(400);
+        expect((await fetch(`${baseUrl}/documents?limit=0`)).status).toBe(400);
+    });
+
+    it('should delete documents by filter', async () => {
+        const filter = encodeURIComponent(JSON.stringify({ equals: { category: 'tech' } }));
+        const response = await fetch(`${baseUrl}/documents?filter=${filter}`, { method: 'DELETE' });
+
+        expect(response.status).toBe(200);
+        expect(await vectorStore.count!()).toBe(1);
+    });
+
+    it('should refuse to delete with an empty filter', async () => {
+        const response = await fetch(`${baseUrl}/documents?filter=${encodeURIComponent('{}')}`, { method: 'DELETE' });
+
+        expect(response.status).toBe(400);
+        expect(await vectorStore.count!()).toBe(3);
+    });
+
+    it('should refuse to delete with a filter that has no conditions', async () => {
+        const filter = encodeURIComponent(JSON.stringify({ equals: {} }));
+        const response = await fetch(`${baseUrl}/documents?filter=${filter}`, { method: 'DELETE' });
+
+        expect(response.status).toBe(400);
+        expect(((await response.json()) as any).error).toBe('Invalid filter: "equals" must name at least one field');
+        expect(await vectorStore.count!()).toBe(3);
+    });
+
+    it('should patch metadata by filter', async () => {
+        const response = await fetch(`${baseUrl}/documents`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ filter: { equals: { category: 'tech' } }, metadata: { reviewed: true } }),
+        });
+
+        expect(response.status).toBe(200);
+        expect(await vectorStore.count!({ equals: { reviewed: true } })).toBe(2);
+    });
+
+    it('should require exactly one of ids or filter when patching', async () => {
+        const response = await fetch(`${baseUrl}/documents`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ids: ['a'], filter: { equals: { category: 'tech' } }, metadata: { reviewed: true } }),
+        });
+        expect(response.status).toBe(400);
+    });
+
+    it('should answer 501 when the store cannot list documents', async () => {
+        await new Promise((resolve) => server.close(resolve));
+        await listen({
+            initialize: async () => {},
+            addDocuments: async () => {},
+            similaritySearch: async () => [],
+            deleteDocuments: async () => {},
+            close: async () => {},
+        });
+
+        expect((await fetch(`${baseUrl}/documents`)).status).toBe(501);
+        expect((await fetch(`${baseUrl}/documents/count`)).status).toBe(501);
+    });
+});
+
+describe('LiteRAGServer query route', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    const query = (body: object) =>
+        fetch(`${baseUrl}/query`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        const vectorStore = new InMemoryVectorStore(new MockEmbeddingModel(8));
+        await vectorStore.addDocuments([
+            { id: 'a', content: 'alpha', metadata: { category: 'tech', year: 2022 } },
+            { id: 'b', content: 'beta', metadata: { category: 'science', year: 2024 } },
+            { id: 'c', content: 'gamma', metadata: { category: 'tech', year: 2024 } },
+        ]);
+        const app = new LiteRAGServer({
+            port: 0,
+            vectorStore,
+            embeddingModel: new MockEmbeddingModel(8),
+            textSplitter: new RecursiveCharacterTextSplitter({ chunkSize: 200, chunkOverlap: 0 }),
+        }).getApp();
+        server = await new Promise<Server>((resolve) => {
+            const listening = app.listen(0, () => resolve(listening));
+        });
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise((resolve) => server.close(resolve));
+        jest.restoreAllMocks();
+    });
+
+    it('should accept a filter object or an equivalent filter expression', async () => {
+        const fromObject: any = await (
+            await query({ query: 'alpha', filter: { equals: { category: 'tech' }, greaterThan: { year: 2023 } } })
+        ).json();
+        const fromExpression: any = await (
+            await query({ query: 'alpha', filter: 'category = "tech" AND year > 2023' })
+        ).json();
+
+        expect(fromExpression.results.map((r: any) => r.content)).toEqual(['gamma']);
+        expect(fromExpression.results).toEqual(fromObject.results);
+    });
+
+    it('should reject an invalid filter before querying the store', async () => {
+        const response = await query({ query: 'alpha', filter: { greaterThan: { year: '2023' } } });
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({
+            error: 'Invalid filter: "greaterThan.year" must be a number (got string)',
+        });
+    });
+
+    it('should reject an unknown mode and modes the store does not support', async () => {
+        const unknown = await query({ query: 'alpha', mode: 'semantic' });
+        expect(unknown.status).toBe(400);
+        expect(await unknown.json()).toEqual({ error: 'mode must be one of vector, keyword, hybrid' });
+
+        const hybrid = await query({ query: 'alpha', mode: 'hybrid' });
+        expect(hybrid.status).toBe(501);
+        expect(await hybrid.json()).toEqual({ error: 'Vector store does not support hybridSearch' });
+    });
+
+    it('should drop results below minScore and report raw scores', async () => {
+        const body: any = await (await query({ query: 'alpha', k: 3, minScore: 0.99 })).json();
+        expect(body.results.map((r: any) => r.content)).toEqual(['alpha']);
+        expect(body.results[0].rawScore).toBeCloseTo(1, 5);
+
+        const invalid = await query({ query: 'alpha', minScore: 'high' });
+        expect(invalid.status).toBe(400);
+        expect(await invalid.json()).toEqual({ error: 'minScore must be a number' });
+
+        const keyword = await query({ query: 'alpha', mode: 'keyword', minScore: 0.5 });
+        expect(keyword.status).toBe(400);
+        expect(await keyword.json()).toEqual({ error: 'minScore is only supported in vector mode' });
+    });
+
+    it('should search a configured keyword index and keep it in sync on delete', async () => {
+        const keywordIndex = new BM25Index();
+        const app = new LiteRAGServer({
+            port: 0,
+            vectorStore: new InMemoryVectorStore(new MockEmbeddingModel(8)),
+            embeddingModel: new MockEmbeddingModel(8),
+            textSplitter: new RecursiveCharacterTextSplitter({ chunkSize: 200, chunkOverlap: 0 }),
+            keywordIndex,
+        }).getApp();
+        const keywordServer = await new Promise<Server>((resolve) => {
+            const listening = app.listen(0, () => resolve(listening));
+        });
+        const url = `http://127.0.0.1:${(keywordServer.address() as AddressInfo).port}`;
+        const post = (route: string, body: object) =>
+            fetch(`${url}${route}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            });
+
+        try {
+            await post('/ingest', { content: 'Error E-1042: disk quota exceeded', metadata: { source: 'log' } });
+            const found: any = await (await post('/query', { query: 'E-1042', mode: 'keyword' })).json();
+            expect(found.results.map((r: any) => r.content)).toEqual(['Error E-1042: disk quota exceeded']);
+
+            await fetch(`${url}/documents`, {
+                method: 'DELETE',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ ids: ['log_chunk_0'] }),
+            });
+            expect(keywordIndex.size).toBe(0);
+        } finally {
+            await new Promise((resolve) => keywordServer.close(resolve));
+        }
+    });
+
+    it('should reject a malformed filter expression with its position', async () => {
+        const response = await query({ query: 'alpha', filter: 'category = ' });
+        expect(response.status).toBe(400);
+        expect(((await response.json()) as any).error).toMatch(/^Invalid filter expression at position 11/);
+    });
+});
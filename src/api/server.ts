@@ -1,30 +1,77 @@
 import express, { Request, Response } from 'express';
-import { VectorStore, EmbeddingModel, Metadata } from '../core/types';
+import {
+    VectorStore,
+    VectorStoreConfig,
+    EmbeddingModel,
+    Metadata,
+    MetadataFilter,
+    SearchMode,
+} from '../core/types';
 import { IngestionPipeline } from '../ingestion/pipeline';
 import { Retriever } from '../retrieval/retriever';
 import { Reranker } from '../retrieval/reranker';
+import { BM25Index } from '../retrieval/bm25';
 import { Cache } from '../core/cache';
 import { TextSplitter } from '../core/types';
+import { createVectorStore, hasConditions, parseFilterExpression, validateFilter } from '../vector-store';
 
 /**
  * API Server configuration
  */
 export interface ServerConfig {
     port: number;
-    vectorStore: VectorStore;
+    /** A store instance, or a config resolved through the vector store registry */
+    vectorStore: VectorStore | VectorStoreConfig;
     embeddingModel: EmbeddingModel;
     textSplitter: TextSplitter;
     reranker?: Reranker;
+    /** Keyword index filled on ingest and kept in sync on delete and update, for the keyword and hybrid modes */
+    keywordIndex?: BM25Index;
     cache?: Cache<any>;
     cacheTTL?: number;
 }
 
+const SEARCH_MODES: SearchMode[] = ['vector', 'keyword', 'hybrid'];
+
+function isVectorStoreConfig(value: VectorStore | VectorStoreConfig): value is VectorStoreConfig {
+    return typeof (value as VectorStore).similaritySearch !== 'function';
+}
+
+/**
+ * Parse a JSON-encoded `filter` query parameter
+ * @returns undefined when absent, null when malformed
+ */
+function parseFilterParam(value: unknown): MetadataFilter | undefined | null {
+    if (value === undefined) return undefined;
+    try {
+        const filter = JSON.parse(String(value));
+        return filter && typeof filter === 'object' && !Array.isArray(filter) ? filter : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Check a client-supplied filter before it reaches the store
+ * @returns The validation error, or undefined when the filter is absent or valid
+ */
+function filterError(filter: MetadataFilter | undefined): string | undefined {
+    if (filter === undefined) return undefined;
+    try {
+        validateFilter(filter);
+        return undefined;
+    } catch (error: any) {
+        return error.message;
+    }
+}
+
 /**
  * LiteRAG API Server
  */
 export class LiteRAGServer {
     private app: express.Application;
     private config: ServerConfig;
+    private vectorStore: VectorStore;
     private ingestionPipeline: IngestionPipeline;
     private retriever: Retriever;
 
@@ -33,13 +80,19 @@ export class LiteRAGServer {
         this.config = config;
 
         // Initialize components
+        this.vectorStore = isVectorStoreConfig(config.vectorStore)
+            ? createVectorStore(config.vectorStore, config.embeddingModel)
+            : config.vectorStore;
+
         this.ingestionPipeline = new IngestionPipeline({
             textSplitter: config.textSplitter,
-            vectorStore: config.vectorStore,
+            vectorStore: this.vectorStore,
+            keywordIndex: config.keywordIndex,
         });
 
         this.retriever = new Retriever({
-            vectorStore: config.vectorStore,
+            vectorStore: this.vectorStore,
+            keywordIndex: config.keywordIndex,
         });
 
         this.setupMiddleware();
@@ -53,7 +106,7 @@ export class LiteRAGServer {
         // CORS
         this.app.use((req, res, next) => {
             res.header('Access-Control-Allow-Origin', '*');
-            res.header('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+            res.header('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
             res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
             next();
         });
@@ -68,17 +121,20 @@ export class LiteRAGServer {
         // Ingest endpoint
         this.app.post('/ingest', async (req: Request, res: Response) => {
             try {
-                const { content, metadata } = req.body;
+                const { id, content, metadata } = req.body;
 
                 if (!content) {
                     return res.status(400).json({ error: 'Content is required' });
                 }
 
-                await this.ingestionPipeline.ingestDocument(content, metadata as Metadata);
+                const result = await this.ingestionPipeline.ingestDocument(content, metadata as Metadata, {
+                    documentId: id,
+                });
 
                 res.json({
                     success: true,
                     message: 'Document ingested successfully',
+                    ...result,
                 });
             } catch (error: any) {
                 console.error('Ingestion error:', error);
@@ -95,11 +151,12 @@ export class LiteRAGServer {
                     return res.status(400).json({ error: 'Documents array is required' });
                 }
 
-                await this.ingestionPipeline.ingestDocuments(documents);
+                const results = await this.ingestionPipeline.ingestDocuments(documents);
 
                 res.json({
                     success: true,
                     message: `${documents.length} documents ingested successfully`,
+                    documents: results,
                 });
             } catch (error: any) {
                 console.error('Batch ingestion error:', error);
@@ -110,16 +167,47 @@ export class LiteRAGServer {
         // Query endpoint
         this.app.post('/query', async (req: Request, res: Response) => {
             try {
-                const { query, k, rerank, filter, useCache = true } = req.body;
+                const { query, k, rerank, filter, mode = 'vector', minScore, useCache = true } = req.body;
 
                 if (!query) {
                     return res.status(400).json({ error: 'Query is required' });
                 }
 
+                if (!SEARCH_MODES.includes(mode)) {
+                    return res.status(400).json({ error: `mode must be one of ${SEARCH_MODES.join(', ')}` });
+                }
+                if (minScore !== undefined) {
+                    if (typeof minScore !== 'number') {
+                        return res.status(400).json({ error: 'minScore must be a number' });
+                    }
+                    if (mode !== 'vector') {
+                        return res.status(400).json({ error: 'minScore is only supported in vector mode' });
+                    }
+                }
+                if (!this.retriever.supportsMode(mode)) {
+                    const searchMethod = mode === 'keyword' ? 'keywordSearch' : 'hybridSearch';
+                    return res.status(501).json({ error: `Vector store does not support ${searchMethod}` });
+                }
+
                 const topK = k || 5;
 
+                // A filter is a MetadataFilter object or a filter expression string
+                let metadataFilter: MetadataFilter | undefined = filter;
+                if (typeof filter === 'string') {
+                    try {
+                        metadataFilter = parseFilterExpression(filter);
+                    } catch (error: any) {
+                        return res.status(400).json({ error: error.message });
+                    }
+                }
+                const invalidFilter = filterError(metadataFilter);
+                if (invalidFilter) {
+                    return res.status(400).json({ error: invalidFilter });
+                }
+
                 // Check cache
-                const cacheKey = `query:${query}:${topK}:${JSON.stringify(filter || {})}`;
+                const cacheKey =
+                    `query:${query}:${topK}:${mode}:${minScore ?? ''}:` + JSON.stringify(metadataFilter || {});
                 if (useCache && this.config.cache) {
                     const cached = await this.config.cache.get(cacheKey);
                     if (cached) {
@@ -131,7 +219,7 @@ export class LiteRAGServer {
                 }
 
                 // Retrieve
-                let results = await this.retriever.retrieve(query, { topK, filter });
+                let results = await this.retriever.retrieve(query, { topK, filter: metadataFilter, mode, minScore });
 
                 // Re-rank if configured
                 if (rerank && this.config.reranker) {
@@ -145,6 +233,7 @@ export class LiteRAGServer {
                         content: r.document.content,
                         metadata: r.document.metadata,
                         score: r.score,
+                        ...(r.rawScore !== undefined && { rawScore: r.rawScore }),
                     })),
                 };
 
@@ -160,16 +249,106 @@ export class LiteRAGServer {
             }
         });
 
+        // List documents, or fetch specific ones with ?ids=a,b
+        this.app.get('/documents', async (req: Request, res: Response) => {
+            try {
+                if (req.query.ids !== undefined) {
+                    if (!this.vectorStore.getDocuments) {
+                        return res.status(501).json({ error: 'Vector store does not support getDocuments' });
+                    }
+                    const ids = String(req.query.ids).split(',').filter(Boolean);
+                    const documents = await this.vectorStore.getDocuments(ids);
+                    return res.json({ documents });
+                }
+
+                if (!this.vectorStore.listDocuments) {
+                    return res.status(501).json({ error: 'Vector store does not support listDocuments' });
+                }
+
+                const filter = parseFilterParam(req.query.filter);
+                if (filter === null) {
+                    return res.status(400).json({ error: 'Filter must be a JSON object' });
+                }
+                const invalidFilter = filterError(filter);
+                if (invalidFilter) {
+                    return res.status(400).json({ error: invalidFilter });
+                }
+
+                const limit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
+                if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+                    return res.status(400).json({ error: 'Limit must be a positive integer' });
+                }
+
+                const page = await this.vectorStore.listDocuments({
+                    filter,
+                    limit,
+                    cursor: req.query.cursor !== undefined ? String(req.query.cursor) : undefined,
+                });
+                res.json(page);
+            } catch (error: any) {
+                console.error('List documents error:', error);
+                res.status(500).json({ error: error.message });
+            }
+        });
+
+        // Count documents endpoint
+        this.app.get('/documents/count', async (req: Request, res: Response) => {
+            try {
+                if (!this.vectorStore.count) {
+                    return res.status(501).json({ error: 'Vector store does not support count' });
+                }
+
+                const filter = parseFilterParam(req.query.filter);
+                if (filter === null) {
+                    return res.status(400).json({ error: 'Filter must be a JSON object' });
+                }
+                const invalidFilter = filterError(filter);
+                if (invalidFilter) {
+                    return res.status(400).json({ error: invalidFilter });
+                }
+
+                const count = await this.vectorStore.count(filter);
+                res.json({ count });
+            } catch (error: any) {
+                console.error('Count error:', error);
+                res.status(500).json({ error: error.message });
+            }
+        });
+
         // Delete documents endpoint
         this.app.delete('/documents', async (req: Request, res: Response) => {
             try {
+                // Delete by metadata filter with ?filter=
+                if (req.query.filter !== undefined) {
+                    if (!this.vectorStore.deleteByFilter) {
+                        return res.status(501).json({ error: 'Vector store does not support deleteByFilter' });
+                    }
+
+                    const filter = parseFilterParam(req.query.filter);
+                    if (!filter || !hasConditions(filter)) {
+                        return res.status(400).json({ error: 'Filter must be a non-empty JSON object' });
+                    }
+                    const invalidFilter = filterError(filter);
+                    if (invalidFilter) {
+                        return res.status(400).json({ error: invalidFilter });
+                    }
+
+                    await this.vectorStore.deleteByFilter(filter);
+                    this.config.keywordIndex?.deleteByFilter(filter);
+                    return res.json({
+                        success: true,
+                        message: 'Documents matching filter deleted successfully',
+                    });
+                }
+
                 const { ids } = req.body;
 
                 if (!ids || !Array.isArray(ids)) {
                     return res.status(400).json({ error: 'Document IDs array is required' });
                 }
 
-                await this.config.vectorStore.deleteDocuments(ids);
+                await this.vectorStore.deleteDocuments(ids);
+                this.config.keywordIndex?.deleteDocuments(ids);
 
                 res.json({
                     success: true,
@@ -180,6 +359,41 @@ export class LiteRAGServer {
                 res.status(500).json({ error: error.message });
             }
         });
+
+        // Update metadata endpoint
+        this.app.patch('/documents', async (req: Request, res: Response) => {
+            try {
+                const { ids, filter, metadata } = req.body;
+
+                if (!this.vectorStore.updateMetadata) {
+                    return res.status(501).json({ error: 'Vector store does not support updateMetadata' });
+                }
+
+                if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+                    return res.status(400).json({ error: 'Metadata object is required' });
+                }
+
+                const hasFilter = filter && typeof filter === 'object' && hasConditions(filter);
+                if (Array.isArray(ids) === Boolean(hasFilter)) {
+                    return res.status(400).json({ error: 'Either an IDs array or a non-empty filter is required' });
+                }
+                const invalidFilter = hasFilter ? filterError(filter) : undefined;
+                if (invalidFilter) {
+                    return res.status(400).json({ error: invalidFilter });
+                }
+
+                await this.vectorStore.updateMetadata(Array.isArray(ids) ? ids : filter, metadata as Metadata);
+                this.config.keywordIndex?.updateMetadata(Array.isArray(ids) ? ids : filter, metadata as Metadata);
+
+                res.json({
+                    success: true,
+                    message: 'Document metadata updated successfully',
+                });
+            } catch (error: any) {
+                console.error('Update metadata error:', error);
+                res.status(500).json({ error: error.message });
+            }
+        });
     }
 
     /**
@@ -187,7 +401,7 @@ export class LiteRAGServer {
      */
     async start(): Promise<void> {
         // Initialize vector store
-        await this.config.vectorStore.initialize();
+        await this.vectorStore.initialize();
 
         return new Promise((resolve) => {
             this.app.listen(this.config.port, () => {
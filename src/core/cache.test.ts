@@ -1,4 +1,4 @@
-import { InMemoryCache } from '../core/cache';
+import { InMemoryCache, RedisCache } from '../core/cache';
 
 describe('InMemoryCache', () => {
     let cache: InMemoryCache<string>;
@@ -58,3 +58,85 @@ describe('InMemoryCache', () => {
         expect(await cache.get('key3')).toBe('value3');
     });
 });
+
+/**
+ * In-process stand-in for the node-redis commands the cache uses
+ */
+class FakeRedisClient {
+    store = new Map<string, string>();
+    set = jest.fn(async (key: string, value: string, _options?: { EX: number }) => {
+        this.store.set(key, value);
+    });
+    scanIterator = jest.fn(({ MATCH }: { MATCH: string; COUNT: number }) => {
+        const prefix = MATCH.slice(0, -1).replace(/\\(.)/g, '$1');
+        const keys = [...this.store.keys()].filter((key) => key.startsWith(prefix));
+        // One page per key, plus an empty page as SCAN may return
+        return (async function* () {
+            yield [];
+            for (const key of keys) yield [key];
+        })();
+    });
+
+    async get(key: string): Promise<string | null> {
+        return this.store.get(key) ?? null;
+    }
+
+    async del(keys: string | string[]): Promise<void> {
+        (Array.isArray(keys) ? keys : [keys]).forEach((key) => this.store.delete(key));
+    }
+}
+
+describe('RedisCache', () => {
+    let client: FakeRedisClient;
+    let cache: RedisCache<{ answer: string; sources: number[] }>;
+
+    beforeEach(() => {
+        client = new FakeRedisClient();
+        cache = new RedisCache(client, 'test:');
+    });
+
+    it('should store values as JSON under the prefix', async () => {
+        await cache.set('q1', { answer: 'yes', sources: [1, 2] });
+
+        expect(client.store.get('test:q1')).toBe('{"answer":"yes","sources":[1,2]}');
+        expect(await cache.get('q1')).toEqual({ answer: 'yes', sources: [1, 2] });
+        expect(await cache.get('q2')).toBeNull();
+    });
+
+    it('should pass the TTL in seconds as EX, like InMemoryCache', async () => {
+        await cache.set('q1', { answer: 'yes', sources: [] }, 60);
+        await cache.set('q2', { answer: 'no', sources: [] });
+
+        expect(client.set).toHaveBeenNthCalledWith(1, 'test:q1', expect.any(String), { EX: 60 });
+        expect(client.set).toHaveBeenNthCalledWith(2, 'test:q2', expect.any(String), undefined);
+    });
+
+    it('should delete values', async () => {
+        await cache.set('q1', { answer: 'yes', sources: [] });
+        await cache.delete('q1');
+
+        expect(await cache.get('q1')).toBeNull();
+    });
+
+    it('should clear only keys under its prefix', async () => {
+        await cache.set('q1', { answer: 'yes', sources: [] });
+        await cache.set('q2', { answer: 'no', sources: [] });
+        client.store.set('docs:a', 'kept');
+
+        await cache.clear();
+
+        expect(client.scanIterator).toHaveBeenCalledWith({ MATCH: 'test:*', COUNT: 100 });
+        expect([...client.store.keys()]).toEqual(['docs:a']);
+    });
+
+    it('should escape glob characters in the prefix', async () => {
+        const globCache = new RedisCache<string>(client, 'app[1]:*?\\');
+        await globCache.set('q1', 'yes');
+        client.store.set('app1:x', 'kept');
+
+        await globCache.clear();
+
+        expect(client.scanIterator).toHaveBeenCalledWith({ MATCH: 'app\\[1\\]:\\*\\?\\\\*', COUNT: 100 });
+        expect([...client.store.keys()]).toEqual(['app1:x']);
+    });
+});
@@ -47,3 +47,58 @@ export class InMemoryCache<T> implements Cache<T> {
         return this.cache.size;
     }
 }
+
+/**
+ * Escape the characters Redis treats as glob syntax in a SCAN MATCH pattern
+ */
+function escapeGlob(value: string): string {
+    return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/**
+ * The node-redis client commands RedisCache uses
+ */
+export interface RedisCacheClient {
+    get(key: string): Promise<unknown>;
+    set(key: string, value: string, options?: { EX: number }): Promise<unknown>;
+    del(keys: string | string[]): Promise<unknown>;
+    scanIterator(options: { MATCH: string; COUNT: number }): AsyncIterable<string[]>;
+}
+
+/**
+ * Redis-backed cache; values are stored as JSON under a key prefix
+ *
+ * The client is not connected or closed here, so it can be shared with a RedisVectorStore.
+ */
+export class RedisCache<T> implements Cache<T> {
+    private client: RedisCacheClient;
+    private prefix: string;
+
+    constructor(client: RedisCacheClient, prefix: string = 'literag:cache:') {
+        this.client = client;
+        this.prefix = prefix;
+    }
+
+    async get(key: string): Promise<T | null> {
+        const value = await this.client.get(this.prefix + key);
+        return value === null ? null : JSON.parse(String(value));
+    }
+
+    async set(key: string, value: T, ttl?: number): Promise<void> {
+        await this.client.set(this.prefix + key, JSON.stringify(value), ttl ? { EX: ttl } : undefined);
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.client.del(this.prefix + key);
+    }
+
+    async clear(): Promise<void> {
+        // Only remove keys under this cache's prefix, taken literally
+        const match = `${escapeGlob(this.prefix)}*`;
+        for await (const keys of this.client.scanIterator({ MATCH: match, COUNT: 100 })) {
+            if (keys.length > 0) {
+                await this.client.del(keys);
+            }
+        }
+    }
+}
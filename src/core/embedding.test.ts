@@ -1,4 +1,4 @@
-import { MockEmbeddingModel } from '../core/embedding';
+import { MockEmbeddingModel, TermFrequencyEncoder } from '../core/embedding';
 
 describe('MockEmbeddingModel', () => {
     let model: MockEmbeddingModel;
@@ -49,3 +49,23 @@ describe('MockEmbeddingModel', () => {
         expect(model.getDimension()).toBe(384);
     });
 });
+
+describe('TermFrequencyEncoder', () => {
+    const encoder = new TermFrequencyEncoder({ k1: 1 });
+
+    it('should weight document words by saturated term frequency', () => {
+        const vector = encoder.encodeDocument('Vector search, vector DB');
+        const query = encoder.encodeQuery('vector');
+
+        expect(vector.indices).toHaveLength(3);
+        expect(vector.indices).toEqual([...vector.indices].sort((a, b) => a - b));
+        // tf 2 with k1 1: 2 * 2 / 3
+        expect(vector.values[vector.indices.indexOf(query.indices[0])]).toBeCloseTo(4 / 3);
+        expect(vector.values.filter((value) => value === 1)).toHaveLength(2);
+    });
+
+    it('should weight each query word once', () => {
+        expect(encoder.encodeQuery('db DB').values).toEqual([1]);
+        expect(encoder.encodeQuery('  ')).toEqual({ indices: [], values: [] });
+    });
+});
@@ -1,4 +1,5 @@
-import { EmbeddingModel } from './types';
+import { EmbeddingModel, SparseEncoder, SparseVector } from './types';
+import { tokenize } from './text';
 
 /**
  * Mock embedding model for testing and development
@@ -89,3 +90,57 @@ export class OpenAIEmbeddingModel implements EmbeddingModel {
         return this.dimension;
     }
 }
+
+/**
+ * Configuration for term frequency sparse encoding
+ */
+export interface TermFrequencyEncoderConfig {
+    /** Term frequency saturation, as in BM25 (default: 1.2) */
+    k1?: number;
+}
+
+/**
+ * Sparse encoder for BM25-style keyword search
+ *
+ * Each word is hashed to a dimension and weighted by its saturated term
+ * frequency, `tf * (k1 + 1) / (tf + k1)`; query words weigh 1. Inverse document
+ * frequency is left to the store (e.g. Qdrant's `idf` modifier).
+ */
+export class TermFrequencyEncoder implements SparseEncoder {
+    private k1: number;
+
+    constructor(config: TermFrequencyEncoderConfig = {}) {
+        this.k1 = config.k1 ?? 1.2;
+    }
+
+    encodeDocument(text: string): SparseVector {
+        return this.encode(text, (tf) => (tf * (this.k1 + 1)) / (tf + this.k1));
+    }
+
+    encodeQuery(text: string): SparseVector {
+        return this.encode(text, () => 1);
+    }
+
+    private encode(text: string, weight: (tf: number) => number): SparseVector {
+        const counts = new Map<number, number>();
+        for (const word of tokenize(text)) {
+            const index = this.hashWord(word);
+            counts.set(index, (counts.get(index) ?? 0) + 1);
+        }
+
+        const indices = [...counts.keys()].sort((a, b) => a - b);
+        return { indices, values: indices.map((index) => weight(counts.get(index)!)) };
+    }
+
+    /**
+     * 32-bit FNV-1a hash, so the same word always maps to the same dimension
+     */
+    private hashWord(word: string): number {
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < word.length; i++) {
+            hash ^= word.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return hash >>> 0;
+    }
+}
@@ -0,0 +1,9 @@
+/**
+ * Lower-cased letter and digit runs of a text
+ *
+ * Shared by BM25, the sparse encoder and the `textMatch` filter, so keyword
+ * scoring and filtering agree on what a word is.
+ */
+export function tokenize(text: string): string[] {
+    return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
@@ -2,6 +2,9 @@
  * Core types and interfaces for LiteRAG.js
  */
 
+import type { LocalHNSWOptions } from '../vector-store/memory';
+import type { QdrantPayloadIndexType } from '../vector-store/qdrant';
+
 /**
  * Metadata associated with a document
  */
@@ -32,31 +35,136 @@ export interface Chunk extends Document {
  */
 export interface SearchResult {
     document: Document;
+    /**
+     * Relevance, higher is better; for `similaritySearch` every built-in store reports
+     * cosine similarity (1 for the same direction, down to -1 for opposite)
+     */
     score: number;
+    /** Score or distance as returned by the backend, before normalisation */
+    rawScore?: number;
+    /** Stored embedding of the document, when requested with `includeEmbeddings` */
+    embedding?: number[];
 }
 
 /**
- * Configuration for vector store
+ * Vector store types that ship with LiteRAG.js
+ */
+export type BuiltInVectorStoreType =
+    | 'opensearch'
+    | 'elasticsearch'
+    | 'qdrant'
+    | 'chroma'
+    | 'weaviate'
+    | 'milvus'
+    | 'pgvector'
+    | 'sqlite'
+    | 'redis'
+    | 'memory'
+    | 'file';
+
+/**
+ * Options block of each vector store type, keyed by `config.type`
+ *
+ * Stores added with `registerVectorStore` declare their block by merging into
+ * this interface, e.g.
+ * `declare module 'literag' { interface VectorStoreOptionsMap { lancedb: { uri: string } } }`.
  */
-export interface VectorStoreConfig {
-    type: 'opensearch' | 'qdrant';
-    // OpenSearch/Elasticsearch config
-    opensearch?: {
+export interface VectorStoreOptionsMap {
+    // OpenSearch config
+    opensearch: {
         node: string;
         auth?: {
             username: string;
             password: string;
         };
         indexName: string;
+        metadataSchema?: MetadataSchema;
+    };
+    // Elasticsearch config
+    elasticsearch: {
+        node: string;
+        auth?: { username: string; password: string } | { apiKey: string };
+        indexName: string;
+        numCandidatesFactor?: number;
+        metadataSchema?: MetadataSchema;
     };
     // Qdrant config
-    qdrant?: {
+    qdrant: {
+        url: string;
+        apiKey?: string;
+        collectionName: string;
+        metadataSchema?: MetadataSchema;
+        filterableFields?: Record<string, QdrantPayloadIndexType>;
+        vectors?: Record<string, { field?: string }>;
+        searchVector?: string;
+        sparse?: { name?: string; modifier?: 'idf' | 'none' };
+    };
+    // Chroma config
+    chroma: {
+        url: string;
+        collectionName: string;
+        token?: string;
+        tenant?: string;
+        database?: string;
+    };
+    // Weaviate config
+    weaviate: {
         url: string;
+        className: string;
         apiKey?: string;
+    };
+    // Milvus config
+    milvus: {
+        url: string;
         collectionName: string;
+        token?: string;
+    };
+    // PostgreSQL + pgvector config
+    pgvector: {
+        connectionString: string;
+        tableName: string;
+        indexType?: 'hnsw' | 'ivfflat' | 'none';
+        hnsw?: { m?: number; efConstruction?: number };
+        lists?: number;
+    };
+    // SQLite config
+    sqlite: {
+        filePath: string;
+        tableName?: string;
+    };
+    // Redis (RediSearch) config
+    redis: {
+        url: string;
+        indexName: string;
+        metadataSchema?: MetadataSchema;
+    };
+    // In-memory store config
+    memory: {
+        hnsw?: LocalHNSWOptions;
+    };
+    // File-persisted local store config
+    file: {
+        directory: string;
+        compactionThreshold?: number;
+        hnsw?: LocalHNSWOptions;
     };
 }
 
+/**
+ * Vector store types known to the type system: the built-in ones plus any declared in `VectorStoreOptionsMap`
+ */
+export type VectorStoreType = keyof VectorStoreOptionsMap;
+
+/**
+ * Configuration for vector store
+ *
+ * `type` selects a registered store (see `registerVectorStore`), whose options
+ * are read from the block named after it, e.g. `{ type: 'qdrant', qdrant: {...} }`.
+ */
+export interface VectorStoreConfig extends Partial<VectorStoreOptionsMap> {
+    type: VectorStoreType;
+}
+
 /**
  * Metadata filter for vector search
  * Provides a unified interface that works across all vector stores
@@ -88,6 +196,114 @@ export interface MetadataFilter {
 
     /** Value must be in the provided list */
     in?: Record<string, (string | number | boolean)[]>;
+
+    /** Field must be present (true) or absent (false); null and empty arrays count as absent */
+    exists?: Record<string, boolean>;
+
+    /** No value may equal this one; documents without the field match */
+    notEquals?: Record<string, string | number | boolean>;
+
+    /** No value may be in the provided list; documents without the field match */
+    notIn?: Record<string, (string | number | boolean)[]>;
+
+    /** Array field must contain at least one of the values */
+    containsAny?: Record<string, (string | number | boolean)[]>;
+
+    /** Array field must contain every one of the values */
+    containsAll?: Record<string, (string | number | boolean)[]>;
+
+    /** Every word of the query must appear in the field (case-insensitive full-text match) */
+    textMatch?: Record<string, string>;
+
+    /** String value must start with the prefix */
+    prefix?: Record<string, string>;
+
+    /** ISO 8601 date range; values are compared as instants, not as strings */
+    dateRange?: Record<string, DateRange>;
+}
+
+/**
+ * Declared type of a metadata field:
+ * - keyword: exact-match string
+ * - text: full-text string, for textMatch
+ * - integer, float, boolean
+ * - date: ISO 8601 string, for dateRange
+ * - array: list of keyword strings, e.g. tags
+ */
+export type MetadataFieldType = 'keyword' | 'text' | 'integer' | 'float' | 'boolean' | 'date' | 'array';
+
+/**
+ * Metadata field name to declared type
+ */
+export type MetadataSchema = Record<string, MetadataFieldType>;
+
+/**
+ * Bounds for a dateRange condition, as ISO 8601 strings
+ */
+export interface DateRange {
+    gt?: string;
+    gte?: string;
+    lt?: string;
+    lte?: string;
+}
+
+/**
+ * Options for paging through a vector store
+ */
+export interface ListDocumentsOptions {
+    /** Only list documents matching this filter */
+    filter?: MetadataFilter;
+    /** Page size (default: 100) */
+    limit?: number;
+    /** Opaque cursor from a previous page's `nextCursor` */
+    cursor?: string;
+}
+
+/**
+ * One page of documents
+ */
+export interface DocumentPage {
+    documents: Document[];
+    /** Cursor for the next page; absent on the last page */
+    nextCursor?: string;
+}
+
+/**
+ * Which index a query runs against: embeddings, keywords (BM25) or both
+ */
+export type SearchMode = 'vector' | 'keyword' | 'hybrid';
+
+/**
+ * How ranked result lists are combined:
+ * - weighted: min-max normalise each list's scores to [0, 1], then sum them by weight
+ * - rrf: Reciprocal Rank Fusion, summing weight / (rrfK + rank) and ignoring scores
+ */
+export type FusionMethod = 'weighted' | 'rrf';
+
+/**
+ * Options for hybrid (keyword + vector) search
+ */
+export interface HybridSearchOptions {
+    /** Metadata filter applied to both the keyword and the vector leg */
+    filter?: MetadataFilter;
+    /** How the two result lists are combined (default: 'weighted') */
+    fusion?: FusionMethod;
+    /** Weight of the vector leg, from 0 to 1; the keyword leg gets 1 - alpha (default: 0.5) */
+    alpha?: number;
+    /** RRF rank constant (default: 60) */
+    rrfK?: number;
+    /** Candidates fetched from each leg before fusion (default: k * 2) */
+    candidates?: number;
+}
+
+/**
+ * Options for similarity search
+ */
+export interface SimilaritySearchOptions {
+    /** Return each result's stored embedding in `SearchResult.embedding` (default: false) */
+    includeEmbeddings?: boolean;
+    /** Drop results whose normalised `score` is below this, so fewer than k may be returned */
+    minScore?: number;
 }
 
 /**
@@ -109,14 +325,56 @@ export interface VectorStore {
      * @param query - Query text or embedding vector
      * @param k - Number of results to return
      * @param filter - Optional metadata filter
+     * @param options - Optional search settings, e.g. returning embeddings
      */
-    similaritySearch(query: string | number[], k: number, filter?: MetadataFilter): Promise<SearchResult[]>;
+    similaritySearch(
+        query: string | number[],
+        k: number,
+        filter?: MetadataFilter,
+        options?: SimilaritySearchOptions
+    ): Promise<SearchResult[]>;
+
+    /**
+     * Full-text (BM25) search over document content
+     */
+    keywordSearch?(query: string, k: number, filter?: MetadataFilter): Promise<SearchResult[]>;
+
+    /**
+     * Run keyword and vector search together and fuse the two result lists
+     */
+    hybridSearch?(query: string, k: number, options?: HybridSearchOptions): Promise<SearchResult[]>;
 
     /**
      * Delete documents by IDs
      */
     deleteDocuments(ids: string[]): Promise<void>;
 
+    /**
+     * Delete every document matching a metadata filter
+     */
+    deleteByFilter?(filter: MetadataFilter): Promise<void>;
+
+    /**
+     * Merge a metadata patch into documents selected by IDs or a filter
+     * Keys in the patch overwrite existing values; other keys are kept
+     */
+    updateMetadata?(target: string[] | MetadataFilter, patch: Metadata): Promise<void>;
+
+    /**
+     * Fetch documents by IDs; unknown IDs are skipped
+     */
+    getDocuments?(ids: string[]): Promise<Document[]>;
+
+    /**
+     * Page through stored documents in a stable order
+     */
+    listDocuments?(options?: ListDocumentsOptions): Promise<DocumentPage>;
+
+    /**
+     * Count stored documents, optionally only those matching a filter
+     */
+    count?(filter?: MetadataFilter): Promise<number>;
+
     /**
      * Close the connection
      */
@@ -143,6 +401,29 @@ export interface EmbeddingModel {
     getDimension(): number;
 }
 
+/**
+ * Sparse vector: weights for a few of a very large number of dimensions, e.g. terms
+ */
+export interface SparseVector {
+    indices: number[];
+    values: number[];
+}
+
+/**
+ * Turns text into a sparse vector of term weights (BM25- or SPLADE-style)
+ */
+export interface SparseEncoder {
+    /**
+     * Encode a document for indexing
+     */
+    encodeDocument(text: string): SparseVector;
+
+    /**
+     * Encode a query
+     */
+    encodeQuery(text: string): SparseVector;
+}
+
 /**
  * Text splitter configuration
  */
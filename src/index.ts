@@ -9,9 +9,21 @@ export * from './vector-store';
 // Ingestion exports
 export { RecursiveCharacterTextSplitter, FixedSizeTextSplitter } from './ingestion/splitters';
 export { IngestionPipeline } from './ingestion/pipeline';
+export type { IngestionConfig, IngestOptions, IngestResult } from './ingestion/pipeline';
 
 // Retrieval exports
 export { Retriever } from './retrieval/retriever';
+export { EnsembleRetriever } from './retrieval/ensemble';
+export type {
+    EnsembleResult,
+    EnsembleRetrieverConfig,
+    EnsembleSource,
+    RetrievalSource,
+} from './retrieval/ensemble';
+export { BM25Index, ENGLISH_STOP_WORDS, stemEnglish } from './retrieval/bm25';
+export type { BM25IndexOptions } from './retrieval/bm25';
+export { maximalMarginalRelevance } from './retrieval/mmr';
+export type { MMROptions } from './retrieval/mmr';
 export { KeywordReranker, NoOpReranker, RRFReranker } from './retrieval/reranker';
 export type { Reranker } from './retrieval/reranker';
 
@@ -0,0 +1,171 @@
+import { IngestionPipeline } from '../ingestion/pipeline';
+import { FixedSizeTextSplitter } from '../ingestion/splitters';
+import { InMemoryVectorStore } from '../vector-store/memory';
+import { MockEmbeddingModel } from '../core/embedding';
+import { BM25Index } from '../retrieval/bm25';
+
+describe('IngestionPipeline', () => {
+    let store: InMemoryVectorStore;
+    let pipeline: IngestionPipeline;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        store = new InMemoryVectorStore(new MockEmbeddingModel(8));
+        pipeline = new IngestionPipeline({
+            textSplitter: new FixedSizeTextSplitter({ chunkSize: 10, chunkOverlap: 0 }),
+            vectorStore: store,
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should return the document id and chunk ids', async () => {
+        const result = await pipeline.ingestDocument('0123456789abcdefghij', {}, { documentId: 'doc' });
+
+        expect(result).toEqual({
+            documentId: 'doc',
+            chunkIds: ['doc_chunk_0', 'doc_chunk_1'],
+            added: 2,
+            updated: 0,
+            unchanged: 0,
+            removed: 0,
+        });
+        const [chunk] = await store.getDocuments(['doc_chunk_0']);
+        expect(chunk.metadata).toEqual({
+            documentId: 'doc',
+            chunkIndex: 0,
+            totalChunks: 2,
+            contentHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+            documentHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+        });
+    });
+
+    it('should derive the document id from the source', async () => {
+        const result = await pipeline.ingestDocument('short', { source: 'notes.md' });
+        expect(result.documentId).toBe('notes.md');
+    });
+
+    it('should generate a random id without a source', async () => {
+        const first = await pipeline.ingestDocument('short');
+        const second = await pipeline.ingestDocument('short');
+        expect(first.documentId).not.toBe(second.documentId);
+        expect(store.size()).toBe(2);
+    });
+
+    it('should replace all prior chunks on re-ingest', async () => {
+        await pipeline.ingestDocument('0123456789abcdefghijklmnopqrst', { source: 'a.md' });
+        await pipeline.ingestDocument('other document', { source: 'b.md' });
+        expect(await store.count({ equals: { documentId: 'a.md' } })).toBe(3);
+
+        const result = await pipeline.ingestDocument('edited', { source: 'a.md' });
+
+        expect(result).toMatchObject({ chunkIds: ['a.md_chunk_0'], updated: 1, removed: 2 });
+        const chunks = await store.listDocuments({ filter: { equals: { documentId: 'a.md' } } });
+        expect(chunks.documents).toEqual([
+            {
+                id: 'a.md_chunk_0',
+                content: 'edited',
+                metadata: expect.objectContaining({ source: 'a.md', chunkIndex: 0, totalChunks: 1 }),
+            },
+        ]);
+        expect(await store.count({ equals: { documentId: 'b.md' } })).toBe(2);
+    });
+
+    describe('incremental re-ingest', () => {
+        let embedBatch: jest.SpyInstance;
+
+        beforeEach(async () => {
+            await pipeline.ingestDocument('0123456789abcdefghij', { source: 'a.md' });
+            embedBatch = jest.spyOn(MockEmbeddingModel.prototype, 'embedBatch');
+        });
+
+        it('should skip unchanged documents entirely', async () => {
+            const result = await pipeline.ingestDocument('0123456789abcdefghij', { source: 'a.md' });
+
+            expect(result).toMatchObject({ added: 0, updated: 0, unchanged: 2, removed: 0 });
+            expect(embedBatch).not.toHaveBeenCalled();
+        });
+
+        it('should embed only changed and new chunks', async () => {
+            const result = await pipeline.ingestDocument('0123456789ABCDEFGHIJklmno', { source: 'a.md' });
+
+            expect(result).toMatchObject({ added: 1, updated: 1, unchanged: 1, removed: 0 });
+            expect(embedBatch).toHaveBeenCalledWith(['ABCDEFGHIJ', 'klmno']);
+
+            // The unchanged chunk still learns the new chunk count
+            const [first] = await store.getDocuments(['a.md_chunk_0']);
+            expect(first.metadata?.totalChunks).toBe(3);
+        });
+
+        it('should patch a metadata change without re-embedding', async () => {
+            const result = await pipeline.ingestDocument('0123456789abcdefghij', { source: 'a.md', author: 'x' });
+
+            expect(result).toMatchObject({ added: 0, updated: 0, unchanged: 2 });
+            expect(embedBatch).not.toHaveBeenCalled();
+            const chunks = await store.getDocuments(['a.md_chunk_0', 'a.md_chunk_1']);
+            chunks.forEach((chunk) => expect(chunk.metadata).toMatchObject({ author: 'x', chunkIndex: expect.any(Number) }));
+
+            // Unchanged again once patched
+            await pipeline.ingestDocument('0123456789abcdefghij', { source: 'a.md', author: 'x' });
+            expect(embedBatch).not.toHaveBeenCalled();
+        });
+
+        it('should rewrite chunks whose metadata lost a field', async () => {
+            await pipeline.ingestDocument('0123456789abcdefghij', { source: 'a.md', author: 'x' });
+            await pipeline.ingestDocument('0123456789abcdefghij', { source: 'a.md' });
+
+            expect(embedBatch).toHaveBeenCalledTimes(1);
+            const [chunk] = await store.getDocuments(['a.md_chunk_0']);
+            expect(chunk.metadata).not.toHaveProperty('author');
+        });
+
+        it('should delete chunks that disappeared', async () => {
+            const result = await pipeline.ingestDocument('0123456789', { source: 'a.md' });
+
+            expect(result).toMatchObject({ added: 0, updated: 0, unchanged: 1, removed: 1 });
+            expect(await store.count({ equals: { documentId: 'a.md' } })).toBe(1);
+        });
+    });
+
+    it('should return one result per document in a batch', async () => {
+        const results = await pipeline.ingestDocuments([
+            { id: 'x', content: 'first' },
+            { content: 'second', metadata: { source: 'y.md' } },
+        ]);
+        expect(results.map((r) => r.documentId)).toEqual(['x', 'y.md']);
+    });
+
+    it('should keep a keyword index in sync with re-ingested documents', async () => {
+        const keywordIndex = new BM25Index();
+        pipeline = new IngestionPipeline({
+            textSplitter: new FixedSizeTextSplitter({ chunkSize: 10, chunkOverlap: 0 }),
+            vectorStore: store,
+            keywordIndex,
+        });
+
+        await pipeline.ingestDocument('ERR-4711 x ERR-4712 y', {}, { documentId: 'log' });
+        expect(keywordIndex.search('4712', 5).map((r) => r.document.id)).toEqual(['log_chunk_1']);
+
+        await pipeline.ingestDocument('ERR-4711 z', {}, { documentId: 'log' });
+        expect(keywordIndex.size).toBe(1);
+        expect(keywordIndex.search('4712', 5)).toEqual([]);
+        expect(keywordIndex.search('err', 5)[0].document.metadata?.totalChunks).toBe(1);
+    });
+
+    it('should leave the keyword index untouched when the store write fails', async () => {
+        const keywordIndex = new BM25Index();
+        pipeline = new IngestionPipeline({
+            textSplitter: new FixedSizeTextSplitter({ chunkSize: 10, chunkOverlap: 0 }),
+            vectorStore: store,
+            keywordIndex,
+        });
+        jest.spyOn(store, 'addDocuments').mockRejectedValue(new Error('embedding service unavailable'));
+
+        await expect(pipeline.ingestDocument('ERR-4711', {}, { documentId: 'log' })).rejects.toThrow(
+            'embedding service unavailable'
+        );
+        expect(keywordIndex.size).toBe(0);
+    });
+});
@@ -1,6 +1,8 @@
 import { Document, Chunk, VectorStore, Metadata } from '../core/types';
 import { TextSplitter } from '../core/types';
+import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
+import { BM25Index } from '../retrieval/bm25';
 
 /**
  * Ingestion pipeline configuration
@@ -8,6 +10,45 @@ import { v4 as uuidv4 } from 'uuid';
 export interface IngestionConfig {
     textSplitter: TextSplitter;
     vectorStore: VectorStore;
+    /** Keyword index kept in sync with the vector store */
+    keywordIndex?: BM25Index;
+}
+
+/**
+ * Per-document ingestion options
+ */
+export interface IngestOptions {
+    /**
+     * Stable document id; re-ingesting with the same id replaces the previous chunks.
+     * Defaults to `metadata.source` when it is a string, otherwise a random id.
+     */
+    documentId?: string;
+}
+
+/**
+ * Result of ingesting one document
+ */
+export interface IngestResult {
+    documentId: string;
+    chunkIds: string[];
+    /** Chunks that did not exist before */
+    added: number;
+    /** Chunks whose content changed, and were re-embedded */
+    updated: number;
+    /** Chunks whose content hash matched the stored one; changed metadata is patched without re-embedding */
+    unchanged: number;
+    /** Chunks of the previous version beyond the new chunk count */
+    removed: number;
+}
+
+/**
+ * SHA-256 over content and metadata, with metadata keys in sorted order
+ */
+function contentHash(content: string, metadata: Metadata = {}): string {
+    const sorted = Object.keys(metadata)
+        .sort()
+        .map((key) => [key, metadata[key]]);
+    return createHash('sha256').update(JSON.stringify([content, sorted])).digest('hex');
 }
 
 /**
@@ -17,17 +58,31 @@ export interface IngestionConfig {
 export class IngestionPipeline {
     private textSplitter: TextSplitter;
     private vectorStore: VectorStore;
+    private keywordIndex?: BM25Index;
 
     constructor(config: IngestionConfig) {
         this.textSplitter = config.textSplitter;
         this.vectorStore = config.vectorStore;
+        this.keywordIndex = config.keywordIndex;
     }
 
     /**
      * Ingest a single document
+     *
+     * Chunk ids are `${documentId}_chunk_${idx}`, so re-ingesting overwrites the
+     * previous chunks in place; chunks beyond the new chunk count are removed
+     * afterwards. The document is never absent from the store in between.
+     *
+     * Each chunk stores a `contentHash` of its text (and the whole document a
+     * `documentHash` over content and metadata). On re-ingest, chunks whose text is
+     * unchanged are not embedded again, and a metadata change is patched in with
+     * `updateMetadata`; this needs a store with `getDocuments`, otherwise every
+     * chunk is re-embedded.
      */
-    async ingestDocument(content: string, metadata?: Metadata): Promise<void> {
-        const documentId = uuidv4();
+    async ingestDocument(content: string, metadata?: Metadata, options: IngestOptions = {}): Promise<IngestResult> {
+        const stableId = options.documentId ?? (typeof metadata?.source === 'string' ? metadata.source : undefined);
+        const documentId = stableId ?? uuidv4();
+        const documentHash = contentHash(content, metadata);
 
         // Split text into chunks
         const chunks = this.textSplitter.splitText(content);
@@ -40,32 +95,176 @@ export class IngestionPipeline {
             sourceDocumentId: documentId,
             metadata: {
                 ...metadata,
+                documentId,
                 chunkIndex: idx,
                 totalChunks: chunks.length,
+                contentHash: contentHash(chunkText),
+                documentHash,
             },
         }));
+        const chunkIds = chunkDocuments.map((chunk) => chunk.id!);
+
+        // A random id cannot have earlier chunks to compare against or replace
+        if (stableId === undefined || !this.vectorStore.getDocuments) {
+            await this.vectorStore.addDocuments(chunkDocuments);
+            this.indexKeywords(documentId, chunkDocuments);
+            if (stableId !== undefined) {
+                await this.removeStaleChunks(documentId, chunks.length);
+            }
+
+            console.log(`Ingested document with ${chunks.length} chunks`);
+            return { documentId, chunkIds, added: chunks.length, updated: 0, unchanged: 0, removed: 0 };
+        }
+
+        const existing = new Map(
+            (await this.vectorStore.getDocuments(chunkIds)).map((doc: Document) => [doc.id!, doc.metadata || {}])
+        );
 
-        // Add to vector store
-        await this.vectorStore.addDocuments(chunkDocuments);
+        const changed: Chunk[] = [];
+        const refresh: string[] = [];
+        let added = 0;
+        let updated = 0;
+        for (const chunk of chunkDocuments) {
+            const stored = existing.get(chunk.id!);
+            if (!stored) {
+                added++;
+                changed.push(chunk);
+            } else if (stored.contentHash !== chunk.metadata!.contentHash) {
+                updated++;
+                changed.push(chunk);
+            } else if (stored.documentHash !== documentHash || stored.totalChunks !== chunks.length) {
+                // Same text, but document metadata or the chunk count changed
+                refresh.push(chunk.id!);
+            }
+        }
+
+        // Embed and upsert only what changed
+        if (changed.length > 0) {
+            await this.vectorStore.addDocuments(changed);
+        }
+        if (refresh.length > 0) {
+            await this.refreshChunks(
+                chunkDocuments.filter((chunk) => refresh.includes(chunk.id!)),
+                existing,
+                { ...metadata, totalChunks: chunks.length, documentHash }
+            );
+        }
+        this.indexKeywords(documentId, chunkDocuments);
+
+        // Chunk ids are positional, so the previous version's chunk count names the leftovers
+        const previousCount = Math.max(
+            0,
+            ...Array.from(existing.values()).map((stored) => Number(stored.totalChunks) || 0)
+        );
+        let removed = 0;
+        if (existing.size === 0 && chunks.length === 0) {
+            await this.removeStaleChunks(documentId, 0);
+        } else if (previousCount > chunks.length) {
+            const staleIds = Array.from(
+                { length: previousCount - chunks.length },
+                (_, idx) => `${documentId}_chunk_${chunks.length + idx}`
+            );
+            await this.vectorStore.deleteDocuments(staleIds);
+            removed = staleIds.length;
+        }
 
-        console.log(`Ingested document with ${chunks.length} chunks`);
+        const unchanged = chunks.length - added - updated;
+        console.log(
+            `Ingested document with ${chunks.length} chunks ` +
+                `(${added} added, ${updated} updated, ${unchanged} unchanged, ${removed} removed)`
+        );
+
+        return { documentId, chunkIds, added, updated, unchanged, removed };
     }
 
     /**
      * Ingest multiple documents
      */
-    async ingestDocuments(documents: Array<{ content: string; metadata?: Metadata }>): Promise<void> {
+    async ingestDocuments(
+        documents: Array<{ id?: string; content: string; metadata?: Metadata }>
+    ): Promise<IngestResult[]> {
+        const results: IngestResult[] = [];
         for (const doc of documents) {
-            await this.ingestDocument(doc.content, doc.metadata);
+            results.push(await this.ingestDocument(doc.content, doc.metadata, { documentId: doc.id }));
         }
+        return results;
     }
 
     /**
-     * Ingest from a text file
+     * Ingest from a text file; the file path is the default document id
      */
-    async ingestFromFile(filePath: string, metadata?: Metadata): Promise<void> {
+    async ingestFromFile(filePath: string, metadata?: Metadata, options: IngestOptions = {}): Promise<IngestResult> {
         const fs = await import('fs/promises');
         const content = await fs.readFile(filePath, 'utf-8');
-        await this.ingestDocument(content, { ...metadata, source: filePath });
+        return this.ingestDocument(content, { ...metadata, source: filePath }, options);
+    }
+
+    /**
+     * Index every chunk's keywords and drop the previous version's leftovers
+     *
+     * Called once the store holds the chunks, so keyword search never returns a
+     * chunk whose write failed. Indexing is cheap, so nothing is skipped.
+     */
+    private indexKeywords(documentId: string, chunkDocuments: Chunk[]): void {
+        if (!this.keywordIndex) return;
+
+        this.keywordIndex.addDocuments(chunkDocuments);
+        this.keywordIndex.deleteByFilter({
+            and: [{ equals: { documentId } }, { greaterThanOrEqual: { chunkIndex: chunkDocuments.length } }],
+        });
+    }
+
+    /**
+     * Patch document-level metadata of chunks whose text is unchanged
+     *
+     * A patch is merged, so it cannot remove keys: chunks that lost a metadata
+     * field are written again, as are all chunks when the store cannot patch.
+     */
+    private async refreshChunks(chunks: Chunk[], existing: Map<string, Metadata>, patch: Metadata): Promise<void> {
+        const patchable = this.vectorStore.updateMetadata
+            ? chunks.filter((chunk) => Object.keys(existing.get(chunk.id!)!).every((key) => key in chunk.metadata!))
+            : [];
+        const rewrite = chunks.filter((chunk) => !patchable.includes(chunk));
+
+        if (patchable.length > 0) {
+            await this.vectorStore.updateMetadata!(
+                patchable.map((chunk) => chunk.id!),
+                patch
+            );
+        }
+        if (rewrite.length > 0) {
+            await this.vectorStore.addDocuments(rewrite);
+        }
+    }
+
+    /**
+     * Delete chunks left over from a previous, longer version of a document
+     */
+    private async removeStaleChunks(documentId: string, chunkCount: number): Promise<void> {
+        const stale = {
+            and: [{ equals: { documentId } }, { greaterThanOrEqual: { chunkIndex: chunkCount } }],
+        };
+
+        if (this.vectorStore.deleteByFilter) {
+            await this.vectorStore.deleteByFilter(stale);
+            return;
+        }
+
+        if (this.vectorStore.listDocuments) {
+            const ids: string[] = [];
+            let cursor: string | undefined;
+            do {
+                const page = await this.vectorStore.listDocuments({ filter: stale, cursor });
+                ids.push(...page.documents.map((doc: Document) => doc.id!));
+                cursor = page.nextCursor;
+            } while (cursor);
+
+            if (ids.length > 0) {
+                await this.vectorStore.deleteDocuments(ids);
+            }
+            return;
+        }
+
+        console.warn(`Vector store cannot delete by filter; stale chunks of ${documentId} may remain`);
     }
 }
@@ -0,0 +1,146 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { BM25Index, stemEnglish } from '../retrieval/bm25';
+import { Retriever } from '../retrieval/retriever';
+import { InMemoryVectorStore } from '../vector-store/memory';
+import { MockEmbeddingModel } from '../core/embedding';
+
+const documents = [
+    { id: 'a', content: 'Error E-1042: disk quota exceeded', metadata: { category: 'errors' } },
+    { id: 'b', content: 'Product SKU-88 ships with a quota of ten seats', metadata: { category: 'products' } },
+    { id: 'c', content: 'The quota quota quota page explains quotas', metadata: { category: 'docs' } },
+];
+
+describe('BM25Index', () => {
+    let index: BM25Index;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        index = new BM25Index();
+        index.addDocuments(documents);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should find exact codes that only one document contains', () => {
+        expect(index.search('E-1042', 5).map((r) => r.document.id)).toEqual(['a']);
+        expect(index.search('sku-88', 5).map((r) => r.document.id)).toEqual(['b']);
+    });
+
+    it('should rank by BM25 with saturated term frequency and length normalisation', () => {
+        const results = index.search('quota', 5);
+        expect(results.map((r) => r.document.id)).toEqual(['c', 'a', 'b']);
+
+        // Three documents, all containing the term: idf = ln(1 + 0.5 / 3.5)
+        const idf = Math.log(1 + 0.5 / 3.5);
+        const averageLength = (6 + 7 + 6) / 3;
+        const expected = (idf * 3 * 2.2) / (3 + 1.2 * (0.25 + (0.75 * 6) / averageLength));
+        expect(results[0].score).toBeCloseTo(expected, 10);
+    });
+
+    it('should apply metadata filters and ignore stop words', () => {
+        expect(index.search('quota', 5, { equals: { category: 'products' } }).map((r) => r.document.id)).toEqual([
+            'b',
+        ]);
+        expect(index.search('the of with', 5)).toEqual([]);
+    });
+
+    it('should replace, update and delete documents', () => {
+        index.addDocuments([{ id: 'a', content: 'rewritten' }]);
+        expect(index.search('E-1042', 5)).toEqual([]);
+        expect(index.size).toBe(3);
+
+        index.updateMetadata({ equals: { category: 'docs' } }, { reviewed: true });
+        expect(index.search('quota', 1)[0].document.metadata).toEqual({ category: 'docs', reviewed: true });
+
+        index.deleteByFilter({ equals: { category: 'docs' } });
+        index.deleteDocuments(['b']);
+        expect(index.size).toBe(1);
+        expect(index.search('quota', 5)).toEqual([]);
+    });
+
+    it('should match inflections with stemming enabled', () => {
+        const stemmed = new BM25Index({ stemmer: true, stopWords: [] });
+        stemmed.addDocuments([{ id: 'x', content: 'Indexes were rebuilt while running queries' }]);
+
+        expect(stemmed.search('index query', 5).map((r) => r.document.id)).toEqual(['x']);
+        expect(index.search('quotas', 5).map((r) => r.document.id)).toEqual(['c']);
+        expect(['indexes', 'queries', 'running', 'stopped', 'class', 'e1042s'].map(stemEnglish)).toEqual([
+            'index',
+            'query',
+            'run',
+            'stop',
+            'class',
+            'e1042s',
+        ]);
+    });
+
+    it('should reject invalid parameters', () => {
+        expect(() => new BM25Index({ b: 2 })).toThrow(
+            'Invalid BM25 parameters: k1 must be >= 0 and b between 0 and 1 (got k1 1.2, b 2)'
+        );
+    });
+
+    it('should save to and load from disk', async () => {
+        const directory = mkdtempSync(path.join(tmpdir(), 'literag-bm25-'));
+        try {
+            const filePath = path.join(directory, 'nested', 'bm25.json');
+            await index.save(filePath);
+
+            const loaded = new BM25Index({ filePath });
+            await loaded.load();
+            expect(loaded.search('quota', 5)).toEqual(index.search('quota', 5));
+
+            const missing = new BM25Index();
+            await missing.load(path.join(directory, 'missing.json'));
+            expect(missing.size).toBe(0);
+        } finally {
+            rmSync(directory, { recursive: true, force: true });
+        }
+    });
+
+    it('should need a path to persist', async () => {
+        await expect(index.save()).rejects.toThrow('BM25 index has no file path; pass one or set the filePath option');
+    });
+});
+
+describe('Retriever with a keyword index', () => {
+    let retriever: Retriever;
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        const vectorStore = new InMemoryVectorStore(new MockEmbeddingModel(8));
+        await vectorStore.addDocuments(documents);
+        const keywordIndex = new BM25Index();
+        keywordIndex.addDocuments(documents);
+        retriever = new Retriever({ vectorStore, keywordIndex });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should use the keyword index for keyword and hybrid modes', async () => {
+        expect(retriever.supportsMode('hybrid')).toBe(true);
+
+        const keyword = await retriever.retrieve('E-1042', { mode: 'keyword' });
+        expect(keyword.map((r) => r.document.id)).toEqual(['a']);
+
+        // With all the weight on the keyword leg, the only keyword hit comes first
+        const hybrid = await retriever.retrieve('E-1042', { mode: 'hybrid', hybrid: { alpha: 0 } });
+        expect(hybrid[0].document.id).toBe('a');
+        expect(hybrid).toHaveLength(3);
+    });
+
+    it('should apply the filter to both legs of a hybrid search', async () => {
+        const results = await retriever.retrieve('quota', {
+            mode: 'hybrid',
+            filter: { equals: { category: 'errors' } },
+            hybrid: { fusion: 'rrf' },
+        });
+        expect(results.map((r) => r.document.id)).toEqual(['a']);
+    });
+});
@@ -0,0 +1,320 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Document, Metadata, MetadataFilter, SearchResult } from '../core/types';
+import { tokenize } from '../core/text';
+import { matchesFilter } from '../vector-store/filters/memory-filter';
+
+/**
+ * Common English words left out of the index by default
+ */
+export const ENGLISH_STOP_WORDS = [
+    'a',
+    'an',
+    'and',
+    'are',
+    'as',
+    'at',
+    'be',
+    'but',
+    'by',
+    'for',
+    'if',
+    'in',
+    'into',
+    'is',
+    'it',
+    'no',
+    'not',
+    'of',
+    'on',
+    'or',
+    'such',
+    'that',
+    'the',
+    'their',
+    'then',
+    'there',
+    'these',
+    'they',
+    'this',
+    'to',
+    'was',
+    'will',
+    'with',
+];
+
+/**
+ * BM25 index options
+ */
+export interface BM25IndexOptions {
+    /** Term frequency saturation (default: 1.2) */
+    k1?: number;
+    /** Document length normalisation, from 0 (none) to 1 (full) (default: 0.75) */
+    b?: number;
+    /** Words that are not indexed or searched for (default: ENGLISH_STOP_WORDS); `[]` keeps every word */
+    stopWords?: string[];
+    /** Reduce words to their stem: `true` for the built-in English stemmer, or a custom function (default: off) */
+    stemmer?: boolean | ((word: string) => string);
+    /** Split text into words (default: lower-cased runs of letters and digits) */
+    tokenizer?: (text: string) => string[];
+    /** File used by `save()` and `load()` when they are called without a path */
+    filePath?: string;
+}
+
+/**
+ * On-disk representation of the index; term statistics are rebuilt on load
+ */
+interface SerializedBM25Index {
+    version: 1;
+    documents: Document[];
+}
+
+interface IndexedDocument {
+    document: Document;
+    length: number;
+    termFrequencies: Map<string, number>;
+}
+
+function hasVowel(word: string): boolean {
+    return /[aeiouy]/.test(word);
+}
+
+/**
+ * Light English suffix stemmer: plurals, -ed, -ing and -ly
+ *
+ * Much less aggressive than Porter, so it rarely merges unrelated words, and
+ * leaves words with digits (product codes, error numbers) alone.
+ */
+export function stemEnglish(word: string): string {
+    if (word.length <= 3 || /\d/.test(word)) return word;
+
+    let stem = word;
+    if (stem.endsWith('ies') && stem.length > 4) {
+        stem = stem.slice(0, -3) + 'y';
+    } else if (/(sses|xes|ches|shes|zes)$/.test(stem)) {
+        stem = stem.slice(0, -2);
+    } else if (stem.endsWith('s') && !/(ss|us|is)$/.test(stem)) {
+        stem = stem.slice(0, -1);
+    }
+
+    for (const suffix of ['ing', 'ed', 'ly']) {
+        const base = stem.slice(0, -suffix.length);
+        if (stem.endsWith(suffix) && base.length >= 3 && hasVowel(base)) {
+            // running -> run, stopped -> stop
+            stem = /([^aeiouslz])\1$/.test(base) ? base.slice(0, -1) : base;
+            break;
+        }
+    }
+    return stem;
+}
+
+/**
+ * In-process BM25 keyword index
+ *
+ * Catches exact terms that embeddings miss, such as product codes and error
+ * strings, for stores without full-text search. Documents are keyed by id, so
+ * adding a document again replaces it.
+ */
+export class BM25Index {
+    private k1: number;
+    private b: number;
+    private stopWords: Set<string>;
+    private stem?: (word: string) => string;
+    private tokenizer: (text: string) => string[];
+    private filePath?: string;
+    private documents = new Map<string, IndexedDocument>();
+    private postings = new Map<string, Set<string>>();
+    private totalLength = 0;
+
+    constructor(options: BM25IndexOptions = {}) {
+        this.k1 = options.k1 ?? 1.2;
+        this.b = options.b ?? 0.75;
+        if (this.k1 < 0 || this.b < 0 || this.b > 1) {
+            throw new Error(
+                `Invalid BM25 parameters: k1 must be >= 0 and b between 0 and 1 (got k1 ${this.k1}, b ${this.b})`
+            );
+        }
+        this.stopWords = new Set(options.stopWords ?? ENGLISH_STOP_WORDS);
+        this.stem = options.stemmer === true ? stemEnglish : options.stemmer || undefined;
+        this.tokenizer = options.tokenizer ?? tokenize;
+        this.filePath = options.filePath;
+    }
+
+    /**
+     * Number of indexed documents
+     */
+    get size(): number {
+        return this.documents.size;
+    }
+
+    /**
+     * Terms of a text, after stop word removal and stemming
+     */
+    analyze(text: string): string[] {
+        const terms = this.tokenizer(text).filter((word) => !this.stopWords.has(word));
+        const stem = this.stem;
+        return stem ? terms.map((term) => stem(term)) : terms;
+    }
+
+    /**
+     * Index documents, replacing any with the same id
+     */
+    addDocuments(documents: Document[]): void {
+        for (const document of documents) {
+            const id = document.id || uuidv4();
+            this.remove(id);
+
+            const terms = this.analyze(document.content);
+            const termFrequencies = new Map<string, number>();
+            for (const term of terms) {
+                termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1);
+                if (!this.postings.has(term)) this.postings.set(term, new Set());
+                this.postings.get(term)!.add(id);
+            }
+
+            // Embeddings are not needed for keyword search
+            this.documents.set(id, {
+                document: { id, content: document.content, metadata: document.metadata },
+                length: terms.length,
+                termFrequencies,
+            });
+            this.totalLength += terms.length;
+        }
+    }
+
+    deleteDocuments(ids: string[]): void {
+        ids.forEach((id) => this.remove(id));
+    }
+
+    deleteByFilter(filter: MetadataFilter): void {
+        this.deleteDocuments(this.matchingIds(filter));
+    }
+
+    /**
+     * Merge a metadata patch into documents selected by IDs or a filter, as `VectorStore.updateMetadata` does
+     */
+    updateMetadata(target: string[] | MetadataFilter, patch: Metadata): void {
+        const ids = Array.isArray(target) ? target : this.matchingIds(target);
+        for (const id of ids) {
+            const indexed = this.documents.get(id);
+            if (indexed) {
+                indexed.document = { ...indexed.document, metadata: { ...indexed.document.metadata, ...patch } };
+            }
+        }
+    }
+
+    /**
+     * Rank documents containing any query term by BM25 score
+     * @param filter - Optional metadata filter, evaluated like the in-memory store's
+     */
+    search(query: string, k: number, filter?: MetadataFilter): SearchResult[] {
+        const terms = [...new Set(this.analyze(query))];
+        const averageLength = this.documents.size > 0 ? this.totalLength / this.documents.size : 0;
+        const scores = new Map<string, number>();
+
+        for (const term of terms) {
+            const postings = this.postings.get(term);
+            if (!postings) continue;
+
+            // Lucene's non-negative idf
+            const idf = Math.log(1 + (this.documents.size - postings.size + 0.5) / (postings.size + 0.5));
+            for (const id of postings) {
+                const { length, termFrequencies } = this.documents.get(id)!;
+                const tf = termFrequencies.get(term)!;
+                const norm = averageLength > 0 ? 1 - this.b + (this.b * length) / averageLength : 1;
+                scores.set(id, (scores.get(id) ?? 0) + (idf * tf * (this.k1 + 1)) / (tf + this.k1 * norm));
+            }
+        }
+
+        return [...scores.entries()]
+            .map(([id, score]) => ({ document: this.documents.get(id)!.document, score }))
+            .filter((result) => !filter || matchesFilter(result.document.metadata, filter))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, k);
+    }
+
+    /**
+     * Same as `search`, matching `VectorStore.keywordSearch`
+     */
+    async keywordSearch(query: string, k: number, filter?: MetadataFilter): Promise<SearchResult[]> {
+        return this.search(query, k, filter);
+    }
+
+    /**
+     * Write the indexed documents to disk, replacing the file atomically
+     */
+    async save(filePath: string | undefined = this.filePath): Promise<void> {
+        const target = this.requirePath(filePath);
+        try {
+            const serialized: SerializedBM25Index = {
+                version: 1,
+                documents: [...this.documents.values()].map(({ document }) => document),
+            };
+
+            await fs.mkdir(path.dirname(target), { recursive: true });
+            const tempPath = `${target}.tmp`;
+            await fs.writeFile(tempPath, JSON.stringify(serialized));
+            await fs.rename(tempPath, target);
+            console.log(`Saved BM25 index with ${this.documents.size} documents to ${target}`);
+        } catch (error) {
+            throw new Error(`Failed to save BM25 index: ${error} `);
+        }
+    }
+
+    /**
+     * Replace the index contents with a saved index; a missing file leaves the index empty
+     */
+    async load(filePath: string | undefined = this.filePath): Promise<void> {
+        const target = this.requirePath(filePath);
+        try {
+            this.documents.clear();
+            this.postings.clear();
+            this.totalLength = 0;
+
+            let raw: string;
+            try {
+                raw = await fs.readFile(target, 'utf-8');
+            } catch (error: any) {
+                if (error.code === 'ENOENT') return;
+                throw error;
+            }
+
+            const serialized: SerializedBM25Index = JSON.parse(raw);
+            if (serialized.version !== 1) {
+                throw new Error(`Unsupported BM25 index version: ${serialized.version}`);
+            }
+            // Terms are re-analyzed, so changed stop words or stemming apply to saved documents too
+            this.addDocuments(serialized.documents);
+            console.log(`Loaded BM25 index with ${this.documents.size} documents from ${target}`);
+        } catch (error) {
+            throw new Error(`Failed to load BM25 index: ${error} `);
+        }
+    }
+
+    private requirePath(filePath: string | undefined): string {
+        if (!filePath) {
+            throw new Error('BM25 index has no file path; pass one or set the filePath option');
+        }
+        return filePath;
+    }
+
+    private matchingIds(filter: MetadataFilter): string[] {
+        return [...this.documents.values()]
+            .filter(({ document }) => matchesFilter(document.metadata, filter))
+            .map(({ document }) => document.id!);
+    }
+
+    private remove(id: string): void {
+        const indexed = this.documents.get(id);
+        if (!indexed) return;
+
+        for (const term of indexed.termFrequencies.keys()) {
+            const postings = this.postings.get(term)!;
+            postings.delete(id);
+            if (postings.size === 0) this.postings.delete(term);
+        }
+        this.totalLength -= indexed.length;
+        this.documents.delete(id);
+    }
+}
@@ -0,0 +1,119 @@
+import { SearchResult } from '../core/types';
+import { EnsembleRetriever, RetrievalSource } from '../retrieval/ensemble';
+import { BM25Index } from '../retrieval/bm25';
+import { Retriever } from '../retrieval/retriever';
+import { InMemoryVectorStore } from '../vector-store/memory';
+import { MockEmbeddingModel } from '../core/embedding';
+
+const result = (id: string, score: number): SearchResult => ({ document: { id, content: `content ${id}` }, score });
+
+function source(results: SearchResult[]): RetrievalSource & { retrieve: jest.Mock } {
+    return { retrieve: jest.fn(async (_query, options) => results.slice(0, options?.topK)) };
+}
+
+describe('EnsembleRetriever', () => {
+    const dense = [result('a', 1), result('b', 0.75), result('c', 0.5)];
+    const keyword = [result('c', 14), result('d', 9), result('c', 3)];
+
+    it('should fuse every list with RRF and report contributing sources', async () => {
+        const ensemble = new EnsembleRetriever({
+            sources: [
+                { name: 'dense', retriever: source(dense) },
+                { name: 'keyword', retriever: source(keyword) },
+            ],
+            rrfK: 1,
+            topK: 3,
+        });
+
+        const results = await ensemble.retrieve('query');
+
+        // c: 1/4 + 1/2, a: 1/2, d: 1/3, b: 1/3
+        expect(results.map((r) => r.document.id)).toEqual(['c', 'a', 'b']);
+        expect(results[0].score).toBeCloseTo(0.75);
+        expect(results[0].sources).toEqual([
+            { name: 'dense', rank: 3, score: 0.5 },
+            { name: 'keyword', rank: 1, score: 14 },
+        ]);
+        expect(results[1].sources).toEqual([{ name: 'dense', rank: 1, score: 1 }]);
+    });
+
+    it('should weight sources in score fusion', async () => {
+        const ensemble = new EnsembleRetriever({
+            sources: [
+                { name: 'dense', retriever: source(dense), weight: 0.5 },
+                { name: 'keyword', retriever: source(keyword), weight: 2 },
+            ],
+            fusion: 'weighted',
+            topK: 4,
+        });
+
+        const results = await ensemble.retrieve('query');
+
+        // Normalised dense: a 1, b 0.5, c 0; keyword: c 1, d 0
+        expect(results.map((r) => [r.document.id, r.score])).toEqual([
+            ['c', 2],
+            ['a', 0.5],
+            ['b', 0.25],
+            ['d', 0],
+        ]);
+    });
+
+    it('should query every source in parallel with the filter, mode and candidate count', async () => {
+        const first = source(dense);
+        const second = source(keyword);
+        const ensemble = new EnsembleRetriever({
+            sources: [
+                { name: 'dense', retriever: first },
+                { name: 'keyword', retriever: second, mode: 'keyword' },
+            ],
+            candidates: 10,
+        });
+
+        await ensemble.retrieve('query', { topK: 2, filter: { equals: { category: 'tech' } } });
+
+        expect(first.retrieve).toHaveBeenCalledWith('query', { topK: 10, filter: { equals: { category: 'tech' } } });
+        expect(second.retrieve).toHaveBeenCalledWith('query', {
+            topK: 10,
+            filter: { equals: { category: 'tech' } },
+            mode: 'keyword',
+        });
+    });
+
+    it('should combine vector and keyword search over the same store', async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        const documents = [
+            { id: 'err', content: 'Error E-1042: disk quota exceeded' },
+            { id: 'faq', content: 'How to raise a disk quota' },
+        ];
+        const vectorStore = new InMemoryVectorStore(new MockEmbeddingModel(8));
+        await vectorStore.addDocuments(documents);
+        const keywordIndex = new BM25Index();
+        keywordIndex.addDocuments(documents);
+        const retriever = new Retriever({ vectorStore, keywordIndex });
+
+        const ensemble = new EnsembleRetriever({
+            sources: [
+                { name: 'vector', retriever, mode: 'vector' },
+                { name: 'bm25', retriever, mode: 'keyword', weight: 2 },
+            ],
+        });
+        const [top] = await ensemble.retrieve('E-1042');
+
+        expect(top.document.id).toBe('err');
+        expect(top.sources.map((s) => s.name)).toEqual(['vector', 'bm25']);
+        jest.restoreAllMocks();
+    });
+
+    it('should reject an empty or ambiguous source list', () => {
+        expect(() => new EnsembleRetriever({ sources: [] })).toThrow('EnsembleRetriever needs at least one source');
+        expect(
+            () =>
+                new EnsembleRetriever({
+                    sources: [
+                        { name: 'dense', retriever: source(dense) },
+                        { name: 'dense', retriever: source(keyword) },
+                    ],
+                })
+        ).toThrow('Duplicate ensemble source name: dense');
+    });
+});
@@ -0,0 +1,111 @@
+import { FusionMethod, MetadataFilter, SearchMode, SearchResult } from '../core/types';
+import { fuseRankedLists } from '../vector-store/fusion';
+
+/**
+ * Anything that retrieves ranked results for a query, such as a Retriever
+ */
+export interface RetrievalSource {
+    retrieve(
+        query: string,
+        options?: { topK?: number; filter?: MetadataFilter; mode?: SearchMode }
+    ): Promise<SearchResult[]>;
+}
+
+/**
+ * One source of an ensemble
+ */
+export interface EnsembleSource {
+    /** Name reported in the `sources` of each hit */
+    name: string;
+    retriever: RetrievalSource;
+    /** Search mode passed to the retriever (default: the retriever's default) */
+    mode?: SearchMode;
+    /** Weight of this source's list in the fusion (default: 1) */
+    weight?: number;
+}
+
+/**
+ * Ensemble retriever configuration
+ */
+export interface EnsembleRetrieverConfig {
+    sources: EnsembleSource[];
+    /** Results returned (default: 5) */
+    topK?: number;
+    /** How the source lists are combined (default: 'rrf') */
+    fusion?: FusionMethod;
+    /** RRF rank constant (default: 60) */
+    rrfK?: number;
+    /** Results fetched from each source before fusion (default: topK * 2) */
+    candidates?: number;
+}
+
+/**
+ * A fused hit with the sources that found it
+ */
+export interface EnsembleResult extends SearchResult {
+    /** Each source that returned the document, with its 1-based rank and original score there */
+    sources: Array<{ name: string; rank: number; score: number }>;
+}
+
+/**
+ * Retriever that queries several sources in parallel and fuses their results
+ *
+ * Sources can be different stores, vector and keyword search over the same
+ * store, or stores embedded with different models. Hits are de-duplicated by
+ * document id and fused with multi-list RRF or weighted, min-max normalised
+ * score fusion, both weighted per source.
+ */
+export class EnsembleRetriever {
+    private sources: EnsembleSource[];
+    private topK: number;
+    private fusion: FusionMethod;
+    private rrfK?: number;
+    private candidates?: number;
+
+    constructor(config: EnsembleRetrieverConfig) {
+        if (config.sources.length === 0) {
+            throw new Error('EnsembleRetriever needs at least one source');
+        }
+        const names = config.sources.map((source) => source.name);
+        const duplicate = names.find((name, idx) => names.indexOf(name) !== idx);
+        if (duplicate !== undefined) {
+            throw new Error(`Duplicate ensemble source name: ${duplicate}`);
+        }
+
+        this.sources = config.sources;
+        this.topK = config.topK || 5;
+        this.fusion = config.fusion ?? 'rrf';
+        this.rrfK = config.rrfK;
+        this.candidates = config.candidates;
+    }
+
+    /**
+     * Retrieve from every source and fuse the results
+     * @param options - Optional parameters including a filter passed to every source
+     */
+    async retrieve(query: string, options?: { topK?: number; filter?: MetadataFilter }): Promise<EnsembleResult[]> {
+        const k = options?.topK || this.topK;
+        const candidates = Math.max(this.candidates ?? k * 2, k);
+
+        const lists = await Promise.all(
+            this.sources.map((source) =>
+                source.retriever.retrieve(query, {
+                    topK: candidates,
+                    filter: options?.filter,
+                    ...(source.mode && { mode: source.mode }),
+                })
+            )
+        );
+
+        const fused = fuseRankedLists(lists, {
+            method: this.fusion,
+            weights: this.sources.map((source) => source.weight ?? 1),
+            rrfK: this.rrfK,
+        });
+
+        return fused.slice(0, k).map(({ contributions, ...result }) => ({
+            ...result,
+            sources: contributions.map(({ list, rank, score }) => ({ name: this.sources[list].name, rank, score })),
+        }));
+    }
+}
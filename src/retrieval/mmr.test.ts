@@ -0,0 +1,68 @@
+import { SearchResult, VectorStore } from '../core/types';
+import { maximalMarginalRelevance } from '../retrieval/mmr';
+import { Retriever } from '../retrieval/retriever';
+
+const result = (id: string, score: number, embedding?: number[]): SearchResult => ({
+    document: { id, content: `content ${id}` },
+    score,
+    embedding,
+});
+
+// a and its overlapping copy are the most relevant; b is less relevant but different
+const candidates = [result('a', 0.9, [1, 0]), result('a-copy', 0.89, [1, 0]), result('b', 0.7, [0, 1])];
+
+describe('maximalMarginalRelevance', () => {
+    it('should skip near-duplicates of selected results', () => {
+        // a-copy: 0.5 * 0.89 - 0.5 * 1, b: 0.5 * 0.7 - 0.5 * 0
+        const selected = maximalMarginalRelevance(candidates, 2);
+        expect(selected.map((r) => r.document.id)).toEqual(['a', 'b']);
+        expect(selected.map((r) => r.score)).toEqual([0.9, 0.7]);
+    });
+
+    it('should rank by relevance alone with lambda 1', () => {
+        expect(maximalMarginalRelevance(candidates, 2, 1).map((r) => r.document.id)).toEqual(['a', 'a-copy']);
+    });
+
+    it('should return every candidate when k exceeds them', () => {
+        expect(maximalMarginalRelevance(candidates, 5).map((r) => r.document.id)).toEqual(['a', 'b', 'a-copy']);
+    });
+
+    it('should reject candidates without embeddings and an invalid lambda', () => {
+        expect(() => maximalMarginalRelevance([result('a', 1)], 1)).toThrow('MMR needs embeddings, but result a has none');
+        expect(() => maximalMarginalRelevance(candidates, 1, 1.5)).toThrow('lambda must be between 0 and 1 (got 1.5)');
+    });
+});
+
+describe('Retriever with MMR', () => {
+    let similaritySearch: jest.Mock;
+    let retriever: Retriever;
+
+    beforeEach(() => {
+        similaritySearch = jest.fn(async () => candidates);
+        retriever = new Retriever({ vectorStore: { similaritySearch } as unknown as VectorStore, topK: 2 });
+    });
+
+    it('should fetch candidates with embeddings and return diverse results without them', async () => {
+        const filter = { equals: { category: 'tech' } };
+        const results = await retriever.retrieve('query', { filter, mmr: {} });
+
+        expect(similaritySearch).toHaveBeenCalledWith('query', 8, filter, { includeEmbeddings: true });
+        expect(results).toEqual([
+            { document: { id: 'a', content: 'content a' }, score: 0.9 },
+            { document: { id: 'b', content: 'content b' }, score: 0.7 },
+        ]);
+    });
+
+    it('should honour fetchK and lambda', async () => {
+        const results = await retriever.retrieve('query', { mmr: { fetchK: 20, lambda: 1 } });
+
+        expect(similaritySearch).toHaveBeenCalledWith('query', 20, undefined, { includeEmbeddings: true });
+        expect(results.map((r) => r.document.id)).toEqual(['a', 'a-copy']);
+    });
+
+    it('should only diversify vector search', async () => {
+        await expect(retriever.retrieve('query', { mode: 'hybrid', mmr: {} })).rejects.toThrow(
+            'MMR is only supported in vector mode'
+        );
+    });
+});
@@ -0,0 +1,57 @@
+import { SearchResult } from '../core/types';
+import { cosineSimilarity } from '../vector-store/memory';
+
+/**
+ * Maximal Marginal Relevance options
+ */
+export interface MMROptions {
+    /** Candidates fetched from the store before selection (default: k * 4) */
+    fetchK?: number;
+    /** Trade-off between relevance (1) and diversity (0) (default: 0.5) */
+    lambda?: number;
+}
+
+/**
+ * Select `k` results that are relevant but not redundant with each other
+ *
+ * Greedily picks the candidate maximising `lambda * score - (1 - lambda) * s`,
+ * where `s` is its highest cosine similarity to an already selected result.
+ * The store's score is used as relevance, so candidates must carry embeddings.
+ * Results keep their original score, in selection order.
+ */
+export function maximalMarginalRelevance(candidates: SearchResult[], k: number, lambda = 0.5): SearchResult[] {
+    if (lambda < 0 || lambda > 1) {
+        throw new Error(`lambda must be between 0 and 1 (got ${lambda})`);
+    }
+    const missing = candidates.find((candidate) => !candidate.embedding);
+    if (missing) {
+        throw new Error(`MMR needs embeddings, but result ${missing.document.id ?? missing.document.content} has none`);
+    }
+
+    const remaining = [...candidates];
+    // Highest similarity of each remaining candidate to the selected ones
+    const redundancy = remaining.map(() => -Infinity);
+    const selected: SearchResult[] = [];
+
+    while (selected.length < k && remaining.length > 0) {
+        let best = 0;
+        let bestScore = -Infinity;
+        remaining.forEach((candidate, idx) => {
+            const score =
+                selected.length === 0 ? candidate.score : lambda * candidate.score - (1 - lambda) * redundancy[idx];
+            if (score > bestScore) {
+                best = idx;
+                bestScore = score;
+            }
+        });
+
+        const [picked] = remaining.splice(best, 1);
+        redundancy.splice(best, 1);
+        selected.push(picked);
+        remaining.forEach((candidate, idx) => {
+            redundancy[idx] = Math.max(redundancy[idx], cosineSimilarity(candidate.embedding!, picked.embedding!));
+        });
+    }
+
+    return selected;
+}
@@ -83,7 +83,8 @@ export class NoOpReranker implements Reranker {
 
 /**
  * Reciprocal Rank Fusion (RRF) re-ranker
- * Useful for combining multiple retrieval results
+ * Rescores a single list by its own order; to fuse several lists use
+ * EnsembleRetriever or fuseResults
  */
 export class RRFReranker implements Reranker {
     private k: number;
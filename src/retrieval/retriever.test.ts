@@ -0,0 +1,101 @@
+import { SearchResult, VectorStore } from '../core/types';
+import { Retriever } from '../retrieval/retriever';
+
+const result = (id: string, score: number): SearchResult => ({
+    document: { id, content: `content ${id}` },
+    score,
+    embedding: [score, 1 - score],
+});
+
+describe('Retriever search modes', () => {
+    const results = [result('a', 0.9)];
+    let store: { similaritySearch: jest.Mock; keywordSearch: jest.Mock; hybridSearch: jest.Mock };
+    let retriever: Retriever;
+
+    beforeEach(() => {
+        store = {
+            similaritySearch: jest.fn(async () => results),
+            keywordSearch: jest.fn(async () => results),
+            hybridSearch: jest.fn(async () => results),
+        };
+        retriever = new Retriever({ vectorStore: store as unknown as VectorStore, topK: 4 });
+    });
+
+    it('should default to vector search', async () => {
+        expect(await retriever.retrieve('query')).toBe(results);
+        expect(store.similaritySearch).toHaveBeenCalledWith('query', 4, undefined, { minScore: undefined });
+        expect(store.keywordSearch).not.toHaveBeenCalled();
+    });
+
+    it('should delegate keyword mode to keywordSearch with the filter', async () => {
+        const filter = { equals: { category: 'tech' } };
+        expect(await retriever.retrieve('query', { mode: 'keyword', topK: 2, filter })).toBe(results);
+        expect(store.keywordSearch).toHaveBeenCalledWith('query', 2, filter);
+    });
+
+    it('should pass fusion options and the filter to hybridSearch', async () => {
+        const filter = { equals: { category: 'tech' } };
+        await retriever.retrieve('query', {
+            mode: 'hybrid',
+            filter,
+            hybrid: { fusion: 'rrf', rrfK: 10, alpha: 0.7, candidates: 20 },
+        });
+        expect(store.hybridSearch).toHaveBeenCalledWith('query', 4, {
+            fusion: 'rrf',
+            rrfK: 10,
+            alpha: 0.7,
+            candidates: 20,
+            filter,
+        });
+    });
+
+    it('should throw when the store lacks the mode', async () => {
+        const vectorOnly = new Retriever({
+            vectorStore: { similaritySearch: store.similaritySearch } as unknown as VectorStore,
+        });
+
+        expect(vectorOnly.supportsMode('vector')).toBe(true);
+        expect(vectorOnly.supportsMode('keyword')).toBe(false);
+        expect(vectorOnly.supportsMode('hybrid')).toBe(false);
+        await expect(vectorOnly.retrieve('query', { mode: 'keyword' })).rejects.toThrow(
+            'Vector store does not support keyword search'
+        );
+        await expect(vectorOnly.retrieve('query', { mode: 'hybrid' })).rejects.toThrow(
+            'Vector store does not support hybrid search'
+        );
+    });
+});
+
+describe('Retriever minScore', () => {
+    let similaritySearch: jest.Mock;
+    let retriever: Retriever;
+
+    beforeEach(() => {
+        // A store that ignores minScore and always pads to k
+        similaritySearch = jest.fn(async () => [result('a', 0.9), result('b', 0.6), result('c', 0.2)]);
+        retriever = new Retriever({ vectorStore: { similaritySearch } as unknown as VectorStore, topK: 3 });
+    });
+
+    it('should pass the threshold to the store and drop results below it', async () => {
+        const results = await retriever.retrieve('query', { minScore: 0.5 });
+
+        expect(similaritySearch).toHaveBeenCalledWith('query', 3, undefined, { minScore: 0.5 });
+        expect(results.map((r) => r.document.id)).toEqual(['a', 'b']);
+    });
+
+    it('should apply the threshold to MMR candidates', async () => {
+        const results = await retriever.retrieve('query', { minScore: 0.5, mmr: { lambda: 1 } });
+
+        expect(similaritySearch).toHaveBeenCalledWith('query', 12, undefined, {
+            includeEmbeddings: true,
+            minScore: 0.5,
+        });
+        expect(results.map((r) => r.document.id)).toEqual(['a', 'b']);
+    });
+
+    it('should reject a threshold on keyword and hybrid scores', async () => {
+        await expect(retriever.retrieve('query', { mode: 'keyword', minScore: 0.5 })).rejects.toThrow(
+            'minScore is only supported in vector mode'
+        );
+    });
+});
@@ -1,4 +1,8 @@
-import { VectorStore, SearchResult, MetadataFilter } from '../core/types';
+import { VectorStore, SearchResult, MetadataFilter, SearchMode, HybridSearchOptions } from '../core/types';
+import { fuseResults } from '../vector-store/fusion';
+import { applyMinScore } from '../vector-store/scores';
+import { BM25Index } from './bm25';
+import { maximalMarginalRelevance, MMROptions } from './mmr';
 
 /**
  * Retriever for querying the vector store
@@ -6,28 +10,143 @@ import { VectorStore, SearchResult, MetadataFilter } from '../core/types';
 export class Retriever {
     private vectorStore: VectorStore;
     private topK: number;
+    private keywordIndex?: BM25Index;
 
-    constructor(options: { vectorStore: VectorStore; topK?: number }) {
+    /**
+     * @param options.keywordIndex - Keyword source for the keyword and hybrid modes, used instead of
+     * the store's own full-text search (e.g. for Qdrant without sparse vectors)
+     */
+    constructor(options: { vectorStore: VectorStore; topK?: number; keywordIndex?: BM25Index }) {
         this.vectorStore = options.vectorStore;
         this.topK = options.topK || 5;
+        this.keywordIndex = options.keywordIndex;
+    }
+
+    /**
+     * Whether `retrieve` can run in a mode, given the store and keyword index
+     */
+    supportsMode(mode: SearchMode): boolean {
+        switch (mode) {
+            case 'keyword':
+                return !!(this.keywordIndex || this.vectorStore.keywordSearch);
+            case 'hybrid':
+                return !!(this.keywordIndex || this.vectorStore.hybridSearch);
+            default:
+                return true;
+        }
     }
 
     /**
      * Retrieve relevant documents for a query
      * @param query - Query text
-     * @param options - Optional parameters including filter
+     * @param options - Optional parameters including filter, search mode, hybrid fusion and MMR settings
+     * @param options.mmr - Diversify vector results with Maximal Marginal Relevance: fetch `fetchK`
+     * candidates with their embeddings and select `topK` of them
+     * @param options.minScore - Drop vector results below this cosine similarity instead of padding to `topK`
+     * @throws Error when the vector store does not support the requested mode, or MMR or minScore is
+     * combined with another mode
      */
     async retrieve(
         query: string,
-        options?: { topK?: number; filter?: MetadataFilter }
+        options?: {
+            topK?: number;
+            filter?: MetadataFilter;
+            mode?: SearchMode;
+            hybrid?: Omit<HybridSearchOptions, 'filter'>;
+            mmr?: MMROptions;
+            minScore?: number;
+        }
     ): Promise<SearchResult[]> {
         const k = options?.topK || this.topK;
         const filter = options?.filter;
+        const minScore = options?.minScore;
+
+        // Keyword and fused scores are not similarities, so neither option applies to them
+        if ((options?.mode ?? 'vector') !== 'vector') {
+            if (options?.mmr) {
+                throw new Error('MMR is only supported in vector mode');
+            }
+            if (minScore !== undefined) {
+                throw new Error('minScore is only supported in vector mode');
+            }
+        }
+
+        if (options?.mmr) {
+            return this.retrieveWithMMR(query, k, filter, options.mmr, minScore);
+        }
+
+        switch (options?.mode ?? 'vector') {
+            case 'keyword':
+                if (this.keywordIndex) {
+                    return this.keywordIndex.search(query, k, filter);
+                }
+                if (!this.vectorStore.keywordSearch) {
+                    throw new Error('Vector store does not support keyword search');
+                }
+                return this.vectorStore.keywordSearch(query, k, filter);
+
+            case 'hybrid':
+                if (this.keywordIndex) {
+                    return this.fuseWithKeywordIndex(query, k, { ...options?.hybrid, filter });
+                }
+                if (!this.vectorStore.hybridSearch) {
+                    throw new Error('Vector store does not support hybrid search');
+                }
+                return this.vectorStore.hybridSearch(query, k, { ...options?.hybrid, filter });
+
+            default:
+                // Search vector store; the threshold is re-applied for custom stores that ignore it
+                return applyMinScore(
+                    await this.vectorStore.similaritySearch(query, k, filter, { minScore }),
+                    minScore
+                );
+        }
+    }
 
-        // Search vector store
-        const results = await this.vectorStore.similaritySearch(query, k, filter);
+    /**
+     * Hybrid search with the keyword index as the keyword leg, fused like the stores' hybridSearch
+     */
+    private async fuseWithKeywordIndex(
+        query: string,
+        k: number,
+        options: HybridSearchOptions
+    ): Promise<SearchResult[]> {
+        const alpha = options.alpha ?? 0.5;
+        if (alpha < 0 || alpha > 1) {
+            throw new Error(`alpha must be between 0 and 1 (got ${alpha})`);
+        }
+        const candidates = Math.max(options.candidates ?? k * 2, k);
+
+        const vectorResults = await this.vectorStore.similaritySearch(query, candidates, options.filter);
+        const keywordResults = this.keywordIndex!.search(query, candidates, options.filter);
+
+        return fuseResults([vectorResults, keywordResults], {
+            method: options.fusion,
+            weights: [alpha, 1 - alpha],
+            rrfK: options.rrfK,
+        }).slice(0, k);
+    }
+
+    /**
+     * Vector search over `fetchK` candidates, narrowed to `k` diverse results
+     */
+    private async retrieveWithMMR(
+        query: string,
+        k: number,
+        filter: MetadataFilter | undefined,
+        options: MMROptions,
+        minScore?: number
+    ): Promise<SearchResult[]> {
+        const fetchK = Math.max(options.fetchK ?? k * 4, k);
+        const candidates = await this.vectorStore.similaritySearch(query, fetchK, filter, {
+            includeEmbeddings: true,
+            minScore,
+        });
 
-        return results;
+        // Embeddings were only fetched for selection
+        return maximalMarginalRelevance(applyMinScore(candidates, minScore), k, options.lambda).map(
+            ({ embedding: _embedding, ...result }) => result
+        );
     }
 
     /**
@@ -0,0 +1,142 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { ChromaVectorStore } from '../vector-store/chroma';
+import { toChromaFilter } from '../vector-store/filters/chroma-filter';
+import { MockEmbeddingModel } from '../core/embedding';
+
+describe('toChromaFilter', () => {
+    it('should return undefined for an empty filter', () => {
+        expect(toChromaFilter({})).toBeUndefined();
+    });
+
+    it('should not wrap a single condition', () => {
+        expect(toChromaFilter({ equals: { category: 'tech' } })).toEqual({ category: { $eq: 'tech' } });
+    });
+
+    it('should translate comparisons and logical operators', () => {
+        expect(
+            toChromaFilter({
+                greaterThanOrEqual: { year: 2023 },
+                in: { lang: ['en', 'de'] },
+                or: [{ equals: { a: 1 } }, { lessThan: { b: 2 } }],
+            })
+        ).toEqual({
+            $and: [
+                { year: { $gte: 2023 } },
+                { lang: { $in: ['en', 'de'] } },
+                { $or: [{ a: { $eq: 1 } }, { b: { $lt: 2 } }] },
+            ],
+        });
+    });
+
+    it('should treat an empty in list as matching nothing', () => {
+        expect(toChromaFilter({ equals: { a: 1 }, in: { c: [] } })).toBeNull();
+        expect(toChromaFilter({ or: [{ in: { c: [] } }, { equals: { a: 1 } }] })).toEqual({ a: { $eq: 1 } });
+    });
+
+    it('should reject negations and operators Chroma lacks', () => {
+        // $ne and $nin skip documents without the field, which a negation has to match
+        expect(() => toChromaFilter({ not: { equals: { a: 1 } } })).toThrow(
+            'Filter operator "not" is not supported by Chroma'
+        );
+        expect(() => toChromaFilter({ notIn: { c: ['x'] } })).toThrow(
+            'Filter operator "notIn" is not supported by Chroma'
+        );
+        expect(() => toChromaFilter({ or: [{ exists: { a: true } }] })).toThrow(
+            'Filter operator "exists" is not supported by Chroma'
+        );
+    });
+});
+
+describe('ChromaVectorStore', () => {
+    let server: Server;
+    let requests: Array<{ method: string; path: string; body: any }>;
+    let store: ChromaVectorStore;
+
+    beforeAll(async () => {
+        const app = express();
+        app.use(express.json({ limit: '10mb' }));
+        app.use((req, res) => {
+            requests.push({ method: req.method, path: req.path, body: req.body });
+            if (req.path.endsWith('/collections')) {
+                return res.json({ id: 'col-1', name: req.body.name });
+            }
+            if (req.path.endsWith('/query')) {
+                return res.json({
+                    ids: [['a']],
+                    documents: [['alpha']],
+                    metadatas: [[{ category: 'tech' }]],
+                    distances: [[0.25]],
+                });
+            }
+            res.json({});
+        });
+        server = await new Promise<Server>((resolve) => {
+            const listening = app.listen(0, () => resolve(listening));
+        });
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        requests = [];
+        const { port } = server.address() as AddressInfo;
+        store = new ChromaVectorStore(`http://127.0.0.1:${port}`, 'docs', new MockEmbeddingModel(4), {
+            token: 'secret',
+        });
+        await store.initialize();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should get or create the collection', () => {
+        expect(requests[0]).toEqual({
+            method: 'POST',
+            path: '/api/v2/tenants/default_tenant/databases/default_database/collections',
+            body: { name: 'docs', get_or_create: true, metadata: { 'hnsw:space': 'cosine' } },
+        });
+    });
+
+    it('should upsert documents with embeddings', async () => {
+        await store.addDocuments([{ id: 'a', content: 'alpha', metadata: { category: 'tech' } }, { id: 'b', content: 'beta' }]);
+
+        const upsert = requests[1];
+        expect(upsert.path).toMatch(/\/collections\/col-1\/upsert$/);
+        expect(upsert.body.ids).toEqual(['a', 'b']);
+        expect(upsert.body.documents).toEqual(['alpha', 'beta']);
+        expect(upsert.body.metadatas).toEqual([{ category: 'tech' }, null]);
+        expect(upsert.body.embeddings[0].length).toBe(4);
+    });
+
+    it('should reject array metadata', async () => {
+        await expect(store.addDocuments([{ content: 'x', metadata: { tags: ['a'] } }])).rejects.toThrow(
+            'does not support array metadata'
+        );
+    });
+
+    it('should query with a translated filter', async () => {
+        const results = await store.similaritySearch([1, 0, 0, 0], 3, { equals: { category: 'tech' } });
+
+        expect(requests[1].body).toEqual({
+            query_embeddings: [[1, 0, 0, 0]],
+            n_results: 3,
+            where: { category: { $eq: 'tech' } },
+            include: ['documents', 'metadatas', 'distances'],
+        });
+        expect(results).toEqual([
+            { document: { id: 'a', content: 'alpha', metadata: { category: 'tech' } }, score: 0.75, rawScore: 0.25 },
+        ]);
+    });
+
+    it('should delete by id', async () => {
+        await store.deleteDocuments(['a']);
+        expect(requests[1].path).toMatch(/\/collections\/col-1\/delete$/);
+        expect(requests[1].body).toEqual({ ids: ['a'] });
+    });
+});
@@ -0,0 +1,189 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+    VectorStore,
+    Document,
+    SearchResult,
+    EmbeddingModel,
+    MetadataFilter,
+    Metadata,
+    SimilaritySearchOptions,
+} from '../core/types';
+import { toChromaFilter } from './filters/chroma-filter';
+import { jsonRequest } from './http';
+import { applyMinScore } from './scores';
+
+/**
+ * Chroma vector store options
+ */
+export interface ChromaVectorStoreOptions {
+    /** Auth token sent as a bearer token */
+    token?: string;
+    tenant?: string;
+    database?: string;
+}
+
+/**
+ * Chroma query response, one inner list per query embedding
+ */
+interface ChromaQueryResponse {
+    ids: string[][];
+    documents: (string | null)[][];
+    metadatas: (Metadata | null)[][];
+    distances: number[][];
+    embeddings?: number[][][];
+}
+
+/**
+ * Chroma vector store implementation
+ * Talks to the Chroma v2 HTTP API
+ */
+export class ChromaVectorStore implements VectorStore {
+    private url: string;
+    private collectionName: string;
+    private embeddingModel: EmbeddingModel;
+    private options: ChromaVectorStoreOptions;
+    private collectionId?: string;
+
+    constructor(
+        url: string,
+        collectionName: string,
+        embeddingModel: EmbeddingModel,
+        options: ChromaVectorStoreOptions = {}
+    ) {
+        this.url = url.replace(/\/+$/, '');
+        this.collectionName = collectionName;
+        this.embeddingModel = embeddingModel;
+        this.options = options;
+    }
+
+    async initialize(): Promise<void> {
+        try {
+            // Get or create collection
+            const collection = await this.request<{ id: string }>('POST', '/collections', {
+                name: this.collectionName,
+                get_or_create: true,
+                metadata: { 'hnsw:space': 'cosine' },
+            });
+            this.collectionId = collection.id;
+            console.log(`Chroma collection ready: ${this.collectionName} `);
+        } catch (error) {
+            throw new Error(`Failed to initialize Chroma: ${error} `);
+        }
+    }
+
+    async addDocuments(documents: Document[]): Promise<void> {
+        if (documents.length === 0) return;
+
+        try {
+            // Generate embeddings for documents
+            const texts = documents.map((doc) => doc.content);
+            const embeddings = await this.embeddingModel.embedBatch(texts);
+
+            // Chroma metadata values must be scalars
+            for (const doc of documents) {
+                for (const [key, value] of Object.entries(doc.metadata || {})) {
+                    if (Array.isArray(value)) {
+                        throw new Error(`Chroma does not support array metadata (field "${key}")`);
+                    }
+                }
+            }
+
+            await this.request('POST', `/collections/${this.getCollectionId()}/upsert`, {
+                ids: documents.map((doc) => doc.id || uuidv4()),
+                embeddings,
+                documents: texts,
+                // Chroma rejects empty metadata objects
+                metadatas: documents.map((doc) =>
+                    doc.metadata && Object.keys(doc.metadata).length > 0 ? doc.metadata : null
+                ),
+            });
+
+            console.log(`Added ${documents.length} documents to Chroma`);
+        } catch (error) {
+            throw new Error(`Failed to add documents to Chroma: ${error} `);
+        }
+    }
+
+    async similaritySearch(
+        query: string | number[],
+        k: number,
+        filter?: MetadataFilter,
+        options: SimilaritySearchOptions = {}
+    ): Promise<SearchResult[]> {
+        try {
+            const where = filter ? toChromaFilter(filter) : undefined;
+            // e.g. an empty `in` list: nothing to ask the backend for
+            if (where === null) return [];
+
+            // Get query embedding
+            let queryVector: number[];
+            if (typeof query === 'string') {
+                queryVector = await this.embeddingModel.embedText(query);
+            } else {
+                queryVector = query;
+            }
+
+            const response = await this.request<ChromaQueryResponse>(
+                'POST',
+                `/collections/${this.getCollectionId()}/query`,
+                {
+                    query_embeddings: [queryVector],
+                    n_results: k,
+                    ...(where && { where }),
+                    include: [
+                        'documents',
+                        'metadatas',
+                        'distances',
+                        ...(options.includeEmbeddings ? ['embeddings'] : []),
+                    ],
+                }
+            );
+
+            // Convert to SearchResult format; cosine distance is 1 - similarity
+            const results = response.ids[0].map((id, idx) => ({
+                document: {
+                    id,
+                    content: response.documents[0][idx] ?? '',
+                    metadata: response.metadatas[0][idx] ?? {},
+                },
+                score: 1 - response.distances[0][idx],
+                rawScore: response.distances[0][idx],
+                ...(response.embeddings && { embedding: response.embeddings[0][idx] }),
+            }));
+            return applyMinScore(results, options.minScore);
+        } catch (error) {
+            throw new Error(`Failed to search in Chroma: ${error} `);
+        }
+    }
+
+    async deleteDocuments(ids: string[]): Promise<void> {
+        try {
+            await this.request('POST', `/collections/${this.getCollectionId()}/delete`, { ids });
+            console.log(`Deleted ${ids.length} documents from Chroma`);
+        } catch (error) {
+            throw new Error(`Failed to delete documents from Chroma: ${error} `);
+        }
+    }
+
+    async close(): Promise<void> {
+        // HTTP API is stateless
+        console.log('Chroma connection closed');
+    }
+
+    private getCollectionId(): string {
+        if (!this.collectionId) {
+            throw new Error('Chroma store is not initialized');
+        }
+        return this.collectionId;
+    }
+
+    private request<T = any>(method: string, path: string, body?: unknown): Promise<T> {
+        const tenant = encodeURIComponent(this.options.tenant ?? 'default_tenant');
+        const database = encodeURIComponent(this.options.database ?? 'default_database');
+        return jsonRequest<T>(`${this.url}/api/v2/tenants/${tenant}/databases/${database}${path}`, {
+            method,
+            body,
+            headers: this.options.token ? { Authorization: `Bearer ${this.options.token}` } : undefined,
+        });
+    }
+}
@@ -0,0 +1,264 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Document, EmbeddingModel, MetadataFilter, VectorStore } from '../core/types';
+import { MockEmbeddingModel } from '../core/embedding';
+import { InMemoryVectorStore } from '../vector-store/memory';
+import { FileVectorStore } from '../vector-store/file';
+import { SqliteVectorStore } from '../vector-store/sqlite';
+import { QdrantVectorStore } from '../vector-store/qdrant';
+import { OpenSearchVectorStore } from '../vector-store/opensearch';
+import { ElasticsearchVectorStore } from '../vector-store/elasticsearch';
+import { PgVectorStore } from '../vector-store/pgvector';
+import { RedisVectorStore } from '../vector-store/redis';
+import { ChromaVectorStore } from '../vector-store/chroma';
+import { WeaviateVectorStore } from '../vector-store/weaviate';
+import { MilvusVectorStore } from '../vector-store/milvus';
+
+/**
+ * Filter conformance suite: the same filter cases run against every store.
+ *
+ * Local stores always run. Stores backed by a server run when its URL is set,
+ * e.g. LITERAG_TEST_QDRANT_URL=http://localhost:6333 npm test
+ */
+
+const fixtures: Document[] = [
+    {
+        id: 'a',
+        content: 'alpha',
+        metadata: {
+            category: 'tech',
+            year: 2022,
+            draft: false,
+            tags: ['ai', 'ml'],
+            title: 'Intro to Vector Search',
+            slug: 'guide-intro',
+            published: '2024-01-15T10:00:00Z',
+        },
+    },
+    {
+        id: 'b',
+        content: 'beta',
+        metadata: {
+            category: 'tech',
+            year: 2024,
+            draft: true,
+            tags: ['web'],
+            title: 'Search engines, compared',
+            slug: 'guide-engines',
+            published: '2024-06-01T00:00:00+02:00',
+        },
+    },
+    {
+        id: 'c',
+        content: 'gamma',
+        metadata: {
+            category: 'science',
+            year: 2023,
+            draft: false,
+            title: 'Gamma rays',
+            slug: 'news-gamma',
+            published: '2023-11-30T00:00:00Z',
+        },
+    },
+    { id: 'd', content: 'delta', metadata: { category: 'art', year: 2020, draft: false, tags: ['ai'], slug: 'about' } },
+];
+
+interface FilterCase {
+    name: string;
+    filter: MetadataFilter;
+    expected: string[];
+    /** Case needs array-valued metadata */
+    arrays?: boolean;
+}
+
+const cases: FilterCase[] = [
+    { name: 'empty filter', filter: {}, expected: ['a', 'b', 'c', 'd'] },
+    { name: 'equals string', filter: { equals: { category: 'tech' } }, expected: ['a', 'b'] },
+    { name: 'equals number', filter: { equals: { year: 2023 } }, expected: ['c'] },
+    { name: 'equals boolean', filter: { equals: { draft: true } }, expected: ['b'] },
+    { name: 'equals array element', filter: { equals: { tags: 'ai' } }, expected: ['a', 'd'], arrays: true },
+    { name: 'greaterThan', filter: { greaterThan: { year: 2022 } }, expected: ['b', 'c'] },
+    { name: 'lessThan', filter: { lessThan: { year: 2022 } }, expected: ['d'] },
+    { name: 'greaterThanOrEqual', filter: { greaterThanOrEqual: { year: 2022 } }, expected: ['a', 'b', 'c'] },
+    { name: 'lessThanOrEqual', filter: { lessThanOrEqual: { year: 2022 } }, expected: ['a', 'd'] },
+    { name: 'in', filter: { in: { category: ['science', 'art'] } }, expected: ['c', 'd'] },
+    { name: 'in on array field', filter: { in: { tags: ['web', 'ml'] } }, expected: ['a', 'b'], arrays: true },
+    { name: 'top-level conditions intersect', filter: { equals: { category: 'tech' }, lessThanOrEqual: { year: 2022 } }, expected: ['a'] },
+    { name: 'and', filter: { and: [{ equals: { category: 'tech' } }, { greaterThan: { year: 2022 } }] }, expected: ['b'] },
+    { name: 'or', filter: { or: [{ equals: { category: 'science' } }, { lessThan: { year: 2021 } }] }, expected: ['c', 'd'] },
+    { name: 'not', filter: { not: { equals: { category: 'tech' } } }, expected: ['c', 'd'] },
+    { name: 'not on a missing field', filter: { not: { equals: { tags: 'ai' } } }, expected: ['b', 'c'], arrays: true },
+    {
+        name: 'nested',
+        filter: {
+            or: [{ and: [{ equals: { category: 'tech' } }, { equals: { draft: false } }] }, { equals: { category: 'art' } }],
+        },
+        expected: ['a', 'd'],
+    },
+    { name: 'exists', filter: { exists: { tags: true } }, expected: ['a', 'b', 'd'], arrays: true },
+    { name: 'exists false', filter: { exists: { title: false } }, expected: ['d'] },
+    { name: 'notEquals', filter: { notEquals: { category: 'tech' } }, expected: ['c', 'd'] },
+    { name: 'notEquals on an array field', filter: { notEquals: { tags: 'ai' } }, expected: ['b', 'c'], arrays: true },
+    { name: 'notIn', filter: { notIn: { category: ['tech', 'art'] } }, expected: ['c'] },
+    { name: 'containsAny', filter: { containsAny: { tags: ['ml', 'web'] } }, expected: ['a', 'b'], arrays: true },
+    { name: 'containsAll', filter: { containsAll: { tags: ['ai', 'ml'] } }, expected: ['a'], arrays: true },
+    { name: 'textMatch', filter: { textMatch: { title: 'search' } }, expected: ['a', 'b'] },
+    { name: 'textMatch needs every word', filter: { textMatch: { title: 'vector SEARCH' } }, expected: ['a'] },
+    { name: 'prefix', filter: { prefix: { slug: 'guide' } }, expected: ['a', 'b'] },
+    { name: 'prefix only matches the start', filter: { prefix: { slug: 'intro' } }, expected: [] },
+    // b is published at 2024-05-31T22:00Z, which sorts after the upper bound as a string
+    {
+        name: 'dateRange compares instants',
+        filter: { dateRange: { published: { gte: '2024-01-01', lt: '2024-05-31T23:00:00Z' } } },
+        expected: ['a', 'b'],
+    },
+    { name: 'dateRange upper bound', filter: { dateRange: { published: { lt: '2024-01-01' } } }, expected: ['c'] },
+    { name: 'not dateRange', filter: { not: { dateRange: { published: { gte: '2024-01-01' } } } }, expected: ['c', 'd'] },
+];
+
+/**
+ * Whether a filter, or any nested filter, uses one of the operators
+ */
+function usesOperator(filter: MetadataFilter, operators: (keyof MetadataFilter)[]): boolean {
+    return (
+        operators.some((operator) => filter[operator] !== undefined) ||
+        [...(filter.and || []), ...(filter.or || []), ...(filter.not ? [filter.not] : [])].some((subFilter) =>
+            usesOperator(subFilter, operators)
+        )
+    );
+}
+
+interface StoreUnderTest {
+    name: string;
+    /** Server URL; the store is skipped when unset */
+    url?: string;
+    /** Whether the store accepts array-valued metadata (default: true) */
+    arrays?: boolean;
+    /** Operators the store rejects */
+    unsupported?: (keyof MetadataFilter)[];
+    /** Documented deviations: results the store returns instead, by case name */
+    differences?: Record<string, string[]>;
+    create(embeddingModel: EmbeddingModel, workDir: string): VectorStore;
+}
+
+const env = (name: string) => process.env[`LITERAG_TEST_${name}_URL`];
+const runId = Date.now();
+
+const stores: StoreUnderTest[] = [
+    { name: 'memory', create: (embeddingModel) => new InMemoryVectorStore(embeddingModel) },
+    { name: 'memory (HNSW)', create: (embeddingModel) => new InMemoryVectorStore(embeddingModel, { hnsw: {} }) },
+    { name: 'file', create: (embeddingModel, workDir) => new FileVectorStore(workDir, embeddingModel) },
+    {
+        name: 'sqlite',
+        create: (embeddingModel, workDir) => new SqliteVectorStore(path.join(workDir, 'store.db'), embeddingModel),
+    },
+    {
+        name: 'qdrant',
+        url: env('QDRANT'),
+        create: (embeddingModel) =>
+            new QdrantVectorStore(env('QDRANT')!, `conformance_${runId}`, embeddingModel, undefined, {
+                filterableFields: { title: 'text', slug: 'prefix', published: 'datetime' },
+            }),
+        // The prefix tokenizer matches the start of any word
+        differences: { 'prefix only matches the start': ['a'] },
+    },
+    {
+        name: 'opensearch',
+        url: env('OPENSEARCH'),
+        create: (embeddingModel) => new OpenSearchVectorStore(env('OPENSEARCH')!, `conformance_${runId}`, embeddingModel),
+    },
+    {
+        name: 'elasticsearch',
+        url: env('ELASTICSEARCH'),
+        create: (embeddingModel) =>
+            new ElasticsearchVectorStore(env('ELASTICSEARCH')!, `conformance_${runId}`, embeddingModel),
+    },
+    {
+        name: 'pgvector',
+        url: env('PGVECTOR'),
+        unsupported: ['dateRange'],
+        create: (embeddingModel) => new PgVectorStore(env('PGVECTOR')!, `conformance_${runId}`, embeddingModel),
+    },
+    {
+        name: 'redis',
+        url: env('REDIS'),
+        unsupported: ['exists'],
+        create: (embeddingModel) =>
+            new RedisVectorStore(env('REDIS')!, `conformance_${runId}`, embeddingModel, {
+                metadataSchema: {
+                    category: 'keyword',
+                    year: 'integer',
+                    draft: 'boolean',
+                    tags: 'array',
+                    title: 'text',
+                    slug: 'keyword',
+                    published: 'date',
+                },
+            }),
+    },
+    {
+        name: 'chroma',
+        url: env('CHROMA'),
+        arrays: false,
+        unsupported: ['not', 'notEquals', 'notIn', 'exists', 'textMatch', 'prefix', 'dateRange'],
+        create: (embeddingModel) => new ChromaVectorStore(env('CHROMA')!, `conformance_${runId}`, embeddingModel),
+    },
+    {
+        name: 'weaviate',
+        url: env('WEAVIATE'),
+        unsupported: ['not', 'notEquals', 'notIn', 'exists', 'textMatch', 'prefix', 'dateRange'],
+        create: (embeddingModel) => new WeaviateVectorStore(env('WEAVIATE')!, `Conformance${runId}`, embeddingModel),
+    },
+    {
+        name: 'milvus',
+        url: env('MILVUS'),
+        unsupported: ['exists', 'textMatch', 'prefix', 'dateRange'],
+        create: (embeddingModel) => new MilvusVectorStore(env('MILVUS')!, `conformance_${runId}`, embeddingModel),
+    },
+];
+
+describe.each(stores)('filter conformance: $name', (storeUnderTest) => {
+    const local = !('url' in storeUnderTest);
+    const enabled = local || Boolean(storeUnderTest.url);
+    const arrays = storeUnderTest.arrays !== false;
+    let store: VectorStore;
+    let workDir: string;
+
+    beforeAll(async () => {
+        if (!enabled) return;
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'literag-conformance-'));
+        store = storeUnderTest.create(new MockEmbeddingModel(8), workDir);
+        await store.initialize();
+
+        // Stores without array support get the same documents minus the array field
+        await store.addDocuments(
+            arrays
+                ? fixtures
+                : fixtures.map(({ metadata, ...doc }) => {
+                      const { tags, ...rest } = metadata!;
+                      return { ...doc, metadata: rest };
+                  })
+        );
+    });
+
+    afterAll(async () => {
+        if (!enabled) return;
+        if (!local) {
+            await store.deleteDocuments(fixtures.map((doc) => doc.id!));
+        }
+        await store.close();
+        await fs.rm(workDir, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    const applicable = cases.filter(
+        (filterCase) =>
+            (arrays || !filterCase.arrays) && !usesOperator(filterCase.filter, storeUnderTest.unsupported || [])
+    );
+    (enabled ? it.each(applicable) : it.skip.each(applicable))('$name', async ({ name, filter, expected }) => {
+        const results = await store.similaritySearch('query', fixtures.length + 2, filter);
+        expect(results.map((r) => r.document.id).sort()).toEqual(storeUnderTest.differences?.[name] ?? expected);
+    });
+});
@@ -0,0 +1,22 @@
+/**
+ * Encode a backend paging position as an opaque cursor string
+ */
+export function encodeCursor(position: unknown): string {
+    return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ */
+export function decodeCursor<T = unknown>(cursor: string): T {
+    try {
+        return JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        throw new Error(`Invalid cursor: ${cursor}`);
+    }
+}
+
+/**
+ * Default page size for listDocuments
+ */
+export const DEFAULT_PAGE_SIZE = 100;
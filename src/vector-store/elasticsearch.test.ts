@@ -0,0 +1,158 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { ElasticsearchVectorStore } from '../vector-store/elasticsearch';
+import { MockEmbeddingModel } from '../core/embedding';
+
+describe('ElasticsearchVectorStore', () => {
+    let server: Server;
+    let requests: Array<{ method: string; path: string; body: any }>;
+    let bulkErrors: boolean;
+    let store: ElasticsearchVectorStore;
+
+    const hit = (id: string, score: number) => ({
+        _id: id,
+        _score: score,
+        _source: { content: `content ${id}`, metadata: { category: 'tech' }, embedding: [0, 1, 0, 0] },
+    });
+
+    beforeAll(async () => {
+        const app = express();
+        // Bulk bodies are NDJSON; everything else is a single JSON document
+        app.use(express.text({ type: () => true, limit: '10mb' }));
+        app.use((req, res) => {
+            const lines = req.body ? String(req.body).split('\n').filter(Boolean) : [];
+            const body = lines.map((line: string) => JSON.parse(line));
+            requests.push({ method: req.method, path: req.path, body: req.path === '/_bulk' ? body : body[0] });
+
+            // The client refuses to talk to servers that do not identify as Elasticsearch
+            res.setHeader('x-elastic-product', 'Elasticsearch');
+            if (req.method === 'HEAD' && req.path === '/docs') {
+                return res.status(404).end();
+            }
+            if (req.path === '/_bulk') {
+                const items = body
+                    .filter((line: any) => line.index || line.delete)
+                    .map((line: any) => ({
+                        index: { _id: (line.index ?? line.delete)._id, status: bulkErrors ? 400 : 201 },
+                    }))
+                    .map((item: any) => (bulkErrors ? { index: { ...item.index, error: { type: 'mapper' } } } : item));
+                return res.json({ errors: bulkErrors, took: 1, items });
+            }
+            if (req.path === '/docs/_search') {
+                // Only the requested source fields come back
+                const hits = [hit('a', 1), hit('b', 0.75), hit('c', 0.25)]
+                    .slice(0, body[0].size)
+                    .map((h) => ({
+                        ...h,
+                        _source: Object.fromEntries(
+                            Object.entries(h._source).filter(([field]) => body[0]._source.includes(field))
+                        ),
+                    }));
+                return res.json({ took: 1, timed_out: false, hits: { total: { value: hits.length }, hits } });
+            }
+            res.json({ acknowledged: true });
+        });
+        server = await new Promise<Server>((resolve) => {
+            const listening = app.listen(0, () => resolve(listening));
+        });
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        requests = [];
+        bulkErrors = false;
+        const { port } = server.address() as AddressInfo;
+        store = new ElasticsearchVectorStore(
+            `http://127.0.0.1:${port}`,
+            'docs',
+            new MockEmbeddingModel(4),
+            undefined,
+            { numCandidatesFactor: 5, metadataSchema: { year: 'integer' } }
+        );
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should create the index with a cosine dense_vector mapping', async () => {
+        await store.initialize();
+
+        const create = requests.find((r) => r.method === 'PUT' && r.path === '/docs');
+        expect(create?.body.mappings.properties).toEqual({
+            content: { type: 'text' },
+            embedding: { type: 'dense_vector', dims: 4, index: true, similarity: 'cosine' },
+            metadata: { type: 'object', enabled: true, properties: { year: { type: 'long' } } },
+        });
+    });
+
+    it('should bulk index documents with their embeddings and coerced metadata', async () => {
+        await store.addDocuments([{ id: 'a', content: 'alpha', metadata: { year: '2024' } }]);
+
+        const [bulk] = requests;
+        expect(bulk.path).toBe('/_bulk');
+        expect(bulk.body[0]).toEqual({ index: { _index: 'docs', _id: 'a' } });
+        expect(bulk.body[1]).toMatchObject({ content: 'alpha', metadata: { year: 2024 } });
+        expect(bulk.body[1].embedding).toHaveLength(4);
+    });
+
+    it('should fail when any bulk item fails', async () => {
+        bulkErrors = true;
+        await expect(store.addDocuments([{ id: 'a', content: 'alpha' }])).rejects.toThrow(
+            'Some documents failed to index'
+        );
+    });
+
+    it('should push the filter into the kNN search and convert scores to cosine similarity', async () => {
+        const results = await store.similaritySearch([1, 0, 0, 0], 2, { equals: { year: 2024 } });
+
+        const [search] = requests;
+        expect(search.path).toBe('/docs/_search');
+        expect(search.body).toEqual({
+            knn: {
+                field: 'embedding',
+                query_vector: [1, 0, 0, 0],
+                k: 2,
+                num_candidates: 10,
+                filter: { bool: { must: [{ term: { 'metadata.year': 2024 } }] } },
+            },
+            size: 2,
+            _source: ['content', 'metadata'],
+        });
+        // (1 + cos) / 2: 1 -> 1, 0.75 -> 0.5
+        expect(results).toEqual([
+            { document: { id: 'a', content: 'content a', metadata: { category: 'tech' } }, score: 1, rawScore: 1 },
+            {
+                document: { id: 'b', content: 'content b', metadata: { category: 'tech' } },
+                score: 0.5,
+                rawScore: 0.75,
+            },
+        ]);
+    });
+
+    it('should return embeddings when asked and drop results below minScore', async () => {
+        const results = await store.similaritySearch([1, 0, 0, 0], 3, undefined, {
+            includeEmbeddings: true,
+            minScore: 0,
+        });
+
+        expect(requests[0].body._source).toEqual(['content', 'metadata', 'embedding']);
+        // c scores 2 * 0.25 - 1 = -0.5
+        expect(results.map((r) => [r.document.id, r.embedding])).toEqual([
+            ['a', [0, 1, 0, 0]],
+            ['b', [0, 1, 0, 0]],
+        ]);
+    });
+
+    it('should reject filters on declared fields with the wrong type', async () => {
+        await expect(store.similaritySearch([1, 0, 0, 0], 2, { equals: { year: 'recent' } })).rejects.toThrow(
+            'Invalid filter'
+        );
+    });
+});
@@ -0,0 +1,221 @@
+import type * as Elasticsearch from '@elastic/elasticsearch';
+import { v4 as uuidv4 } from 'uuid';
+import {
+    VectorStore,
+    Document,
+    SearchResult,
+    EmbeddingModel,
+    MetadataFilter,
+    MetadataSchema,
+    SimilaritySearchOptions,
+} from '../core/types';
+import { toOpenSearchFilter } from './filters/opensearch-filter';
+import { validateFilter } from './filters/validate-filter';
+import { coerceDocuments, toOpenSearchProperties, validateMetadataSchema } from './metadata-schema';
+import { applyMinScore, fromElasticsearchCosineScore } from './scores';
+import { requireOptional } from './optional-dependency';
+
+/**
+ * Elasticsearch authentication: basic auth or an API key (Elastic Cloud)
+ */
+export type ElasticsearchAuth = { username: string; password: string } | { apiKey: string };
+
+/**
+ * Elasticsearch vector store options
+ */
+export interface ElasticsearchVectorStoreOptions {
+    /** Candidates considered per shard, as a multiple of k (default: 10) */
+    numCandidatesFactor?: number;
+    /**
+     * Declared metadata fields: mapped with the matching type instead of dynamic
+     * mapping, coerced on write, and used to validate filters
+     */
+    metadataSchema?: MetadataSchema;
+}
+
+/**
+ * Elasticsearch vector store implementation
+ * Uses `dense_vector` mappings and the top-level `knn` search option (Elasticsearch 8+)
+ */
+export class ElasticsearchVectorStore implements VectorStore {
+    private client: Elasticsearch.Client;
+    private indexName: string;
+    private embeddingModel: EmbeddingModel;
+    private dimension: number;
+    private numCandidatesFactor: number;
+    private metadataSchema: MetadataSchema;
+
+    constructor(
+        node: string,
+        indexName: string,
+        embeddingModel: EmbeddingModel,
+        auth?: ElasticsearchAuth,
+        options: ElasticsearchVectorStoreOptions = {}
+    ) {
+        const { Client } = requireOptional<typeof Elasticsearch>('@elastic/elasticsearch', 'ElasticsearchVectorStore');
+        this.client = new Client({
+            node,
+            ...(auth && { auth }),
+        });
+        this.indexName = indexName;
+        this.embeddingModel = embeddingModel;
+        this.dimension = embeddingModel.getDimension();
+        this.numCandidatesFactor = options.numCandidatesFactor ?? 10;
+        this.metadataSchema = options.metadataSchema || {};
+        validateMetadataSchema(this.metadataSchema);
+    }
+
+    async initialize(): Promise<void> {
+        try {
+            // Check if index exists
+            const exists = await this.client.indices.exists({ index: this.indexName });
+
+            if (!exists) {
+                // Create index with dense_vector mapping
+                await this.client.indices.create({
+                    index: this.indexName,
+                    mappings: {
+                        properties: {
+                            content: { type: 'text' },
+                            embedding: {
+                                type: 'dense_vector',
+                                dims: this.dimension,
+                                index: true,
+                                similarity: 'cosine',
+                            },
+                            metadata: {
+                                type: 'object',
+                                enabled: true,
+                                properties: toOpenSearchProperties(this.metadataSchema),
+                            },
+                        },
+                    },
+                });
+                console.log(`Created Elasticsearch index: ${this.indexName} `);
+            } else {
+                console.log(`Elasticsearch index already exists: ${this.indexName} `);
+
+                // Mappings are additive, so newly declared fields are picked up; changing a type fails
+                if (Object.keys(this.metadataSchema).length > 0) {
+                    await this.client.indices.putMapping({
+                        index: this.indexName,
+                        properties: { metadata: { properties: toOpenSearchProperties(this.metadataSchema) } },
+                    });
+                }
+            }
+        } catch (error) {
+            throw new Error(`Failed to initialize Elasticsearch: ${error} `);
+        }
+    }
+
+    async addDocuments(input: Document[]): Promise<void> {
+        if (input.length === 0) return;
+
+        try {
+            // Coerce before embedding, so invalid metadata fails fast
+            const documents = coerceDocuments(input, this.metadataSchema);
+
+            // Generate embeddings
+            const texts = documents.map((doc) => doc.content);
+            const embeddings = await this.embeddingModel.embedBatch(texts);
+
+            // Prepare bulk operations
+            const operations = documents.flatMap((doc, idx) => {
+                const id = doc.id || uuidv4();
+                return [
+                    { index: { _index: this.indexName, _id: id } },
+                    {
+                        content: doc.content,
+                        embedding: embeddings[idx],
+                        metadata: doc.metadata || {},
+                    },
+                ];
+            });
+
+            // Bulk index
+            const response = await this.client.bulk({ refresh: true, operations });
+
+            if (response.errors) {
+                const erroredDocuments = response.items.filter((item) => item.index?.error);
+                console.error('Errors indexing documents:', erroredDocuments);
+                throw new Error('Some documents failed to index');
+            }
+
+            console.log(`Added ${documents.length} documents to Elasticsearch`);
+        } catch (error) {
+            throw new Error(`Failed to add documents to Elasticsearch: ${error} `);
+        }
+    }
+
+    async similaritySearch(
+        query: string | number[],
+        k: number,
+        filter?: MetadataFilter,
+        options: SimilaritySearchOptions = {}
+    ): Promise<SearchResult[]> {
+        try {
+            // Get query embedding
+            let queryVector: number[];
+            if (typeof query === 'string') {
+                queryVector = await this.embeddingModel.embedText(query);
+            } else {
+                queryVector = query;
+            }
+
+            // Filters are pushed down into the kNN search so k results are returned after filtering
+            const response = await this.client.search<{ content: string; metadata: any; embedding?: number[] }>({
+                index: this.indexName,
+                knn: {
+                    field: 'embedding',
+                    query_vector: queryVector,
+                    k,
+                    num_candidates: Math.max(k * this.numCandidatesFactor, k),
+                    ...(filter && { filter: this.toFilter(filter) }),
+                },
+                size: k,
+                _source: ['content', 'metadata', ...(options.includeEmbeddings ? ['embedding'] : [])],
+            });
+
+            // Convert to SearchResult format
+            const results = response.hits.hits.map((hit) => ({
+                document: {
+                    id: hit._id,
+                    content: hit._source!.content,
+                    metadata: hit._source!.metadata,
+                },
+                score: fromElasticsearchCosineScore(hit._score ?? 0),
+                rawScore: hit._score ?? 0,
+                ...(hit._source!.embedding && { embedding: hit._source!.embedding }),
+            }));
+            return applyMinScore(results, options.minScore);
+        } catch (error) {
+            throw new Error(`Failed to search in Elasticsearch: ${error} `);
+        }
+    }
+
+    async deleteDocuments(ids: string[]): Promise<void> {
+        try {
+            const operations = ids.map((id) => ({ delete: { _index: this.indexName, _id: id } }));
+
+            await this.client.bulk({ refresh: true, operations });
+            console.log(`Deleted ${ids.length} documents from Elasticsearch`);
+        } catch (error) {
+            throw new Error(`Failed to delete documents from Elasticsearch: ${error} `);
+        }
+    }
+
+    async close(): Promise<void> {
+        await this.client.close();
+        console.log('Elasticsearch connection closed');
+    }
+
+    /**
+     * Translate a filter, checking it against the declared schema first
+     */
+    private toFilter(filter: MetadataFilter) {
+        if (Object.keys(this.metadataSchema).length > 0) {
+            validateFilter(filter, this.metadataSchema);
+        }
+        return toOpenSearchFilter(filter);
+    }
+}
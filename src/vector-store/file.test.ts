@@ -0,0 +1,149 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileVectorStore } from '../vector-store/file';
+import { MockEmbeddingModel } from '../core/embedding';
+
+describe('FileVectorStore', () => {
+    let directory: string;
+    let embeddingModel: MockEmbeddingModel;
+
+    const open = async (compactionThreshold?: number) => {
+        const store = new FileVectorStore(directory, embeddingModel, { compactionThreshold });
+        await store.initialize();
+        return store;
+    };
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'literag-file-store-'));
+        embeddingModel = new MockEmbeddingModel(16);
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should reload documents after close', async () => {
+        const store = await open();
+        await store.addDocuments([
+            { id: 'a', content: 'alpha', metadata: { category: 'tech' } },
+            { id: 'b', content: 'beta', metadata: { category: 'science' } },
+        ]);
+        await store.close();
+
+        const reopened = await open();
+        expect(reopened.size()).toBe(2);
+
+        const results = await reopened.similaritySearch('beta', 1, { equals: { category: 'science' } });
+        expect(results[0].document).toEqual({ id: 'b', content: 'beta', metadata: { category: 'science' } });
+        await reopened.close();
+    });
+
+    it('should recover writes from the log without a clean close', async () => {
+        const store = await open();
+        await store.addDocuments([{ id: 'a', content: 'alpha' }, { id: 'b', content: 'beta' }]);
+        await store.deleteDocuments(['a']);
+        // Simulate a crash: no close(), no snapshot
+
+        const recovered = await open();
+        expect(recovered.size()).toBe(1);
+        expect((await recovered.similaritySearch('beta', 5)).map((r) => r.document.id)).toEqual(['b']);
+        await recovered.close();
+        await store.close();
+    });
+
+    it('should log metadata updates and filtered deletes', async () => {
+        const store = await open();
+        await store.addDocuments([
+            { id: 'a', content: 'alpha', metadata: { source: 'x.md' } },
+            { id: 'b', content: 'beta', metadata: { source: 'y.md' } },
+        ]);
+        await store.updateMetadata({ equals: { source: 'x.md' } }, { reviewed: true });
+        await store.deleteByFilter({ equals: { source: 'y.md' } });
+        // No close(): both changes must be recovered from the log
+
+        const recovered = await open();
+        expect(await recovered.listDocuments()).toEqual({
+            documents: [{ id: 'a', content: 'alpha', metadata: { source: 'x.md', reviewed: true } }],
+        });
+        await recovered.close();
+        await store.close();
+    });
+
+    it('should discard a torn trailing log entry', async () => {
+        const store = await open();
+        await store.addDocuments([{ id: 'a', content: 'alpha' }]);
+        await store.close();
+        await fs.appendFile(path.join(directory, 'wal.log'), '{"op":"put","documents":[{"docu');
+
+        const recovered = await open();
+        expect(recovered.size()).toBe(1);
+        await recovered.addDocuments([{ id: 'b', content: 'beta' }]);
+        await recovered.close();
+
+        const reopened = await open();
+        expect(reopened.size()).toBe(2);
+        await reopened.close();
+    });
+
+    it('should compact the log into a snapshot once the threshold is reached', async () => {
+        const store = await open(2);
+        await store.addDocuments([{ id: 'a', content: 'alpha' }]);
+        await store.addDocuments([{ id: 'b', content: 'beta' }]);
+
+        const log = await fs.readFile(path.join(directory, 'wal.log'), 'utf-8');
+        expect(log).toBe('');
+        const snapshot = JSON.parse(await fs.readFile(path.join(directory, 'snapshot.json'), 'utf-8'));
+        expect(snapshot.documents.length).toBe(2);
+
+        // Snapshot plus one log entry
+        await store.addDocuments([{ id: 'c', content: 'gamma' }]);
+        const reopened = await open();
+        expect(reopened.size()).toBe(3);
+
+        await reopened.close();
+        await store.close();
+    });
+
+    it('should keep writes that land while a snapshot is being written', async () => {
+        const store = await open(3);
+        await Promise.all(
+            Array.from({ length: 10 }, (_, idx) => store.addDocuments([{ id: `d${idx}`, content: `doc ${idx}` }]))
+        );
+        await store.deleteDocuments(['d0']);
+        // Simulate a crash: no close()
+
+        const recovered = await open(3);
+        expect(recovered.size()).toBe(9);
+        expect((await recovered.getDocuments(['d0', 'd9'])).map((doc) => doc.id)).toEqual(['d9']);
+        await recovered.close();
+        await store.close();
+    });
+
+    it('should persist the HNSW graph in snapshots', async () => {
+        const store = new FileVectorStore(directory, embeddingModel, { hnsw: { M: 4 } });
+        await store.initialize();
+        await store.addDocuments([{ id: 'a', content: 'alpha' }, { id: 'b', content: 'beta' }]);
+        await store.close();
+
+        const snapshot = JSON.parse(await fs.readFile(path.join(directory, 'snapshot.json'), 'utf-8'));
+        expect(snapshot.index.nodes.length).toBe(2);
+
+        const reopened = new FileVectorStore(directory, embeddingModel, { hnsw: { M: 4 } });
+        await reopened.initialize();
+        expect((await reopened.similaritySearch('beta', 1))[0].document.id).toBe('b');
+        await reopened.close();
+    });
+
+    it('should reject a snapshot built with a different embedding dimension', async () => {
+        const store = await open();
+        await store.addDocuments([{ id: 'a', content: 'alpha' }]);
+        await store.close();
+
+        const mismatched = new FileVectorStore(directory, new MockEmbeddingModel(8));
+        await expect(mismatched.initialize()).rejects.toThrow('does not match embedding dimension');
+    });
+});
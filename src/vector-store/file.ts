@@ -0,0 +1,264 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { EmbeddingModel } from '../core/types';
+import { InMemoryVectorStore, LocalHNSWOptions, StoredDocument } from './memory';
+import { HNSWIndex, SerializedHNSWIndex } from './hnsw';
+
+const SNAPSHOT_FILE = 'snapshot.json';
+const LOG_FILE = 'wal.log';
+
+/**
+ * A single write recorded in the append-only log
+ */
+type LogEntry = { op: 'put'; documents: StoredDocument[] } | { op: 'delete'; ids: string[] };
+
+/**
+ * Compacted on-disk representation of the whole store
+ */
+interface Snapshot {
+    version: 1;
+    dimension: number;
+    documents: StoredDocument[];
+    /** HNSW graph at the time of the snapshot, so it need not be rebuilt on load */
+    index?: SerializedHNSWIndex;
+}
+
+/**
+ * File vector store options
+ */
+export interface FileVectorStoreOptions {
+    /** Number of log entries after which the log is compacted into a snapshot (default: 1000) */
+    compactionThreshold?: number;
+    /** Search through an HNSW index instead of brute-force cosine */
+    hnsw?: LocalHNSWOptions;
+}
+
+/**
+ * File-persisted vector store implementation
+ *
+ * Every write is appended to `wal.log` and fsynced before it becomes visible,
+ * and the log is periodically folded into `snapshot.json`. Snapshots are
+ * written to a temporary file and renamed into place, so a crash at any
+ * point leaves either the old or the new snapshot plus a replayable log.
+ * Appends and compaction run one at a time, so a snapshot never drops a
+ * write that landed while it was being written.
+ */
+export class FileVectorStore extends InMemoryVectorStore {
+    private directory: string;
+    private compactionThreshold: number;
+    private log?: fs.FileHandle;
+    private logEntries = 0;
+    /** Tail of the queue that serializes log appends and compaction */
+    private writeQueue: Promise<void> = Promise.resolve();
+    protected storeName = 'file store';
+
+    constructor(directory: string, embeddingModel: EmbeddingModel, options: FileVectorStoreOptions = {}) {
+        super(embeddingModel, { hnsw: options.hnsw });
+        this.directory = directory;
+        this.compactionThreshold = options.compactionThreshold ?? 1000;
+    }
+
+    async initialize(): Promise<void> {
+        try {
+            await fs.mkdir(this.directory, { recursive: true });
+
+            this.documents.clear();
+            this.index = this.createIndex();
+            await this.loadSnapshot();
+            this.logEntries = await this.replayLog();
+
+            this.log = await fs.open(this.logPath(), 'a');
+            console.log(`Loaded ${this.documents.size} documents from ${this.directory}`);
+        } catch (error) {
+            throw new Error(`Failed to initialize file store: ${error} `);
+        }
+    }
+
+    /**
+     * Compact the log into a fresh snapshot
+     */
+    async snapshot(): Promise<void> {
+        await this.exclusive(() => this.writeSnapshot());
+    }
+
+    async close(): Promise<void> {
+        await this.exclusive(async () => {
+            if (this.log) {
+                if (this.logEntries > 0) {
+                    await this.writeSnapshot();
+                }
+                await this.log.close();
+                this.log = undefined;
+            }
+        });
+        await super.close();
+    }
+
+    protected async putDocuments(records: StoredDocument[]): Promise<void> {
+        await this.exclusive(async () => {
+            await this.append({ op: 'put', documents: records });
+            await super.putDocuments(records);
+            await this.compactIfNeeded();
+        });
+    }
+
+    protected async removeDocuments(ids: string[]): Promise<void> {
+        await this.exclusive(async () => {
+            await this.append({ op: 'delete', ids });
+            await super.removeDocuments(ids);
+            await this.compactIfNeeded();
+        });
+    }
+
+    /**
+     * Run a write after every earlier one has finished, whether or not it failed
+     */
+    private exclusive<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.writeQueue.then(task);
+        this.writeQueue = result.then(
+            () => undefined,
+            () => undefined
+        );
+        return result;
+    }
+
+    /**
+     * Write the snapshot and empty the log; callers must hold the write queue
+     */
+    private async writeSnapshot(): Promise<void> {
+        const snapshot: Snapshot = {
+            version: 1,
+            dimension: this.dimension,
+            documents: Array.from(this.documents.values()),
+            index: this.index?.serialize(),
+        };
+
+        // Write to a temp file and rename so the snapshot is replaced atomically
+        const tempPath = `${this.snapshotPath()}.tmp`;
+        const handle = await fs.open(tempPath, 'w');
+        try {
+            await handle.writeFile(JSON.stringify(snapshot));
+            await handle.sync();
+        } finally {
+            await handle.close();
+        }
+        await fs.rename(tempPath, this.snapshotPath());
+        await this.syncDirectory();
+
+        // Entries already in the snapshot are safe to drop; replaying them would be idempotent anyway
+        if (this.log) {
+            await this.log.truncate(0);
+            await this.log.sync();
+        }
+        this.logEntries = 0;
+    }
+
+    /**
+     * Make the rename durable; platforms that cannot open directories skip this
+     */
+    private async syncDirectory(): Promise<void> {
+        let handle: fs.FileHandle;
+        try {
+            handle = await fs.open(this.directory, 'r');
+        } catch (error: any) {
+            if (['EISDIR', 'EPERM', 'EACCES'].includes(error.code)) return;
+            throw error;
+        }
+        try {
+            await handle.sync();
+        } catch (error: any) {
+            if (!['EINVAL', 'EPERM', 'EBADF'].includes(error.code)) throw error;
+        } finally {
+            await handle.close();
+        }
+    }
+
+    private async append(entry: LogEntry): Promise<void> {
+        if (!this.log) {
+            throw new Error('File store is not initialized');
+        }
+
+        await this.log.write(JSON.stringify(entry) + '\n');
+        await this.log.datasync();
+        this.logEntries++;
+    }
+
+    private async compactIfNeeded(): Promise<void> {
+        if (this.logEntries >= this.compactionThreshold) {
+            await this.writeSnapshot();
+        }
+    }
+
+    private async loadSnapshot(): Promise<void> {
+        let raw: string;
+        try {
+            raw = await fs.readFile(this.snapshotPath(), 'utf-8');
+        } catch (error: any) {
+            if (error.code === 'ENOENT') return;
+            throw error;
+        }
+
+        const snapshot: Snapshot = JSON.parse(raw);
+        if (snapshot.dimension !== this.dimension) {
+            throw new Error(
+                `Snapshot dimension ${snapshot.dimension} does not match embedding dimension ${this.dimension}`
+            );
+        }
+
+        if (this.index && snapshot.index) {
+            for (const record of snapshot.documents) {
+                this.documents.set(record.document.id!, record);
+            }
+            this.index = HNSWIndex.deserialize(snapshot.index);
+        } else {
+            this.applyPut(snapshot.documents);
+        }
+    }
+
+    /**
+     * Replay the log on top of the snapshot
+     * @returns Number of entries replayed
+     */
+    private async replayLog(): Promise<number> {
+        let buffer: Buffer;
+        try {
+            buffer = await fs.readFile(this.logPath());
+        } catch (error: any) {
+            if (error.code === 'ENOENT') return 0;
+            throw error;
+        }
+
+        // Anything after the last newline is a write torn by a crash; drop it
+        const end = buffer.lastIndexOf('\n') + 1;
+        if (end < buffer.length) {
+            console.warn(`Discarding ${buffer.length - end} bytes of incomplete log entry`);
+            await fs.truncate(this.logPath(), end);
+        }
+
+        const lines = buffer.subarray(0, end).toString('utf-8').split('\n').filter((line) => line);
+        lines.forEach((line, idx) => {
+            let entry: LogEntry;
+            try {
+                entry = JSON.parse(line);
+            } catch {
+                throw new Error(`Corrupt log entry at line ${idx + 1} of ${this.logPath()}`);
+            }
+
+            if (entry.op === 'put') {
+                this.applyPut(entry.documents);
+            } else {
+                this.applyRemove(entry.ids);
+            }
+        });
+
+        return lines.length;
+    }
+
+    private snapshotPath(): string {
+        return path.join(this.directory, SNAPSHOT_FILE);
+    }
+
+    private logPath(): string {
+        return path.join(this.directory, LOG_FILE);
+    }
+}
@@ -0,0 +1,115 @@
+import { MetadataFilter } from '../core/types';
+import { parseFilterExpression, toFilterExpression } from '../vector-store/filters/filter-expression';
+
+describe('parseFilterExpression', () => {
+    it('should compile conditions joined by AND into one filter', () => {
+        expect(parseFilterExpression('category = "tech" AND (year >= 2023 OR tags IN ["ai","ml"])')).toEqual({
+            equals: { category: 'tech' },
+            or: [{ greaterThanOrEqual: { year: 2023 } }, { in: { tags: ['ai', 'ml'] } }],
+        });
+    });
+
+    it('should bind NOT tighter than AND, and AND tighter than OR', () => {
+        expect(parseFilterExpression('NOT a = 1 AND b = 2 OR c = 3')).toEqual({
+            or: [{ not: { equals: { a: 1 } }, equals: { b: 2 } }, { equals: { c: 3 } }],
+        });
+    });
+
+    it('should compile every operator', () => {
+        expect(
+            parseFilterExpression(
+                'draft != true and status not in ["x"] and tags contains any ["a"] ' +
+                    'and tags contains all ["b", "c"] and reviewer exists and archived not exists ' +
+                    'and title matches "vector search" and slug starts with "guides/" and score < -1.5 ' +
+                    'and `odd key` <= 3 and published >= date("2024-01-01") ' +
+                    'and published < date("2024-07-01T00:00:00Z")'
+            )
+        ).toEqual({
+            notEquals: { draft: true },
+            notIn: { status: ['x'] },
+            containsAny: { tags: ['a'] },
+            containsAll: { tags: ['b', 'c'] },
+            exists: { reviewer: true, archived: false },
+            textMatch: { title: 'vector search' },
+            prefix: { slug: 'guides/' },
+            lessThan: { score: -1.5 },
+            lessThanOrEqual: { 'odd key': 3 },
+            dateRange: { published: { gte: '2024-01-01', lt: '2024-07-01T00:00:00Z' } },
+        });
+    });
+
+    it('should keep repeated conditions on a field in an and list', () => {
+        expect(parseFilterExpression('tags = "a" AND tags = "b"')).toEqual({
+            equals: { tags: 'a' },
+            and: [{ equals: { tags: 'b' } }],
+        });
+    });
+
+    it('should treat an empty expression as the empty filter', () => {
+        expect(parseFilterExpression('  ')).toEqual({});
+    });
+
+    it.each([
+        [
+            'category = ',
+            'Invalid filter expression at position 11: expected a value (string, number, true or false), found end of input',
+        ],
+        ['year > "2023"', 'Invalid filter expression at position 7: expected a number or date("..."), found ""2023""'],
+        ['(a = 1', 'Invalid filter expression at position 6: expected ")", found end of input'],
+        ['a = 1 b = 2', 'Invalid filter expression at position 6: expected AND, OR or end of input, found "b"'],
+        ['a IN [1 2]', 'Invalid filter expression at position 8: expected "," or "]", found "2"'],
+        ['a ~ 1', 'Invalid filter expression at position 2: unexpected character "~"'],
+        ['a = "open', 'Invalid filter expression at position 4: unterminated string'],
+        ['a contains some [1]', 'Invalid filter expression at position 11: expected ANY or ALL, found "some"'],
+        ['d > date("soon")', 'Invalid filter expression at position 9: Invalid date for "d": soon'],
+    ])('should report the position and expected token for %s', (expression, message) => {
+        expect(() => parseFilterExpression(expression)).toThrow(message);
+    });
+});
+
+describe('toFilterExpression', () => {
+    it('should serialize to the expression syntax', () => {
+        expect(
+            toFilterExpression({
+                equals: { category: 'tech' },
+                or: [{ greaterThanOrEqual: { year: 2023 } }, { in: { tags: ['ai', 'ml'] } }],
+            })
+        ).toBe('category = "tech" AND (year >= 2023 OR tags IN ["ai", "ml"])');
+    });
+
+    it('should quote fields that are not plain identifiers or are keywords', () => {
+        expect(toFilterExpression({ equals: { 'odd `key`': 1, date: 2, 'a.b': 3 } })).toBe(
+            '`odd \\`key\\`` = 1 AND `date` = 2 AND a.b = 3'
+        );
+    });
+
+    it('should leave a top-level OR unparenthesized and parenthesize NOT of several conditions', () => {
+        expect(toFilterExpression({ or: [{ equals: { a: 1 } }, { equals: { b: 2 }, exists: { c: true } }] })).toBe(
+            'a = 1 OR b = 2 AND c EXISTS'
+        );
+        expect(toFilterExpression({ not: { equals: { a: 1 }, lessThan: { b: 2 } } })).toBe('NOT (a = 1 AND b < 2)');
+    });
+
+    it('should round-trip through the parser', () => {
+        const filters: MetadataFilter[] = [
+            {},
+            { equals: { category: 'tech "quoted"' }, notIn: { status: [] }, containsAll: { tags: ['a', 'b'] } },
+            {
+                or: [
+                    { and: [{ equals: { a: 1 } }, { equals: { b: false } }] },
+                    { not: { or: [{ prefix: { s: 'x' } }, { textMatch: { t: 'y' } }] } },
+                ],
+            },
+            { dateRange: { published: { gt: '2024-01-01', lte: '2024-12-31' } }, exists: { draft: false } },
+            { not: { not: { lessThan: { year: 2000 } } } },
+        ];
+        for (const filter of filters) {
+            const expression = toFilterExpression(filter);
+            expect(toFilterExpression(parseFilterExpression(expression))).toBe(expression);
+        }
+    });
+
+    it('should reject a NOT of an empty filter', () => {
+        expect(() => toFilterExpression({ not: {} })).toThrow('Cannot express NOT of an empty filter');
+    });
+});
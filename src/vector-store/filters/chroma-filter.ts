@@ -0,0 +1,92 @@
+import { MetadataFilter } from '../../core/types';
+import { expandFilter, rejectUnsupported } from './operators';
+
+/**
+ * Chroma `where` filter format
+ */
+export type ChromaWhere = { $and: ChromaWhere[] } | { $or: ChromaWhere[] } | Record<string, Record<string, any>>;
+
+/**
+ * Chroma rejects $and/$or with fewer than two operands
+ */
+function combine(operator: '$and' | '$or', clauses: ChromaWhere[]): ChromaWhere {
+    return clauses.length === 1 ? clauses[0] : ({ [operator]: clauses } as ChromaWhere);
+}
+
+/**
+ * Convert unified MetadataFilter to Chroma `where` format
+ * Negations are rejected: Chroma has no NOT, and `$ne`/`$nin` skip documents
+ * without the field, which a negated condition has to match.
+ * @returns undefined when the filter has no conditions, null when it matches nothing
+ */
+export function toChromaFilter(input: MetadataFilter): ChromaWhere | undefined | null {
+    rejectUnsupported(input, ['not', 'notEquals', 'notIn', 'exists', 'textMatch', 'prefix', 'dateRange'], 'Chroma');
+    const filter = expandFilter(input);
+    const clauses: ChromaWhere[] = [];
+
+    // Handle equals
+    if (filter.equals) {
+        for (const [key, value] of Object.entries(filter.equals)) {
+            clauses.push({ [key]: { $eq: value } });
+        }
+    }
+
+    // Handle greaterThan
+    if (filter.greaterThan) {
+        for (const [key, value] of Object.entries(filter.greaterThan)) {
+            clauses.push({ [key]: { $gt: value } });
+        }
+    }
+
+    // Handle lessThan
+    if (filter.lessThan) {
+        for (const [key, value] of Object.entries(filter.lessThan)) {
+            clauses.push({ [key]: { $lt: value } });
+        }
+    }
+
+    // Handle greaterThanOrEqual
+    if (filter.greaterThanOrEqual) {
+        for (const [key, value] of Object.entries(filter.greaterThanOrEqual)) {
+            clauses.push({ [key]: { $gte: value } });
+        }
+    }
+
+    // Handle lessThanOrEqual
+    if (filter.lessThanOrEqual) {
+        for (const [key, value] of Object.entries(filter.lessThanOrEqual)) {
+            clauses.push({ [key]: { $lte: value } });
+        }
+    }
+
+    // Handle in
+    if (filter.in) {
+        for (const [key, values] of Object.entries(filter.in)) {
+            // An empty list matches nothing, and neither do the conditions it is ANDed with
+            if (values.length === 0) return null;
+            clauses.push({ [key]: { $in: values } });
+        }
+    }
+
+    // Handle AND
+    if (filter.and && filter.and.length > 0) {
+        for (const subFilter of filter.and) {
+            const converted = toChromaFilter(subFilter);
+            if (converted === null) return null;
+            if (converted) clauses.push(converted);
+        }
+    }
+
+    // Handle OR
+    if (filter.or && filter.or.length > 0) {
+        const converted = filter.or.map(toChromaFilter);
+        // An empty branch matches everything, and so does the whole OR; branches matching nothing drop out
+        if (converted.every((where) => where !== undefined)) {
+            const branches = converted.filter((where): where is ChromaWhere => where !== null);
+            if (branches.length === 0) return null;
+            clauses.push(combine('$or', branches));
+        }
+    }
+
+    return clauses.length > 0 ? combine('$and', clauses) : undefined;
+}
@@ -0,0 +1,442 @@
+import { DateRange, MetadataFilter } from '../../core/types';
+import { parseDateBound } from './operators';
+
+/**
+ * Filter expression syntax, compiled to and from MetadataFilter:
+ *
+ *     category = "tech" AND (year >= 2023 OR tags IN ["ai", "ml"])
+ *
+ * Conditions: `=`, `!=`, `>`, `>=`, `<`, `<=`, `IN [..]`, `NOT IN [..]`,
+ * `CONTAINS ANY [..]`, `CONTAINS ALL [..]`, `EXISTS`, `NOT EXISTS`,
+ * `MATCHES "text"`, `STARTS WITH "prefix"`, and comparisons against
+ * `date("2024-01-01")` for date ranges. Combine with `AND`, `OR`, `NOT` and
+ * parentheses; NOT binds tighter than AND, and AND tighter than OR.
+ * Keywords are case-insensitive. Strings are double-quoted JSON strings;
+ * fields that are not plain identifiers are quoted with backticks.
+ */
+
+type Scalar = string | number | boolean;
+
+interface Token {
+    type: 'punct' | 'op' | 'string' | 'number' | 'identifier' | 'field' | 'end';
+    /** Source text of the token */
+    text: string;
+    /** Zero-based offset in the expression */
+    position: number;
+    value?: Scalar;
+}
+
+const KEYWORDS = new Set([
+    'AND',
+    'OR',
+    'NOT',
+    'IN',
+    'CONTAINS',
+    'ANY',
+    'ALL',
+    'EXISTS',
+    'MATCHES',
+    'STARTS',
+    'WITH',
+    'TRUE',
+    'FALSE',
+    'DATE',
+]);
+
+const COMPARISONS: Record<string, 'greaterThan' | 'greaterThanOrEqual' | 'lessThan' | 'lessThanOrEqual'> = {
+    '>': 'greaterThan',
+    '>=': 'greaterThanOrEqual',
+    '<': 'lessThan',
+    '<=': 'lessThanOrEqual',
+};
+
+const DATE_BOUNDS: Record<string, keyof DateRange> = { '>': 'gt', '>=': 'gte', '<': 'lt', '<=': 'lte' };
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+
+function syntaxError(position: number, message: string): Error {
+    return new Error(`Invalid filter expression at position ${position}: ${message}`);
+}
+
+function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let pos = 0;
+
+    while (pos < expression.length) {
+        const char = expression[pos];
+        const rest = expression.slice(pos);
+
+        if (/\s/.test(char)) {
+            pos++;
+            continue;
+        }
+
+        if ('()[],'.includes(char)) {
+            tokens.push({ type: 'punct', text: char, position: pos });
+            pos++;
+            continue;
+        }
+
+        const op = /^(!=|>=|<=|=|>|<)/.exec(rest);
+        if (op) {
+            tokens.push({ type: 'op', text: op[0], position: pos });
+            pos += op[0].length;
+            continue;
+        }
+
+        if (char === '"') {
+            const match = /^"(?:[^"\\]|\\.)*"/.exec(rest);
+            if (!match) throw syntaxError(pos, 'unterminated string');
+            let value: string;
+            try {
+                value = JSON.parse(match[0]);
+            } catch {
+                throw syntaxError(pos, `invalid string ${match[0]}`);
+            }
+            tokens.push({ type: 'string', text: match[0], position: pos, value });
+            pos += match[0].length;
+            continue;
+        }
+
+        if (char === '`') {
+            const match = /^`((?:[^`\\]|\\.)*)`/.exec(rest);
+            if (!match) throw syntaxError(pos, 'unterminated quoted field');
+            const value = match[1].replace(/\\(.)/g, '$1');
+            tokens.push({ type: 'field', text: match[0], position: pos, value });
+            pos += match[0].length;
+            continue;
+        }
+
+        const number = /^-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(rest);
+        if (number) {
+            tokens.push({ type: 'number', text: number[0], position: pos, value: Number(number[0]) });
+            pos += number[0].length;
+            continue;
+        }
+
+        const identifier = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(rest);
+        if (identifier) {
+            tokens.push({ type: 'identifier', text: identifier[0], position: pos });
+            pos += identifier[0].length;
+            continue;
+        }
+
+        throw syntaxError(pos, `unexpected character "${char}"`);
+    }
+
+    tokens.push({ type: 'end', text: '', position: expression.length });
+    return tokens;
+}
+
+function describe(token: Token): string {
+    return token.type === 'end' ? 'end of input' : `"${token.text}"`;
+}
+
+/**
+ * AND conditions together, merging them into one filter object where keys don't collide
+ */
+function conjoin(parts: MetadataFilter[]): MetadataFilter {
+    if (parts.length === 1) return parts[0];
+
+    const merged: Record<string, any> = {};
+    const rest: MetadataFilter[] = [];
+    for (const part of parts) {
+        const keys = Object.keys(part) as (keyof MetadataFilter)[];
+        const [operator] = keys;
+        const conditions = part[operator] as Record<string, any>;
+
+        if (keys.length !== 1) {
+            rest.push(part);
+        } else if (operator === 'or' || operator === 'not') {
+            if (merged[operator] === undefined) merged[operator] = conditions;
+            else rest.push(part);
+        } else if (operator === 'and') {
+            rest.push(...part.and!);
+        } else {
+            const [field] = Object.keys(conditions);
+            const existing = merged[operator]?.[field];
+            if (existing === undefined) {
+                merged[operator] = { ...merged[operator], [field]: conditions[field] };
+            } else if (
+                operator === 'dateRange' &&
+                Object.keys(conditions[field]).every((bound) => !(bound in existing))
+            ) {
+                merged[operator][field] = { ...existing, ...conditions[field] };
+            } else {
+                rest.push(part);
+            }
+        }
+    }
+
+    if (rest.length > 0) merged.and = rest;
+    return merged as MetadataFilter;
+}
+
+/**
+ * Compile a filter expression into a MetadataFilter
+ *
+ * An empty expression is the empty filter, which matches everything.
+ * @throws Error with the zero-based position and the expected token, e.g.
+ * `Invalid filter expression at position 11: expected a value, found end of input`
+ */
+export function parseFilterExpression(expression: string): MetadataFilter {
+    const tokens = tokenize(expression);
+    let index = 0;
+
+    const peek = (): Token => tokens[index];
+    const next = (): Token => tokens[index++];
+    const isKeyword = (token: Token, keyword: string) =>
+        token.type === 'identifier' && token.text.toUpperCase() === keyword;
+    const fail = (expected: string, token: Token = peek()): never => {
+        throw syntaxError(token.position, `expected ${expected}, found ${describe(token)}`);
+    };
+    const expectPunct = (text: string) => {
+        if (peek().type !== 'punct' || peek().text !== text) fail(`"${text}"`);
+        next();
+    };
+    const expectKeyword = (keyword: string) => {
+        if (!isKeyword(peek(), keyword)) fail(keyword);
+        next();
+    };
+
+    const parseValue = (): Scalar => {
+        const token = peek();
+        if (token.type === 'string' || token.type === 'number') {
+            next();
+            return token.value!;
+        }
+        if (isKeyword(token, 'TRUE') || isKeyword(token, 'FALSE')) {
+            next();
+            return isKeyword(token, 'TRUE');
+        }
+        return fail('a value (string, number, true or false)');
+    };
+
+    const parseString = (): string => {
+        if (peek().type !== 'string') fail('a string');
+        return next().value as string;
+    };
+
+    const parseList = (): Scalar[] => {
+        expectPunct('[');
+        const values: Scalar[] = [];
+        if (peek().type === 'punct' && peek().text === ']') {
+            next();
+            return values;
+        }
+        for (;;) {
+            values.push(parseValue());
+            const token = next();
+            if (token.type === 'punct' && token.text === ']') return values;
+            if (token.type !== 'punct' || token.text !== ',') fail('"," or "]"', token);
+        }
+    };
+
+    const parseCondition = (): MetadataFilter => {
+        const fieldToken = peek();
+        let field: string;
+        if (fieldToken.type === 'field') {
+            field = fieldToken.value as string;
+        } else if (fieldToken.type === 'identifier' && !['AND', 'OR'].includes(fieldToken.text.toUpperCase())) {
+            field = fieldToken.text;
+        } else {
+            return fail('a field name or "("');
+        }
+        next();
+
+        const token = peek();
+        if (token.type === 'op') {
+            next();
+            if (token.text === '=') return { equals: { [field]: parseValue() } };
+            if (token.text === '!=') return { notEquals: { [field]: parseValue() } };
+
+            // date("...") compares instants, anything else must be a number
+            if (isKeyword(peek(), 'DATE')) {
+                next();
+                expectPunct('(');
+                const dateToken = peek();
+                const date = parseString();
+                try {
+                    parseDateBound(field, date);
+                } catch (error) {
+                    throw syntaxError(dateToken.position, (error as Error).message);
+                }
+                expectPunct(')');
+                return { dateRange: { [field]: { [DATE_BOUNDS[token.text]]: date } } };
+            }
+            if (peek().type !== 'number') fail('a number or date("...")');
+            return { [COMPARISONS[token.text]]: { [field]: next().value } };
+        }
+
+        if (isKeyword(token, 'IN')) {
+            next();
+            return { in: { [field]: parseList() } };
+        }
+        if (isKeyword(token, 'NOT')) {
+            next();
+            if (isKeyword(peek(), 'IN')) {
+                next();
+                return { notIn: { [field]: parseList() } };
+            }
+            expectKeyword('EXISTS');
+            return { exists: { [field]: false } };
+        }
+        if (isKeyword(token, 'CONTAINS')) {
+            next();
+            if (isKeyword(peek(), 'ANY')) {
+                next();
+                return { containsAny: { [field]: parseList() } };
+            }
+            if (!isKeyword(peek(), 'ALL')) fail('ANY or ALL');
+            next();
+            return { containsAll: { [field]: parseList() } };
+        }
+        if (isKeyword(token, 'EXISTS')) {
+            next();
+            return { exists: { [field]: true } };
+        }
+        if (isKeyword(token, 'MATCHES')) {
+            next();
+            return { textMatch: { [field]: parseString() } };
+        }
+        if (isKeyword(token, 'STARTS')) {
+            next();
+            expectKeyword('WITH');
+            return { prefix: { [field]: parseString() } };
+        }
+
+        return fail('an operator (=, !=, >, >=, <, <=, IN, NOT IN, CONTAINS, EXISTS, MATCHES, STARTS WITH)');
+    };
+
+    // Forward reference: parentheses recurse into the lowest-precedence rule
+    let parseOr: () => MetadataFilter;
+
+    const parseUnary = (): MetadataFilter => {
+        if (isKeyword(peek(), 'NOT')) {
+            next();
+            return { not: parseUnary() };
+        }
+        if (peek().type === 'punct' && peek().text === '(') {
+            next();
+            const inner = parseOr();
+            expectPunct(')');
+            return inner;
+        }
+        return parseCondition();
+    };
+
+    const parseAnd = (): MetadataFilter => {
+        const parts = [parseUnary()];
+        while (isKeyword(peek(), 'AND')) {
+            next();
+            parts.push(parseUnary());
+        }
+        return conjoin(parts);
+    };
+
+    parseOr = () => {
+        const parts = [parseAnd()];
+        while (isKeyword(peek(), 'OR')) {
+            next();
+            parts.push(parseAnd());
+        }
+        return parts.length === 1 ? parts[0] : { or: parts };
+    };
+
+    if (peek().type === 'end') return {};
+    const filter = parseOr();
+    if (peek().type !== 'end') fail('AND, OR or end of input');
+    return filter;
+}
+
+function formatField(field: string): string {
+    return IDENTIFIER.test(field) && !KEYWORDS.has(field.toUpperCase())
+        ? field
+        : `\`${field.replace(/[`\\]/g, '\\$&')}\``;
+}
+
+function formatValue(value: Scalar): string {
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+        throw new Error(`Cannot express ${value} in a filter expression`);
+    }
+    return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+function formatList(values: Scalar[]): string {
+    return `[${values.map(formatValue).join(', ')}]`;
+}
+
+/**
+ * OR branches as text, or undefined when a branch is empty and the OR matches everything
+ */
+function formatOr(branches: MetadataFilter[]): string | undefined {
+    const texts = branches.map((branch) => clauses(branch).join(' AND '));
+    return texts.some((text) => text === '') ? undefined : texts.join(' OR ');
+}
+
+/**
+ * The conditions of a filter as expressions to AND together; OR groups come parenthesized
+ */
+function clauses(filter: MetadataFilter): string[] {
+    const result: string[] = [];
+    const each = <T>(conditions: Record<string, T> | undefined, format: (field: string, value: T) => string) => {
+        for (const [key, value] of Object.entries(conditions || {})) {
+            result.push(format(formatField(key), value));
+        }
+    };
+
+    each(filter.equals, (field, value) => `${field} = ${formatValue(value)}`);
+    each(filter.greaterThan, (field, value) => `${field} > ${formatValue(value)}`);
+    each(filter.lessThan, (field, value) => `${field} < ${formatValue(value)}`);
+    each(filter.greaterThanOrEqual, (field, value) => `${field} >= ${formatValue(value)}`);
+    each(filter.lessThanOrEqual, (field, value) => `${field} <= ${formatValue(value)}`);
+    each(filter.in, (field, values) => `${field} IN ${formatList(values)}`);
+    each(filter.exists, (field, expected) => `${field} ${expected ? 'EXISTS' : 'NOT EXISTS'}`);
+    each(filter.notEquals, (field, value) => `${field} != ${formatValue(value)}`);
+    each(filter.notIn, (field, values) => `${field} NOT IN ${formatList(values)}`);
+    each(filter.containsAny, (field, values) => `${field} CONTAINS ANY ${formatList(values)}`);
+    each(filter.containsAll, (field, values) => `${field} CONTAINS ALL ${formatList(values)}`);
+    each(filter.textMatch, (field, query) => `${field} MATCHES ${formatValue(query)}`);
+    each(filter.prefix, (field, prefix) => `${field} STARTS WITH ${formatValue(prefix)}`);
+    for (const [key, range] of Object.entries(filter.dateRange || {})) {
+        for (const [operator, bound] of Object.entries(DATE_BOUNDS)) {
+            if (range[bound] !== undefined) {
+                result.push(`${formatField(key)} ${operator} date(${formatValue(range[bound]!)})`);
+            }
+        }
+    }
+
+    for (const subFilter of filter.and || []) {
+        result.push(...clauses(subFilter));
+    }
+
+    if (filter.or && filter.or.length === 1) {
+        result.push(...clauses(filter.or[0]));
+    } else if (filter.or && filter.or.length > 1) {
+        const text = formatOr(filter.or);
+        if (text !== undefined) result.push(`(${text})`);
+    }
+
+    if (filter.not) {
+        const inner = clauses(filter.not);
+        if (inner.length === 0) {
+            throw new Error('Cannot express NOT of an empty filter in a filter expression');
+        }
+        result.push(inner.length === 1 ? `NOT ${inner[0]}` : `NOT (${inner.join(' AND ')})`);
+    }
+
+    return result;
+}
+
+/**
+ * Serialize a MetadataFilter to the filter expression syntax
+ * parseFilterExpression(toFilterExpression(filter)) matches the same documents as filter.
+ * @returns Empty string for a filter with no conditions
+ */
+export function toFilterExpression(filter: MetadataFilter): string {
+    const keys = Object.keys(filter).filter((key) => filter[key as keyof MetadataFilter] !== undefined);
+    if (keys.length === 1 && keys[0] === 'or' && filter.or!.length > 1) {
+        return formatOr(filter.or!) ?? '';
+    }
+    return clauses(filter).join(' AND ');
+}
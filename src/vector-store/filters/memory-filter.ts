@@ -0,0 +1,168 @@
+import { Metadata, MetadataFilter } from '../../core/types';
+import { parseDateBound, textMatches } from './operators';
+
+type MetadataValue = Metadata[string];
+type Scalar = string | number | boolean;
+
+/**
+ * Get the scalar values stored under a metadata key.
+ * Array fields match if any of their elements match, like Qdrant and OpenSearch.
+ */
+function valuesOf(metadata: Metadata, key: string): Scalar[] {
+    const value: MetadataValue | undefined = metadata[key];
+    if (value === undefined || value === null) return [];
+    return Array.isArray(value) ? value : [value];
+}
+
+function someValue(metadata: Metadata, key: string, predicate: (value: Scalar) => boolean): boolean {
+    return valuesOf(metadata, key).some(predicate);
+}
+
+function compareNumber(
+    metadata: Metadata,
+    key: string,
+    predicate: (value: number) => boolean
+): boolean {
+    return someValue(metadata, key, (value) => typeof value === 'number' && predicate(value));
+}
+
+/**
+ * Evaluate a unified MetadataFilter against a document's metadata, without a backend
+ * Mirrors the semantics of the store translators (toQdrantFilter, toOpenSearchFilter, ...):
+ * all top-level conditions must match, `or` needs at least one match
+ * and an empty filter matches everything.
+ */
+export function matchesFilter(metadata: Metadata | undefined, filter: MetadataFilter): boolean {
+    const meta = metadata || {};
+
+    // Handle equals
+    if (filter.equals) {
+        for (const [key, expected] of Object.entries(filter.equals)) {
+            if (!someValue(meta, key, (value) => value === expected)) return false;
+        }
+    }
+
+    // Handle greaterThan
+    if (filter.greaterThan) {
+        for (const [key, bound] of Object.entries(filter.greaterThan)) {
+            if (!compareNumber(meta, key, (value) => value > bound)) return false;
+        }
+    }
+
+    // Handle lessThan
+    if (filter.lessThan) {
+        for (const [key, bound] of Object.entries(filter.lessThan)) {
+            if (!compareNumber(meta, key, (value) => value < bound)) return false;
+        }
+    }
+
+    // Handle greaterThanOrEqual
+    if (filter.greaterThanOrEqual) {
+        for (const [key, bound] of Object.entries(filter.greaterThanOrEqual)) {
+            if (!compareNumber(meta, key, (value) => value >= bound)) return false;
+        }
+    }
+
+    // Handle lessThanOrEqual
+    if (filter.lessThanOrEqual) {
+        for (const [key, bound] of Object.entries(filter.lessThanOrEqual)) {
+            if (!compareNumber(meta, key, (value) => value <= bound)) return false;
+        }
+    }
+
+    // Handle in
+    if (filter.in) {
+        for (const [key, allowed] of Object.entries(filter.in)) {
+            if (!someValue(meta, key, (value) => allowed.includes(value))) return false;
+        }
+    }
+
+    // Handle exists
+    if (filter.exists) {
+        for (const [key, expected] of Object.entries(filter.exists)) {
+            if (valuesOf(meta, key).length > 0 !== expected) return false;
+        }
+    }
+
+    // Handle notEquals
+    if (filter.notEquals) {
+        for (const [key, excluded] of Object.entries(filter.notEquals)) {
+            if (someValue(meta, key, (value) => value === excluded)) return false;
+        }
+    }
+
+    // Handle notIn
+    if (filter.notIn) {
+        for (const [key, excluded] of Object.entries(filter.notIn)) {
+            if (someValue(meta, key, (value) => excluded.includes(value))) return false;
+        }
+    }
+
+    // Handle containsAny
+    if (filter.containsAny) {
+        for (const [key, wanted] of Object.entries(filter.containsAny)) {
+            if (!someValue(meta, key, (value) => wanted.includes(value))) return false;
+        }
+    }
+
+    // Handle containsAll
+    if (filter.containsAll) {
+        for (const [key, wanted] of Object.entries(filter.containsAll)) {
+            const values = valuesOf(meta, key);
+            if (!wanted.every((expected) => values.includes(expected))) return false;
+        }
+    }
+
+    // Handle textMatch
+    if (filter.textMatch) {
+        for (const [key, query] of Object.entries(filter.textMatch)) {
+            if (!someValue(meta, key, (value) => typeof value === 'string' && textMatches(value, query))) return false;
+        }
+    }
+
+    // Handle prefix
+    if (filter.prefix) {
+        for (const [key, prefix] of Object.entries(filter.prefix)) {
+            if (!someValue(meta, key, (value) => typeof value === 'string' && value.startsWith(prefix))) return false;
+        }
+    }
+
+    // Handle dateRange
+    if (filter.dateRange) {
+        for (const [key, range] of Object.entries(filter.dateRange)) {
+            const gt = range.gt !== undefined ? parseDateBound(key, range.gt) : undefined;
+            const gte = range.gte !== undefined ? parseDateBound(key, range.gte) : undefined;
+            const lt = range.lt !== undefined ? parseDateBound(key, range.lt) : undefined;
+            const lte = range.lte !== undefined ? parseDateBound(key, range.lte) : undefined;
+
+            const inRange = someValue(meta, key, (value) => {
+                const time = typeof value === 'string' ? Date.parse(value) : NaN;
+                return (
+                    !Number.isNaN(time) &&
+                    (gt === undefined || time > gt) &&
+                    (gte === undefined || time >= gte) &&
+                    (lt === undefined || time < lt) &&
+                    (lte === undefined || time <= lte)
+                );
+            });
+            if (!inRange) return false;
+        }
+    }
+
+    // Handle AND
+    if (filter.and && filter.and.length > 0) {
+        if (!filter.and.every((subFilter) => matchesFilter(meta, subFilter))) return false;
+    }
+
+    // Handle OR
+    if (filter.or && filter.or.length > 0) {
+        if (!filter.or.some((subFilter) => matchesFilter(meta, subFilter))) return false;
+    }
+
+    // Handle NOT
+    if (filter.not) {
+        if (matchesFilter(meta, filter.not)) return false;
+    }
+
+    return true;
+}
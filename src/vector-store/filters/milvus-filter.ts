@@ -0,0 +1,99 @@
+import { MetadataFilter } from '../../core/types';
+import { expandFilter, rejectUnsupported } from './operators';
+
+type Scalar = string | number | boolean;
+
+/**
+ * Reference a key of the JSON `metadata` field
+ */
+function field(key: string): string {
+    return `metadata[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Milvus literals: JSON-quoted strings, bare numbers and booleans
+ */
+function literal(value: Scalar): string {
+    return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Convert unified MetadataFilter to a Milvus boolean expression over a JSON `metadata` field
+ * Scalar fields are compared directly; array fields match if they contain the value.
+ * @returns Empty string when the filter has no conditions
+ */
+export function toMilvusFilter(input: MetadataFilter): string {
+    rejectUnsupported(input, ['exists', 'textMatch', 'prefix', 'dateRange'], 'Milvus');
+    const filter = expandFilter(input);
+    const conditions: string[] = [];
+
+    // Handle equals
+    if (filter.equals) {
+        for (const [key, value] of Object.entries(filter.equals)) {
+            conditions.push(
+                `(${field(key)} == ${literal(value)} or json_contains(${field(key)}, ${literal(value)}))`
+            );
+        }
+    }
+
+    // Handle greaterThan
+    if (filter.greaterThan) {
+        for (const [key, value] of Object.entries(filter.greaterThan)) {
+            conditions.push(`${field(key)} > ${literal(value)}`);
+        }
+    }
+
+    // Handle lessThan
+    if (filter.lessThan) {
+        for (const [key, value] of Object.entries(filter.lessThan)) {
+            conditions.push(`${field(key)} < ${literal(value)}`);
+        }
+    }
+
+    // Handle greaterThanOrEqual
+    if (filter.greaterThanOrEqual) {
+        for (const [key, value] of Object.entries(filter.greaterThanOrEqual)) {
+            conditions.push(`${field(key)} >= ${literal(value)}`);
+        }
+    }
+
+    // Handle lessThanOrEqual
+    if (filter.lessThanOrEqual) {
+        for (const [key, value] of Object.entries(filter.lessThanOrEqual)) {
+            conditions.push(`${field(key)} <= ${literal(value)}`);
+        }
+    }
+
+    // Handle in
+    if (filter.in) {
+        for (const [key, values] of Object.entries(filter.in)) {
+            const list = `[${values.map(literal).join(', ')}]`;
+            conditions.push(`(${field(key)} in ${list} or json_contains_any(${field(key)}, ${list}))`);
+        }
+    }
+
+    // Handle AND
+    if (filter.and && filter.and.length > 0) {
+        for (const subFilter of filter.and) {
+            const converted = toMilvusFilter(subFilter);
+            if (converted) conditions.push(`(${converted})`);
+        }
+    }
+
+    // Handle OR
+    if (filter.or && filter.or.length > 0) {
+        const converted = filter.or.map(toMilvusFilter);
+        // An empty branch matches everything, and so does the whole OR
+        if (converted.every((expr) => expr)) {
+            conditions.push(`(${converted.map((expr) => `(${expr})`).join(' or ')})`);
+        }
+    }
+
+    // Handle NOT
+    if (filter.not) {
+        const converted = toMilvusFilter(filter.not);
+        if (converted) conditions.push(`not (${converted})`);
+    }
+
+    return conditions.join(' and ');
+}
@@ -1,4 +1,5 @@
 import { MetadataFilter } from '../../core/types';
+import { expandFilter, normalizeDateRange } from './operators';
 
 /**
  * OpenSearch/Elasticsearch query format
@@ -17,8 +18,12 @@ interface OpenSearchQuery {
 
 /**
  * Convert unified MetadataFilter to OpenSearch/Elasticsearch query format
+ *
+ * term and prefix queries are not analyzed, so they match whole values only on
+ * keyword-mapped fields; textMatch needs a text-mapped field.
  */
-export function toOpenSearchFilter(filter: MetadataFilter): OpenSearchQuery {
+export function toOpenSearchFilter(input: MetadataFilter): OpenSearchQuery {
+    const filter = expandFilter(input);
     const boolQuery: OpenSearchQuery = { bool: {} };
 
     // Handle equals
@@ -81,6 +86,50 @@ export function toOpenSearchFilter(filter: MetadataFilter): OpenSearchQuery {
         }
     }
 
+    // Handle exists; documents with only null or empty array values do not match
+    if (filter.exists) {
+        for (const [key, expected] of Object.entries(filter.exists)) {
+            const condition = { exists: { field: `metadata.${key}` } };
+            if (expected) {
+                boolQuery.bool!.must = boolQuery.bool!.must || [];
+                boolQuery.bool!.must.push(condition);
+            } else {
+                boolQuery.bool!.must_not = boolQuery.bool!.must_not || [];
+                boolQuery.bool!.must_not.push(condition);
+            }
+        }
+    }
+
+    // Handle textMatch
+    if (filter.textMatch) {
+        boolQuery.bool!.must = boolQuery.bool!.must || [];
+        for (const [key, query] of Object.entries(filter.textMatch)) {
+            boolQuery.bool!.must.push({
+                match: { [`metadata.${key}`]: { query, operator: 'and' } },
+            });
+        }
+    }
+
+    // Handle prefix
+    if (filter.prefix) {
+        boolQuery.bool!.must = boolQuery.bool!.must || [];
+        for (const [key, value] of Object.entries(filter.prefix)) {
+            boolQuery.bool!.must.push({
+                prefix: { [`metadata.${key}`]: value },
+            });
+        }
+    }
+
+    // Handle dateRange
+    if (filter.dateRange) {
+        boolQuery.bool!.must = boolQuery.bool!.must || [];
+        for (const [key, range] of Object.entries(filter.dateRange)) {
+            boolQuery.bool!.must.push({
+                range: { [`metadata.${key}`]: Object.fromEntries(normalizeDateRange(key, range)) },
+            });
+        }
+    }
+
     // Handle AND
     if (filter.and && filter.and.length > 0) {
         boolQuery.bool!.must = boolQuery.bool!.must || [];
@@ -0,0 +1,84 @@
+import { DateRange, MetadataFilter } from '../../core/types';
+import { tokenize } from '../../core/text';
+
+/**
+ * Rewrite the derived operators (notEquals, notIn, containsAny, containsAll)
+ * into equals/in/and/not, so a translator only has to handle the base operators.
+ * Array fields match if any element matches, so containsAny is `in` and
+ * containsAll is one `equals` per value.
+ */
+export function expandFilter(filter: MetadataFilter): MetadataFilter {
+    const { notEquals, notIn, containsAny, containsAll, and, or, not, ...rest } = filter;
+    const expanded: MetadataFilter = { ...rest };
+    const conditions: MetadataFilter[] = (and || []).map(expandFilter);
+
+    // Handle notEquals
+    for (const [key, value] of Object.entries(notEquals || {})) {
+        conditions.push({ not: { equals: { [key]: value } } });
+    }
+
+    // Handle notIn; an empty list excludes nothing
+    for (const [key, values] of Object.entries(notIn || {})) {
+        if (values.length > 0) conditions.push({ not: { in: { [key]: values } } });
+    }
+
+    // Handle containsAny
+    for (const [key, values] of Object.entries(containsAny || {})) {
+        conditions.push({ in: { [key]: values } });
+    }
+
+    // Handle containsAll
+    for (const [key, values] of Object.entries(containsAll || {})) {
+        for (const value of values) {
+            conditions.push({ equals: { [key]: value } });
+        }
+    }
+
+    if (conditions.length > 0) expanded.and = conditions;
+    if (or) expanded.or = or.map(expandFilter);
+    if (not) expanded.not = expandFilter(not);
+    return expanded;
+}
+
+/**
+ * Throw if a filter, or any nested filter, uses an operator a store cannot translate
+ */
+export function rejectUnsupported(filter: MetadataFilter, operators: (keyof MetadataFilter)[], storeName: string): void {
+    for (const operator of operators) {
+        if (filter[operator] !== undefined) {
+            throw new Error(`Filter operator "${operator}" is not supported by ${storeName}`);
+        }
+    }
+    [...(filter.and || []), ...(filter.or || []), ...(filter.not ? [filter.not] : [])].forEach((subFilter) =>
+        rejectUnsupported(subFilter, operators, storeName)
+    );
+}
+
+/**
+ * Whether every word of the query appears among the words of the value
+ */
+export function textMatches(value: string, query: string): boolean {
+    const words = new Set(tokenize(value));
+    return tokenize(query).every((word) => words.has(word));
+}
+
+/**
+ * Parse an ISO 8601 bound of a dateRange condition
+ * @returns Milliseconds since the epoch
+ */
+export function parseDateBound(key: string, value: string): number {
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
+        throw new Error(`Invalid date for "${key}": ${value}`);
+    }
+    return time;
+}
+
+/**
+ * dateRange bounds normalised to UTC ISO strings, in gt/gte/lt/lte order
+ */
+export function normalizeDateRange(key: string, range: DateRange): Array<[keyof DateRange, string]> {
+    return (['gt', 'gte', 'lt', 'lte'] as const)
+        .filter((bound) => range[bound] !== undefined)
+        .map((bound) => [bound, new Date(parseDateBound(key, range[bound]!)).toISOString()]);
+}
@@ -0,0 +1,139 @@
+import { MetadataFilter } from '../../core/types';
+import { tokenize } from '../../core/text';
+import { expandFilter, rejectUnsupported } from './operators';
+
+/**
+ * Build a SQL/JSON path selecting every scalar under a metadata key.
+ * `[*]` unwraps array fields and, in lax mode, treats scalars as one-element
+ * arrays, so array fields match if any element matches.
+ */
+function keyPath(key: string): string {
+    return `$.${JSON.stringify(key)}[*]`;
+}
+
+/**
+ * JSON literals are valid SQL/JSON path literals
+ */
+function literal(value: string | number | boolean): string {
+    return JSON.stringify(value);
+}
+
+/**
+ * Append a path predicate as a bind parameter and return the SQL condition.
+ * `@?` is answered by a GIN index on the metadata column.
+ */
+function pathCondition(params: unknown[], key: string, predicate: string): string {
+    params.push(`${keyPath(key)} ? (${predicate})`);
+    return `metadata @? $${params.length}::jsonpath`;
+}
+
+/**
+ * Every query word must appear as a whole word, case-insensitively
+ */
+function textMatchPredicate(query: string): string {
+    // Words are letters and digits only, so they need no regex escaping
+    const words = tokenize(query).map(
+        (word) => `@ like_regex ${literal(`(^|[^[:alnum:]])${word}([^[:alnum:]]|$)`)} flag "i"`
+    );
+    return words.length > 0 ? words.join(' && ') : '@.type() == "string"';
+}
+
+/**
+ * Convert unified MetadataFilter to a SQL condition over a JSONB `metadata` column
+ * @param input - Filter to translate
+ * @param params - Bind parameters; values are appended and referenced as $n
+ */
+export function toPgFilter(input: MetadataFilter, params: unknown[]): string {
+    rejectUnsupported(input, ['dateRange'], 'pgvector');
+    const filter = expandFilter(input);
+    const conditions: string[] = [];
+
+    // Handle equals
+    if (filter.equals) {
+        for (const [key, value] of Object.entries(filter.equals)) {
+            conditions.push(pathCondition(params, key, `@ == ${literal(value)}`));
+        }
+    }
+
+    // Handle greaterThan
+    if (filter.greaterThan) {
+        for (const [key, value] of Object.entries(filter.greaterThan)) {
+            conditions.push(pathCondition(params, key, `@ > ${literal(value)}`));
+        }
+    }
+
+    // Handle lessThan
+    if (filter.lessThan) {
+        for (const [key, value] of Object.entries(filter.lessThan)) {
+            conditions.push(pathCondition(params, key, `@ < ${literal(value)}`));
+        }
+    }
+
+    // Handle greaterThanOrEqual
+    if (filter.greaterThanOrEqual) {
+        for (const [key, value] of Object.entries(filter.greaterThanOrEqual)) {
+            conditions.push(pathCondition(params, key, `@ >= ${literal(value)}`));
+        }
+    }
+
+    // Handle lessThanOrEqual
+    if (filter.lessThanOrEqual) {
+        for (const [key, value] of Object.entries(filter.lessThanOrEqual)) {
+            conditions.push(pathCondition(params, key, `@ <= ${literal(value)}`));
+        }
+    }
+
+    // Handle in
+    if (filter.in) {
+        for (const [key, values] of Object.entries(filter.in)) {
+            if (values.length === 0) {
+                conditions.push('FALSE');
+                continue;
+            }
+            const predicate = values.map((value) => `@ == ${literal(value)}`).join(' || ');
+            conditions.push(pathCondition(params, key, predicate));
+        }
+    }
+
+    // Handle exists; a JSON null compares unequal to every other value
+    if (filter.exists) {
+        for (const [key, expected] of Object.entries(filter.exists)) {
+            const present = pathCondition(params, key, '@ != null');
+            conditions.push(expected ? present : `NOT ${present}`);
+        }
+    }
+
+    // Handle textMatch
+    if (filter.textMatch) {
+        for (const [key, query] of Object.entries(filter.textMatch)) {
+            conditions.push(pathCondition(params, key, textMatchPredicate(query)));
+        }
+    }
+
+    // Handle prefix
+    if (filter.prefix) {
+        for (const [key, prefix] of Object.entries(filter.prefix)) {
+            conditions.push(pathCondition(params, key, `@ starts with ${literal(prefix)}`));
+        }
+    }
+
+    // Handle AND
+    if (filter.and && filter.and.length > 0) {
+        for (const subFilter of filter.and) {
+            conditions.push(`(${toPgFilter(subFilter, params)})`);
+        }
+    }
+
+    // Handle OR
+    if (filter.or && filter.or.length > 0) {
+        const converted = filter.or.map((subFilter) => `(${toPgFilter(subFilter, params)})`);
+        conditions.push(`(${converted.join(' OR ')})`);
+    }
+
+    // Handle NOT
+    if (filter.not) {
+        conditions.push(`NOT (${toPgFilter(filter.not, params)})`);
+    }
+
+    return conditions.length > 0 ? conditions.join(' AND ') : 'TRUE';
+}
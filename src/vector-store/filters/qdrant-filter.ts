@@ -1,29 +1,49 @@
 import { MetadataFilter } from '../../core/types';
+import { expandFilter, normalizeDateRange } from './operators';
 
 /**
  * Qdrant filter format
  */
-interface QdrantCondition {
+interface QdrantFieldCondition {
     key: string;
-    match?: { value: string | number | boolean };
+    match?: { value: string | number | boolean } | { text: string };
+    // Datetime ranges take RFC 3339 strings
     range?: {
-        gt?: number;
-        gte?: number;
-        lt?: number;
-        lte?: number;
+        gt?: number | string;
+        gte?: number | string;
+        lt?: number | string;
+        lte?: number | string;
     };
 }
 
+type QdrantCondition =
+    | QdrantFieldCondition
+    | { has_id: (string | number)[] }
+    | { is_empty: { key: string } };
+
 interface QdrantFilter {
     must?: (QdrantCondition | QdrantFilter)[];
     should?: (QdrantCondition | QdrantFilter)[];
     must_not?: (QdrantCondition | QdrantFilter)[];
 }
 
+/**
+ * Documents keep their metadata under the `metadata` payload field
+ */
+function payloadKey(key: string): string {
+    return `metadata.${key}`;
+}
+
 /**
  * Convert unified MetadataFilter to Qdrant filter format
+ *
+ * textMatch and prefix use Qdrant's full-text match, which needs a `text` payload
+ * index (for prefix, one with the `prefix` tokenizer); without an index Qdrant
+ * falls back to substring matching, so QdrantVectorStore rejects such filters.
+ * The prefix tokenizer matches the start of any word, not only of the value.
  */
-export function toQdrantFilter(filter: MetadataFilter): QdrantFilter {
+export function toQdrantFilter(input: MetadataFilter): QdrantFilter {
+    const filter = expandFilter(input);
     const qdrantFilter: QdrantFilter = {};
 
     // Handle equals
@@ -31,7 +51,7 @@ export function toQdrantFilter(filter: MetadataFilter): QdrantFilter {
         qdrantFilter.must = qdrantFilter.must || [];
         for (const [key, value] of Object.entries(filter.equals)) {
             qdrantFilter.must.push({
-                key,
+                key: payloadKey(key),
                 match: { value },
             });
         }
@@ -42,7 +62,7 @@ export function toQdrantFilter(filter: MetadataFilter): QdrantFilter {
         qdrantFilter.must = qdrantFilter.must || [];
         for (const [key, value] of Object.entries(filter.greaterThan)) {
             qdrantFilter.must.push({
-                key,
+                key: payloadKey(key),
                 range: { gt: value },
             });
         }
@@ -53,7 +73,7 @@ export function toQdrantFilter(filter: MetadataFilter): QdrantFilter {
         qdrantFilter.must = qdrantFilter.must || [];
         for (const [key, value] of Object.entries(filter.lessThan)) {
             qdrantFilter.must.push({
-                key,
+                key: payloadKey(key),
                 range: { lt: value },
             });
         }
@@ -64,7 +84,7 @@ export function toQdrantFilter(filter: MetadataFilter): QdrantFilter {
         qdrantFilter.must = qdrantFilter.must || [];
         for (const [key, value] of Object.entries(filter.greaterThanOrEqual)) {
             qdrantFilter.must.push({
-                key,
+                key: payloadKey(key),
                 range: { gte: value },
             });
         }
@@ -75,7 +95,7 @@ export function toQdrantFilter(filter: MetadataFilter): QdrantFilter {
         qdrantFilter.must = qdrantFilter.must || [];
         for (const [key, value] of Object.entries(filter.lessThanOrEqual)) {
             qdrantFilter.must.push({
-                key,
+                key: payloadKey(key),
                 range: { lte: value },
             });
         }
@@ -87,11 +107,14 @@ export function toQdrantFilter(filter: MetadataFilter): QdrantFilter {
         for (const [key, values] of Object.entries(filter.in)) {
             // Qdrant doesn't have native "in" operator, use OR of equals
             const conditions: QdrantCondition[] = values.map((value) => ({
-                key,
+                key: payloadKey(key),
                 match: { value },
             }));
 
-            if (conditions.length === 1) {
+            if (conditions.length === 0) {
+                // An empty should would match everything; no point has an id in an empty list
+                qdrantFilter.must.push({ has_id: [] });
+            } else if (conditions.length === 1) {
                 qdrantFilter.must.push(conditions[0]);
             } else {
                 qdrantFilter.must.push({ should: conditions });
@@ -99,6 +122,53 @@ export function toQdrantFilter(filter: MetadataFilter): QdrantFilter {
         }
     }
 
+    // Handle exists; is_empty matches missing, null and empty array values
+    if (filter.exists) {
+        for (const [key, expected] of Object.entries(filter.exists)) {
+            const condition = { is_empty: { key: payloadKey(key) } };
+            if (expected) {
+                qdrantFilter.must_not = qdrantFilter.must_not || [];
+                qdrantFilter.must_not.push(condition);
+            } else {
+                qdrantFilter.must = qdrantFilter.must || [];
+                qdrantFilter.must.push(condition);
+            }
+        }
+    }
+
+    // Handle textMatch
+    if (filter.textMatch) {
+        qdrantFilter.must = qdrantFilter.must || [];
+        for (const [key, text] of Object.entries(filter.textMatch)) {
+            qdrantFilter.must.push({
+                key: payloadKey(key),
+                match: { text },
+            });
+        }
+    }
+
+    // Handle prefix
+    if (filter.prefix) {
+        qdrantFilter.must = qdrantFilter.must || [];
+        for (const [key, text] of Object.entries(filter.prefix)) {
+            qdrantFilter.must.push({
+                key: payloadKey(key),
+                match: { text },
+            });
+        }
+    }
+
+    // Handle dateRange
+    if (filter.dateRange) {
+        qdrantFilter.must = qdrantFilter.must || [];
+        for (const [key, range] of Object.entries(filter.dateRange)) {
+            qdrantFilter.must.push({
+                key: payloadKey(key),
+                range: Object.fromEntries(normalizeDateRange(key, range)),
+            });
+        }
+    }
+
     // Handle AND
     if (filter.and && filter.and.length > 0) {
         qdrantFilter.must = qdrantFilter.must || [];
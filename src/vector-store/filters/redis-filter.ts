@@ -0,0 +1,197 @@
+import { DateRange, MetadataFieldType, MetadataFilter, MetadataSchema } from '../../core/types';
+import { tokenize } from '../../core/text';
+import { expandFilter, parseDateBound, rejectUnsupported } from './operators';
+
+/**
+ * RediSearch field type for a declared metadata field
+ */
+export type RedisFieldType = 'tag' | 'numeric' | 'text';
+
+/**
+ * RediSearch field type for each declared metadata type; dates are indexed as epoch milliseconds
+ */
+export const REDIS_FIELD_TYPES: Record<MetadataFieldType, RedisFieldType> = {
+    keyword: 'tag',
+    text: 'text',
+    integer: 'numeric',
+    float: 'numeric',
+    boolean: 'tag',
+    date: 'numeric',
+    array: 'tag',
+};
+
+type Scalar = string | number | boolean;
+
+/**
+ * Escape a value for use inside a TAG query `{...}`
+ */
+export function escapeTag(value: Scalar): string {
+    return String(value).replace(/[,.<>{}[\]"':;!@#$%^&*()\-+=~|/\\\s]/g, '\\$&');
+}
+
+function fieldType(schema: MetadataSchema, key: string): MetadataFieldType {
+    const type = schema[key];
+    if (!type) {
+        throw new Error(`Metadata field "${key}" is not declared in the Redis metadata schema`);
+    }
+    return type;
+}
+
+/**
+ * Number stored in the index for a value of a numeric or date field
+ */
+function numericField(schema: MetadataSchema, key: string, value: Scalar): number {
+    const type = fieldType(schema, key);
+    if (type === 'date' && typeof value === 'string' && !Number.isNaN(Date.parse(value))) {
+        return Date.parse(value);
+    }
+    if (REDIS_FIELD_TYPES[type] !== 'numeric' || typeof value !== 'number') {
+        throw new Error(`Field "${key}" must be declared integer or float and compared with a number`);
+    }
+    return value;
+}
+
+/**
+ * Equality on one field; numeric equality is a closed range
+ */
+function equalsClause(schema: MetadataSchema, key: string, values: Scalar[]): string {
+    const type = REDIS_FIELD_TYPES[fieldType(schema, key)];
+    if (type === 'text') {
+        throw new Error(`Field "${key}" is declared text and can only be filtered with textMatch`);
+    }
+
+    // RediSearch has no false literal, so an empty list becomes a clause that never matches
+    if (values.length === 0) {
+        return type === 'tag' ? `(@${key}:{_} -@${key}:{_})` : `@${key}:[(0 (0]`;
+    }
+
+    if (type === 'tag') {
+        return `@${key}:{${values.map(escapeTag).join(' | ')}}`;
+    }
+
+    const ranges = values.map((value) => {
+        const number = numericField(schema, key, value);
+        return `@${key}:[${number} ${number}]`;
+    });
+    return ranges.length === 1 ? ranges[0] : `(${ranges.join(' | ')})`;
+}
+
+/**
+ * Convert unified MetadataFilter to RediSearch query syntax (DIALECT 2)
+ * @param input - Filter to translate
+ * @param schema - Declared metadata fields; their types pick the RediSearch field type
+ * @returns '*' when the filter has no conditions
+ */
+export function toRedisFilter(input: MetadataFilter, schema: MetadataSchema): string {
+    rejectUnsupported(input, ['exists'], 'Redis');
+    const filter = expandFilter(input);
+    const clauses: string[] = [];
+
+    // Handle equals
+    if (filter.equals) {
+        for (const [key, value] of Object.entries(filter.equals)) {
+            clauses.push(equalsClause(schema, key, [value]));
+        }
+    }
+
+    // Handle greaterThan
+    if (filter.greaterThan) {
+        for (const [key, value] of Object.entries(filter.greaterThan)) {
+            clauses.push(`@${key}:[(${numericField(schema, key, value)} +inf]`);
+        }
+    }
+
+    // Handle lessThan
+    if (filter.lessThan) {
+        for (const [key, value] of Object.entries(filter.lessThan)) {
+            clauses.push(`@${key}:[-inf (${numericField(schema, key, value)}]`);
+        }
+    }
+
+    // Handle greaterThanOrEqual
+    if (filter.greaterThanOrEqual) {
+        for (const [key, value] of Object.entries(filter.greaterThanOrEqual)) {
+            clauses.push(`@${key}:[${numericField(schema, key, value)} +inf]`);
+        }
+    }
+
+    // Handle lessThanOrEqual
+    if (filter.lessThanOrEqual) {
+        for (const [key, value] of Object.entries(filter.lessThanOrEqual)) {
+            clauses.push(`@${key}:[-inf ${numericField(schema, key, value)}]`);
+        }
+    }
+
+    // Handle in
+    if (filter.in) {
+        for (const [key, values] of Object.entries(filter.in)) {
+            clauses.push(equalsClause(schema, key, values));
+        }
+    }
+
+    // Handle prefix; only tag fields support prefix queries
+    if (filter.prefix) {
+        for (const [key, prefix] of Object.entries(filter.prefix)) {
+            const type = fieldType(schema, key);
+            if (type !== 'keyword' && type !== 'array') {
+                throw new Error(`Field "${key}" must be declared keyword or array to filter by prefix`);
+            }
+            clauses.push(`@${key}:{${escapeTag(prefix)}*}`);
+        }
+    }
+
+    // Handle textMatch; adjacent words in a field query intersect
+    if (filter.textMatch) {
+        for (const [key, query] of Object.entries(filter.textMatch)) {
+            if (fieldType(schema, key) !== 'text') {
+                throw new Error(`Field "${key}" must be declared text to filter by textMatch`);
+            }
+            const words = tokenize(query);
+            clauses.push(words.length > 0 ? `@${key}:(${words.join(' ')})` : '*');
+        }
+    }
+
+    // Handle dateRange on date fields, indexed as epoch milliseconds
+    if (filter.dateRange) {
+        for (const [key, range] of Object.entries(filter.dateRange)) {
+            if (fieldType(schema, key) !== 'date') {
+                throw new Error(`Field "${key}" must be declared date to filter by dateRange`);
+            }
+            const bounds = {
+                gt: (time: number) => `[(${time} +inf]`,
+                gte: (time: number) => `[${time} +inf]`,
+                lt: (time: number) => `[-inf (${time}]`,
+                lte: (time: number) => `[-inf ${time}]`,
+            };
+            for (const [bound, toRange] of Object.entries(bounds)) {
+                const date = range[bound as keyof DateRange];
+                if (date !== undefined) clauses.push(`@${key}:${toRange(parseDateBound(key, date))}`);
+            }
+        }
+    }
+
+    // Handle AND
+    if (filter.and && filter.and.length > 0) {
+        for (const subFilter of filter.and) {
+            const converted = toRedisFilter(subFilter, schema);
+            if (converted !== '*') clauses.push(`(${converted})`);
+        }
+    }
+
+    // Handle OR
+    if (filter.or && filter.or.length > 0) {
+        const converted = filter.or.map((subFilter) => toRedisFilter(subFilter, schema));
+        // An empty branch matches everything, and so does the whole OR
+        if (!converted.includes('*')) {
+            clauses.push(`(${converted.map((query) => `(${query})`).join(' | ')})`);
+        }
+    }
+
+    // Handle NOT
+    if (filter.not) {
+        clauses.push(`-(${toRedisFilter(filter.not, schema)})`);
+    }
+
+    // Space-separated clauses intersect
+    return clauses.length > 0 ? clauses.join(' ') : '*';
+}
@@ -0,0 +1,178 @@
+import { MetadataFilter } from '../../core/types';
+import { expandFilter, normalizeDateRange } from './operators';
+
+type Scalar = string | number | boolean;
+
+/**
+ * JSON path of a metadata key, with the key quoted
+ */
+function keyPath(key: string): string {
+    return `$.${JSON.stringify(key)}`;
+}
+
+/**
+ * Build an EXISTS condition over the values stored under a metadata key.
+ * json_each yields one row for a scalar and one row per element for an array,
+ * so array fields match if any element matches.
+ */
+function anyValue(params: unknown[], key: string, predicate: () => string): string {
+    // The path placeholder precedes the predicate's placeholders
+    params.push(keyPath(key));
+    return `EXISTS (SELECT 1 FROM json_each(metadata, ?) WHERE ${predicate()})`;
+}
+
+/**
+ * Typed equality: json_each reports booleans as 1/0, so compare on the JSON type as well
+ */
+function equalsPredicate(params: unknown[], value: Scalar): string {
+    if (typeof value === 'boolean') {
+        params.push(value ? 'true' : 'false');
+        return 'type = ?';
+    }
+    if (typeof value === 'number') {
+        params.push(value);
+        return "type IN ('integer', 'real') AND value = ?";
+    }
+    params.push(value);
+    return "type = 'text' AND value = ?";
+}
+
+function rangeCondition(params: unknown[], key: string, operator: string, bound: number): string {
+    return anyValue(params, key, () => {
+        params.push(bound);
+        return `type IN ('integer', 'real') AND value ${operator} ?`;
+    });
+}
+
+const dateOperators = { gt: '>', gte: '>=', lt: '<', lte: '<=' };
+
+/**
+ * SQL function registered on the connection by SqliteVectorStore, backing textMatch
+ */
+export const TEXT_MATCH_FUNCTION = 'literag_text_match';
+
+/**
+ * Convert unified MetadataFilter to a SQLite condition over a JSON `metadata` column
+ * @param input - Filter to translate
+ * @param params - Positional bind parameters; values are appended in order
+ */
+export function toSqliteFilter(input: MetadataFilter, params: unknown[]): string {
+    const filter = expandFilter(input);
+    const conditions: string[] = [];
+
+    // Handle equals
+    if (filter.equals) {
+        for (const [key, value] of Object.entries(filter.equals)) {
+            conditions.push(anyValue(params, key, () => equalsPredicate(params, value)));
+        }
+    }
+
+    // Handle greaterThan
+    if (filter.greaterThan) {
+        for (const [key, value] of Object.entries(filter.greaterThan)) {
+            conditions.push(rangeCondition(params, key, '>', value));
+        }
+    }
+
+    // Handle lessThan
+    if (filter.lessThan) {
+        for (const [key, value] of Object.entries(filter.lessThan)) {
+            conditions.push(rangeCondition(params, key, '<', value));
+        }
+    }
+
+    // Handle greaterThanOrEqual
+    if (filter.greaterThanOrEqual) {
+        for (const [key, value] of Object.entries(filter.greaterThanOrEqual)) {
+            conditions.push(rangeCondition(params, key, '>=', value));
+        }
+    }
+
+    // Handle lessThanOrEqual
+    if (filter.lessThanOrEqual) {
+        for (const [key, value] of Object.entries(filter.lessThanOrEqual)) {
+            conditions.push(rangeCondition(params, key, '<=', value));
+        }
+    }
+
+    // Handle in
+    if (filter.in) {
+        for (const [key, values] of Object.entries(filter.in)) {
+            if (values.length === 0) {
+                conditions.push('0');
+                continue;
+            }
+            conditions.push(
+                anyValue(params, key, () => values.map((value) => `(${equalsPredicate(params, value)})`).join(' OR '))
+            );
+        }
+    }
+
+    // Handle exists; json_each yields no rows for a missing key or an empty array
+    if (filter.exists) {
+        for (const [key, expected] of Object.entries(filter.exists)) {
+            const present = anyValue(params, key, () => "type != 'null'");
+            conditions.push(expected ? present : `NOT ${present}`);
+        }
+    }
+
+    // Handle textMatch
+    if (filter.textMatch) {
+        for (const [key, query] of Object.entries(filter.textMatch)) {
+            conditions.push(
+                anyValue(params, key, () => {
+                    params.push(query);
+                    return `type = 'text' AND ${TEXT_MATCH_FUNCTION}(value, ?)`;
+                })
+            );
+        }
+    }
+
+    // Handle prefix
+    if (filter.prefix) {
+        for (const [key, prefix] of Object.entries(filter.prefix)) {
+            conditions.push(
+                anyValue(params, key, () => {
+                    params.push(prefix, prefix);
+                    return "type = 'text' AND substr(value, 1, length(?)) = ?";
+                })
+            );
+        }
+    }
+
+    // Handle dateRange; julianday() is NULL for values that are not dates
+    if (filter.dateRange) {
+        for (const [key, range] of Object.entries(filter.dateRange)) {
+            const bounds = normalizeDateRange(key, range);
+            conditions.push(
+                anyValue(params, key, () => {
+                    const comparisons = bounds.map(([bound, iso]) => {
+                        params.push(iso);
+                        return `julianday(value) ${dateOperators[bound]} julianday(?)`;
+                    });
+                    return ["type = 'text'", ...comparisons].join(' AND ');
+                })
+            );
+        }
+    }
+
+    // Handle AND
+    if (filter.and && filter.and.length > 0) {
+        for (const subFilter of filter.and) {
+            conditions.push(`(${toSqliteFilter(subFilter, params)})`);
+        }
+    }
+
+    // Handle OR
+    if (filter.or && filter.or.length > 0) {
+        const converted = filter.or.map((subFilter) => `(${toSqliteFilter(subFilter, params)})`);
+        conditions.push(`(${converted.join(' OR ')})`);
+    }
+
+    // Handle NOT
+    if (filter.not) {
+        conditions.push(`NOT (${toSqliteFilter(filter.not, params)})`);
+    }
+
+    return conditions.length > 0 ? conditions.join(' AND ') : '1';
+}
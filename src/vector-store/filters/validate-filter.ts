@@ -0,0 +1,233 @@
+import { MetadataFieldType, MetadataFilter, MetadataSchema } from '../../core/types';
+
+/**
+ * What each field operator expects as the value for a field
+ */
+type OperandKind = 'scalar' | 'number' | 'list' | 'boolean' | 'string' | 'dateRange';
+
+const FIELD_OPERATORS: Record<string, OperandKind> = {
+    equals: 'scalar',
+    notEquals: 'scalar',
+    greaterThan: 'number',
+    lessThan: 'number',
+    greaterThanOrEqual: 'number',
+    lessThanOrEqual: 'number',
+    in: 'list',
+    notIn: 'list',
+    containsAny: 'list',
+    containsAll: 'list',
+    exists: 'boolean',
+    textMatch: 'string',
+    prefix: 'string',
+    dateRange: 'dateRange',
+};
+
+const EQUALITY = ['equals', 'notEquals', 'in', 'notIn', 'containsAny', 'containsAll', 'exists'];
+const RANGE = ['greaterThan', 'lessThan', 'greaterThanOrEqual', 'lessThanOrEqual'];
+
+/**
+ * Operators that make sense on each declared field type
+ */
+const OPERATORS_BY_TYPE: Record<MetadataFieldType, string[]> = {
+    keyword: [...EQUALITY, 'prefix'],
+    // Analyzed text only supports full-text matching, not whole-value comparisons
+    text: ['textMatch', 'exists'],
+    integer: [...EQUALITY, ...RANGE],
+    float: [...EQUALITY, ...RANGE],
+    boolean: ['equals', 'notEquals', 'in', 'notIn', 'exists'],
+    date: [...EQUALITY, 'dateRange'],
+    array: [...EQUALITY, 'prefix'],
+};
+
+const EXPECTED_VALUES: Record<MetadataFieldType, string> = {
+    keyword: 'a string',
+    text: 'a string',
+    integer: 'an integer',
+    float: 'a number',
+    boolean: 'a boolean',
+    date: 'an ISO 8601 string',
+    array: 'a string',
+};
+
+const DATE_BOUNDS = ['gt', 'gte', 'lt', 'lte'];
+
+function typeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function isScalar(value: unknown): value is string | number | boolean {
+    return ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeOf(value) === 'object';
+}
+
+/**
+ * Check an operand against the type the operator expects
+ */
+function checkOperand(kind: OperandKind, value: unknown, path: string, errors: string[]): void {
+    switch (kind) {
+        case 'scalar':
+            if (!isScalar(value)) errors.push(`"${path}" must be a string, number or boolean (got ${typeOf(value)})`);
+            break;
+        case 'number':
+            if (typeof value !== 'number') errors.push(`"${path}" must be a number (got ${typeOf(value)})`);
+            break;
+        case 'boolean':
+            if (typeof value !== 'boolean') errors.push(`"${path}" must be a boolean (got ${typeOf(value)})`);
+            break;
+        case 'string':
+            if (typeof value !== 'string') errors.push(`"${path}" must be a string (got ${typeOf(value)})`);
+            break;
+        case 'list':
+            if (!Array.isArray(value) || !value.every(isScalar)) {
+                errors.push(`"${path}" must be an array of strings, numbers or booleans`);
+            } else if (value.length === 0) {
+                // An empty list matches nothing or everything depending on the operator; neither is meant
+                errors.push(`"${path}" must not be empty`);
+            }
+            break;
+        case 'dateRange':
+            if (!isObject(value) || Object.keys(value).length === 0) {
+                errors.push(`"${path}" must be an object with gt, gte, lt or lte`);
+                break;
+            }
+            for (const [bound, date] of Object.entries(value)) {
+                if (!DATE_BOUNDS.includes(bound)) {
+                    errors.push(`"${path}.${bound}" is not a known bound`);
+                } else if (typeof date !== 'string' || Number.isNaN(Date.parse(date))) {
+                    errors.push(`"${path}.${bound}" must be an ISO 8601 date (got ${JSON.stringify(date)})`);
+                }
+            }
+            break;
+    }
+}
+
+/**
+ * Whether a value fits a declared field type
+ */
+function fitsType(type: MetadataFieldType, value: string | number | boolean): boolean {
+    switch (type) {
+        case 'integer':
+            return Number.isInteger(value);
+        case 'float':
+            return typeof value === 'number';
+        case 'boolean':
+            return typeof value === 'boolean';
+        default:
+            return typeof value === 'string';
+    }
+}
+
+/**
+ * Check an operator and its operand against the declared type of the field
+ */
+function checkField(
+    operator: string,
+    type: MetadataFieldType,
+    field: string,
+    value: unknown,
+    path: string,
+    errors: string[]
+): void {
+    if (!OPERATORS_BY_TYPE[type].includes(operator)) {
+        const hint = type === 'date' && RANGE.includes(operator) ? ' (use dateRange)' : '';
+        errors.push(`"${path}" cannot be used on ${type} field "${field}"${hint}`);
+        return;
+    }
+    if (operator === 'exists') return;
+
+    const values = Array.isArray(value) ? value : [value];
+    const mismatch = values.find((item) => isScalar(item) && !fitsType(type, item));
+    if (mismatch !== undefined) {
+        errors.push(
+            `"${path}" must be ${EXPECTED_VALUES[type]} for ${type} field "${field}" (got ${JSON.stringify(mismatch)})`
+        );
+    }
+}
+
+function checkFilter(filter: unknown, path: string, schema: MetadataSchema | undefined, errors: string[]): void {
+    if (!isObject(filter)) {
+        errors.push(`"${path || 'filter'}" must be an object (got ${typeOf(filter)})`);
+        return;
+    }
+
+    for (const [operator, operand] of Object.entries(filter)) {
+        if (operand === undefined) continue;
+        const operatorPath = path ? `${path}.${operator}` : operator;
+
+        if (operator === 'and' || operator === 'or') {
+            if (!Array.isArray(operand) || operand.length === 0) {
+                errors.push(`"${operatorPath}" must be a non-empty array of filters`);
+                continue;
+            }
+            operand.forEach((subFilter, idx) => checkFilter(subFilter, `${operatorPath}[${idx}]`, schema, errors));
+            continue;
+        }
+
+        if (operator === 'not') {
+            if (isObject(operand) && !hasConditions(operand)) {
+                errors.push(`"${operatorPath}" must be a non-empty filter`);
+                continue;
+            }
+            checkFilter(operand, operatorPath, schema, errors);
+            continue;
+        }
+
+        const kind = FIELD_OPERATORS[operator];
+        if (!kind) {
+            errors.push(`"${operatorPath}" is not a known operator`);
+            continue;
+        }
+        if (!isObject(operand)) {
+            errors.push(`"${operatorPath}" must be an object of field conditions (got ${typeOf(operand)})`);
+            continue;
+        }
+        if (Object.keys(operand).length === 0) {
+            errors.push(`"${operatorPath}" must name at least one field`);
+            continue;
+        }
+
+        for (const [field, value] of Object.entries(operand)) {
+            const fieldPath = `${operatorPath}.${field}`;
+            const errorCount = errors.length;
+            checkOperand(kind, value, fieldPath, errors);
+
+            const type = schema?.[field];
+            if (type && errors.length === errorCount) {
+                checkField(operator, type, field, value, fieldPath, errors);
+            }
+        }
+    }
+}
+
+/**
+ * Whether a filter has at least one condition, i.e. does not match everything
+ *
+ * Only meaningful for a filter that passed `validateFilter`, which rejects empty
+ * operator objects and logical operators nested inside.
+ */
+export function hasConditions(filter: MetadataFilter): boolean {
+    return Object.values(filter).some((operand) => operand !== undefined);
+}
+
+/**
+ * Check a filter before it is sent to a store
+ *
+ * Rejects unknown operators, operands of the wrong type, invalid dates, empty
+ * lists and empty operators (`{ equals: {} }`, `not: {}`, `and: []`), which would
+ * otherwise silently match every document. With a schema, operators and values are also checked
+ * against the declared type of each field; undeclared fields are not type-checked.
+ * @throws Error naming every offending condition, e.g.
+ * `Invalid filter: "greaterThan.category" cannot be used on keyword field "category"`
+ */
+export function validateFilter(filter: MetadataFilter, schema?: MetadataSchema): void {
+    const errors: string[] = [];
+    checkFilter(filter, '', schema, errors);
+    if (errors.length > 0) {
+        throw new Error(`Invalid filter: ${errors.join('; ')}`);
+    }
+}
@@ -0,0 +1,132 @@
+import { MetadataFilter } from '../../core/types';
+import { expandFilter, rejectUnsupported } from './operators';
+
+/**
+ * Weaviate `where` filter format
+ */
+export interface WeaviateWhere {
+    operator: string;
+    path?: string[];
+    operands?: WeaviateWhere[];
+    valueText?: string;
+    valueNumber?: number;
+    valueBoolean?: boolean;
+}
+
+function condition(operator: string, key: string, value: string | number | boolean): WeaviateWhere {
+    const where: WeaviateWhere = { operator, path: [key] };
+    if (typeof value === 'string') {
+        where.valueText = value;
+    } else if (typeof value === 'number') {
+        where.valueNumber = value;
+    } else {
+        where.valueBoolean = value;
+    }
+    return where;
+}
+
+function combine(operator: 'And' | 'Or', operands: WeaviateWhere[]): WeaviateWhere {
+    return operands.length === 1 ? operands[0] : { operator, operands };
+}
+
+/**
+ * Convert unified MetadataFilter to Weaviate `where` format
+ * Metadata keys map to top-level object properties. Negations are rejected:
+ * Weaviate has no NOT, and NotEqual or a flipped range skips objects without
+ * the property, which a negated condition has to match.
+ * @returns undefined when the filter has no conditions, null when it matches nothing
+ */
+export function toWeaviateFilter(input: MetadataFilter): WeaviateWhere | undefined | null {
+    rejectUnsupported(
+        input,
+        ['not', 'notEquals', 'notIn', 'exists', 'textMatch', 'prefix', 'dateRange'],
+        'Weaviate'
+    );
+    const filter = expandFilter(input);
+    const operands: WeaviateWhere[] = [];
+
+    // Handle equals
+    if (filter.equals) {
+        for (const [key, value] of Object.entries(filter.equals)) {
+            operands.push(condition('Equal', key, value));
+        }
+    }
+
+    // Handle greaterThan
+    if (filter.greaterThan) {
+        for (const [key, value] of Object.entries(filter.greaterThan)) {
+            operands.push(condition('GreaterThan', key, value));
+        }
+    }
+
+    // Handle lessThan
+    if (filter.lessThan) {
+        for (const [key, value] of Object.entries(filter.lessThan)) {
+            operands.push(condition('LessThan', key, value));
+        }
+    }
+
+    // Handle greaterThanOrEqual
+    if (filter.greaterThanOrEqual) {
+        for (const [key, value] of Object.entries(filter.greaterThanOrEqual)) {
+            operands.push(condition('GreaterThanEqual', key, value));
+        }
+    }
+
+    // Handle lessThanOrEqual
+    if (filter.lessThanOrEqual) {
+        for (const [key, value] of Object.entries(filter.lessThanOrEqual)) {
+            operands.push(condition('LessThanEqual', key, value));
+        }
+    }
+
+    // Handle in
+    if (filter.in) {
+        for (const [key, values] of Object.entries(filter.in)) {
+            // An empty list matches nothing, and neither do the conditions it is ANDed with
+            if (values.length === 0) return null;
+            // OR of equals, like the Qdrant translator
+            operands.push(combine('Or', values.map((value) => condition('Equal', key, value))));
+        }
+    }
+
+    // Handle AND
+    if (filter.and && filter.and.length > 0) {
+        for (const subFilter of filter.and) {
+            const converted = toWeaviateFilter(subFilter);
+            if (converted === null) return null;
+            if (converted) operands.push(converted);
+        }
+    }
+
+    // Handle OR
+    if (filter.or && filter.or.length > 0) {
+        const converted = filter.or.map(toWeaviateFilter);
+        // An empty branch matches everything, and so does the whole OR; branches matching nothing drop out
+        if (converted.every((where) => where !== undefined)) {
+            const branches = converted.filter((where): where is WeaviateWhere => where !== null);
+            if (branches.length === 0) return null;
+            operands.push(combine('Or', branches));
+        }
+    }
+
+    return operands.length > 0 ? combine('And', operands) : undefined;
+}
+
+/**
+ * Render a value as a GraphQL input literal; `operator` values are enums and stay unquoted
+ */
+export function toGraphQLLiteral(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(toGraphQLLiteral).join(', ')}]`;
+    }
+    if (value !== null && typeof value === 'object') {
+        const fields = Object.entries(value)
+            .filter(([, fieldValue]) => fieldValue !== undefined)
+            .map(([key, fieldValue]) =>
+                key === 'operator' ? `${key}: ${fieldValue}` : `${key}: ${toGraphQLLiteral(fieldValue)}`
+            );
+        return `{${fields.join(', ')}}`;
+    }
+    return JSON.stringify(value);
+}
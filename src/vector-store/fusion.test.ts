@@ -0,0 +1,44 @@
+import { SearchResult } from '../core/types';
+import { fuseRankedLists, fuseResults } from '../vector-store/fusion';
+
+const result = (id: string, score: number): SearchResult => ({ document: { id, content: id }, score });
+
+describe('fuseResults', () => {
+    const vector = [result('a', 1), result('b', 0.75), result('c', 0.5)];
+    const keyword = [result('c', 8), result('d', 2)];
+
+    it('should sum min-max normalised scores by weight', () => {
+        const fused = fuseResults([vector, keyword], { weights: [0.25, 0.75] });
+
+        expect(fused.map((r) => [r.document.id, r.score])).toEqual([
+            ['c', 0.75],
+            ['a', 0.25],
+            ['b', 0.125],
+            ['d', 0],
+        ]);
+    });
+
+    it('should sum weighted reciprocal ranks with RRF', () => {
+        const fused = fuseResults([vector, keyword], { method: 'rrf', rrfK: 60 });
+
+        expect(fused.map((r) => r.document.id)).toEqual(['c', 'a', 'b', 'd']);
+        expect(fused[0].score).toBeCloseTo(1 / 63 + 1 / 61);
+    });
+
+    it('should score a list of equal scores as 1 and keep the first copy of a document', () => {
+        const fused = fuseResults([[{ document: { id: 'x', content: 'first' }, score: 3 }], [result('x', 3)]]);
+        expect(fused).toEqual([{ document: { id: 'x', content: 'first' }, score: 2 }]);
+    });
+
+    it('should count only the first occurrence within a list and record contributions', () => {
+        const fused = fuseRankedLists([[result('x', 5), result('x', 4)], keyword], { method: 'rrf', rrfK: 0 });
+
+        expect(fused.map((r) => [r.document.id, r.score])).toEqual([
+            ['x', 1],
+            ['c', 1],
+            ['d', 0.5],
+        ]);
+        expect(fused[0].contributions).toEqual([{ list: 0, rank: 1, score: 5 }]);
+        expect(fused[1].contributions).toEqual([{ list: 1, rank: 1, score: 8 }]);
+    });
+});
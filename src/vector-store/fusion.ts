@@ -0,0 +1,87 @@
+import { FusionMethod, SearchResult } from '../core/types';
+
+/**
+ * Options for fusing ranked result lists
+ */
+export interface FusionOptions {
+    /** How the lists are combined (default: 'weighted') */
+    method?: FusionMethod;
+    /** Weight of each list, in the order of the lists (default: 1 each) */
+    weights?: number[];
+    /** RRF rank constant (default: 60) */
+    rrfK?: number;
+}
+
+/**
+ * A fused result with the lists it was found in
+ */
+export interface FusedResult extends SearchResult {
+    /** Index of each list containing the document, with its 1-based rank and original score there */
+    contributions: Array<{ list: number; rank: number; score: number }>;
+}
+
+/**
+ * Key that identifies the same document across result lists
+ */
+function resultKey(result: SearchResult): string {
+    return result.document.id ?? result.document.content;
+}
+
+/**
+ * Min-max normalise scores to [0, 1]; a list whose scores are all equal scores 1
+ */
+function normalizeScores(results: SearchResult[]): number[] {
+    const scores = results.map((result) => result.score);
+    const min = Math.min(...scores);
+    const range = Math.max(...scores) - min;
+    return scores.map((score) => (range > 0 ? (score - min) / range : 1));
+}
+
+/**
+ * Fuse several ranked result lists into one, recording where each document came from
+ *
+ * Documents are matched across lists by id (content when there is none) and
+ * keep the first list's copy; only the first occurrence within a list counts,
+ * and a document missing from a list gets nothing from it. Results are sorted
+ * by fused score, ties in order of first appearance.
+ */
+export function fuseRankedLists(lists: SearchResult[][], options: FusionOptions = {}): FusedResult[] {
+    const method = options.method ?? 'weighted';
+    const rrfK = options.rrfK ?? 60;
+    const fused = new Map<string, FusedResult>();
+
+    lists.forEach((list, listIdx) => {
+        const weight = options.weights?.[listIdx] ?? 1;
+        const seen = new Set<string>();
+        const results = list.filter((result) => {
+            const key = resultKey(result);
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+        const scores =
+            method === 'rrf' ? results.map((_, rank) => 1 / (rrfK + rank + 1)) : normalizeScores(results);
+
+        results.forEach((result, idx) => {
+            const key = resultKey(result);
+            const contribution = { list: listIdx, rank: idx + 1, score: result.score };
+            const existing = fused.get(key);
+            if (existing) {
+                existing.score += weight * scores[idx];
+                existing.contributions.push(contribution);
+            } else {
+                fused.set(key, { ...result, score: weight * scores[idx], contributions: [contribution] });
+            }
+        });
+    });
+
+    return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Fuse several ranked result lists into one
+ * @see fuseRankedLists
+ */
+export function fuseResults(lists: SearchResult[][], options: FusionOptions = {}): SearchResult[] {
+    return fuseRankedLists(lists, options).map(({ contributions: _contributions, ...result }) => result);
+}
@@ -0,0 +1,119 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HNSWIndex } from '../vector-store/hnsw';
+
+/**
+ * Deterministic pseudo-random vectors
+ */
+function randomVectors(count: number, dimension: number, seed: number = 1): number[][] {
+    let state = seed;
+    const next = () => {
+        state = (state * 1103515245 + 12345) & 0x7fffffff;
+        return (state / 0x7fffffff) * 2 - 1;
+    };
+    return Array.from({ length: count }, () => Array.from({ length: dimension }, next));
+}
+
+function bruteForce(vectors: number[][], query: number[], k: number): number[] {
+    const norm = (v: number[]) => Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+    return vectors
+        .map((v, idx) => ({ idx, score: v.reduce((sum, x, i) => sum + x * query[i], 0) / (norm(v) * norm(query)) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, k)
+        .map((item) => item.idx);
+}
+
+describe('HNSWIndex', () => {
+    const vectors = randomVectors(500, 16);
+    let index: HNSWIndex;
+
+    beforeAll(() => {
+        index = new HNSWIndex({ M: 8, efConstruction: 100, efSearch: 50 });
+        vectors.forEach((vector, idx) => index.add(`v${idx}`, vector));
+    });
+
+    it('should find the exact vector first', () => {
+        const results = index.search(vectors[42], 1);
+        expect(results[0].id).toBe('v42');
+        expect(results[0].distance).toBeCloseTo(0, 6);
+    });
+
+    it('should reach high recall against brute force', () => {
+        const queries = randomVectors(20, 16, 7);
+        let hits = 0;
+        for (const query of queries) {
+            const expected = new Set(bruteForce(vectors, query, 10).map((idx) => `v${idx}`));
+            hits += index.search(query, 10).filter((r) => expected.has(r.id)).length;
+        }
+        expect(hits / (queries.length * 10)).toBeGreaterThan(0.9);
+    });
+
+    it('should return results nearest first', () => {
+        const results = index.search(vectors[3], 10);
+        for (let i = 1; i < results.length; i++) {
+            expect(results[i].distance).toBeGreaterThanOrEqual(results[i - 1].distance);
+        }
+    });
+
+    it('should apply a filter predicate', () => {
+        const results = index.search(vectors[10], 5, { filter: (id) => Number(id.slice(1)) % 2 === 1 });
+        expect(results.length).toBe(5);
+        results.forEach((r) => expect(Number(r.id.slice(1)) % 2).toBe(1));
+    });
+
+    it('should skip tombstoned vectors and rebuild without them', () => {
+        const local = new HNSWIndex({ M: 4 });
+        vectors.slice(0, 50).forEach((vector, idx) => local.add(`v${idx}`, vector));
+
+        expect(local.delete('v5')).toBe(true);
+        expect(local.delete('v5')).toBe(false);
+        expect(local.search(vectors[5], 3).map((r) => r.id)).not.toContain('v5');
+        expect(local.size).toBe(49);
+        expect(local.tombstones).toBe(1);
+
+        const rebuilt = local.rebuild();
+        expect(rebuilt.size).toBe(49);
+        expect(rebuilt.tombstones).toBe(0);
+        expect(rebuilt.search(vectors[6], 1)[0].id).toBe('v6');
+    });
+
+    it('should replace a vector re-added under the same id', () => {
+        const local = new HNSWIndex();
+        local.add('a', [1, 0]);
+        local.add('b', [0, 1]);
+        local.add('a', [0, -1]);
+
+        expect(local.size).toBe(2);
+        expect(local.search([0, -1], 1)[0].id).toBe('a');
+        expect(local.search([1, 0], 2).map((r) => r.id)).toEqual(['b', 'a']);
+    });
+
+    it('should support dot and euclidean spaces', () => {
+        const dot = new HNSWIndex({ space: 'dot' });
+        const euclidean = new HNSWIndex({ space: 'euclidean' });
+        const points: Record<string, number[]> = { small: [1, 0], large: [10, 0], far: [-5, 0] };
+        for (const [id, vector] of Object.entries(points)) {
+            dot.add(id, vector);
+            euclidean.add(id, vector);
+        }
+
+        expect(dot.search([1, 0], 1)[0].id).toBe('large');
+        expect(euclidean.search([1, 0], 1)[0].id).toBe('small');
+    });
+
+    it('should round-trip through a file', async () => {
+        const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'literag-hnsw-'));
+        try {
+            const filePath = path.join(directory, 'index.json');
+            await index.save(filePath);
+            const loaded = await HNSWIndex.load(filePath);
+
+            expect(loaded.size).toBe(index.size);
+            const query = randomVectors(1, 16, 99)[0];
+            expect(loaded.search(query, 10)).toEqual(index.search(query, 10));
+        } finally {
+            await fs.rm(directory, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,445 @@
+import { promises as fs } from 'fs';
+
+/**
+ * Distance space used by the HNSW index
+ */
+export type HNSWSpace = 'cosine' | 'dot' | 'euclidean';
+
+/**
+ * HNSW index options
+ */
+export interface HNSWIndexOptions {
+    /** Max neighbours per node on upper layers; layer 0 keeps 2 * M (default: 16) */
+    M?: number;
+    /** Candidate list size while inserting (default: 200) */
+    efConstruction?: number;
+    /** Candidate list size while searching; raised to k when smaller (default: 50) */
+    efSearch?: number;
+    /** Distance space (default: 'cosine') */
+    space?: HNSWSpace;
+    /** Seed for level assignment, for reproducible graphs (default: 42) */
+    seed?: number;
+}
+
+/**
+ * A single nearest-neighbour hit
+ */
+export interface HNSWResult {
+    id: string;
+    distance: number;
+}
+
+/**
+ * Search options
+ */
+export interface HNSWSearchOptions {
+    /** Override efSearch for this query */
+    ef?: number;
+    /** Only ids accepted by this predicate are returned; others are still traversed */
+    filter?: (id: string) => boolean;
+}
+
+interface HNSWNode {
+    id: string;
+    vector: number[];
+    level: number;
+    /** Neighbour node indexes per layer, 0..level */
+    neighbors: number[][];
+    deleted: boolean;
+}
+
+/**
+ * Serialised form of an HNSW index
+ */
+export interface SerializedHNSWIndex {
+    version: 1;
+    options: Required<HNSWIndexOptions>;
+    entryPoint: number;
+    maxLevel: number;
+    rngState: number;
+    nodes: HNSWNode[];
+}
+
+interface HeapItem {
+    node: number;
+    distance: number;
+}
+
+/**
+ * Binary heap ordered by distance
+ */
+class DistanceHeap {
+    private items: HeapItem[] = [];
+
+    /**
+     * @param maxHeap - Pop the furthest item first instead of the nearest
+     */
+    constructor(private maxHeap: boolean) {}
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    peek(): HeapItem | undefined {
+        return this.items[0];
+    }
+
+    push(item: HeapItem): void {
+        this.items.push(item);
+        let idx = this.items.length - 1;
+        while (idx > 0) {
+            const parent = (idx - 1) >> 1;
+            if (!this.before(this.items[idx], this.items[parent])) break;
+            [this.items[idx], this.items[parent]] = [this.items[parent], this.items[idx]];
+            idx = parent;
+        }
+    }
+
+    pop(): HeapItem | undefined {
+        const top = this.items[0];
+        const last = this.items.pop();
+        if (this.items.length > 0 && last) {
+            this.items[0] = last;
+            let idx = 0;
+            for (;;) {
+                const left = idx * 2 + 1;
+                const right = left + 1;
+                let best = idx;
+                if (left < this.items.length && this.before(this.items[left], this.items[best])) best = left;
+                if (right < this.items.length && this.before(this.items[right], this.items[best])) best = right;
+                if (best === idx) break;
+                [this.items[idx], this.items[best]] = [this.items[best], this.items[idx]];
+                idx = best;
+            }
+        }
+        return top;
+    }
+
+    toArray(): HeapItem[] {
+        return [...this.items];
+    }
+
+    private before(a: HeapItem, b: HeapItem): boolean {
+        return this.maxHeap ? a.distance > b.distance : a.distance < b.distance;
+    }
+}
+
+/**
+ * Hierarchical Navigable Small World graph for approximate nearest-neighbour search
+ * (Malkov & Yashunin, 2016). Deletes are tombstones: deleted nodes stay in the
+ * graph to keep it navigable but are never returned; call rebuild() to drop them.
+ */
+export class HNSWIndex {
+    private options: Required<HNSWIndexOptions>;
+    private nodes: HNSWNode[] = [];
+    private idToNode: Map<string, number> = new Map();
+    private entryPoint = -1;
+    private maxLevel = -1;
+    private rngState: number;
+    private levelMultiplier: number;
+
+    constructor(options: HNSWIndexOptions = {}) {
+        this.options = {
+            M: options.M ?? 16,
+            efConstruction: options.efConstruction ?? 200,
+            efSearch: options.efSearch ?? 50,
+            space: options.space ?? 'cosine',
+            seed: options.seed ?? 42,
+        };
+
+        if (this.options.M < 2) {
+            throw new Error('HNSW M must be at least 2');
+        }
+
+        this.rngState = this.options.seed >>> 0;
+        this.levelMultiplier = 1 / Math.log(this.options.M);
+    }
+
+    /**
+     * Number of live (non-deleted) vectors
+     */
+    get size(): number {
+        return this.idToNode.size;
+    }
+
+    /**
+     * Number of tombstoned nodes still held in the graph
+     */
+    get tombstones(): number {
+        return this.nodes.length - this.idToNode.size;
+    }
+
+    has(id: string): boolean {
+        return this.idToNode.has(id);
+    }
+
+    /**
+     * Insert a vector; re-inserting an existing id replaces it
+     */
+    add(id: string, vector: number[]): void {
+        if (this.idToNode.has(id)) {
+            this.delete(id);
+        }
+
+        const level = this.randomLevel();
+        const node: HNSWNode = {
+            id,
+            vector: this.prepare(vector),
+            level,
+            neighbors: Array.from({ length: level + 1 }, () => []),
+            deleted: false,
+        };
+        const nodeIdx = this.nodes.length;
+        this.nodes.push(node);
+        this.idToNode.set(id, nodeIdx);
+
+        if (this.entryPoint === -1) {
+            this.entryPoint = nodeIdx;
+            this.maxLevel = level;
+            return;
+        }
+
+        // Greedy descent through the layers above the new node's level
+        let entry = this.entryPoint;
+        for (let layer = this.maxLevel; layer > level; layer--) {
+            entry = this.searchLayer(node.vector, [entry], 1, layer)[0].node;
+        }
+
+        // Connect the node on every layer it lives on
+        let entryPoints = [entry];
+        for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+            const candidates = this.searchLayer(node.vector, entryPoints, this.options.efConstruction, layer);
+            const neighbors = this.selectNeighbors(candidates, this.options.M);
+            node.neighbors[layer] = neighbors.map((item) => item.node);
+
+            for (const neighbor of node.neighbors[layer]) {
+                const links = this.nodes[neighbor].neighbors[layer];
+                links.push(nodeIdx);
+                if (links.length > this.maxConnections(layer)) {
+                    this.shrinkConnections(neighbor, layer);
+                }
+            }
+
+            entryPoints = candidates.map((item) => item.node);
+        }
+
+        if (level > this.maxLevel) {
+            this.maxLevel = level;
+            this.entryPoint = nodeIdx;
+        }
+    }
+
+    /**
+     * Tombstone a vector
+     * @returns Whether the id was present
+     */
+    delete(id: string): boolean {
+        const nodeIdx = this.idToNode.get(id);
+        if (nodeIdx === undefined) return false;
+
+        this.nodes[nodeIdx].deleted = true;
+        this.idToNode.delete(id);
+        return true;
+    }
+
+    /**
+     * Find the k nearest live vectors
+     */
+    search(query: number[], k: number, options: HNSWSearchOptions = {}): HNSWResult[] {
+        if (this.entryPoint === -1 || k <= 0) return [];
+
+        const vector = this.prepare(query);
+        const ef = Math.max(options.ef ?? this.options.efSearch, k);
+
+        let entry = this.entryPoint;
+        for (let layer = this.maxLevel; layer > 0; layer--) {
+            entry = this.searchLayer(vector, [entry], 1, layer)[0].node;
+        }
+
+        const accept = (nodeIdx: number): boolean => {
+            const node = this.nodes[nodeIdx];
+            return !node.deleted && (!options.filter || options.filter(node.id));
+        };
+
+        return this.searchLayer(vector, [entry], ef, 0, accept)
+            .slice(0, k)
+            .map((item) => ({ id: this.nodes[item.node].id, distance: item.distance }));
+    }
+
+    /**
+     * Build a fresh index containing only live vectors
+     */
+    rebuild(): HNSWIndex {
+        const index = new HNSWIndex(this.options);
+        for (const nodeIdx of this.idToNode.values()) {
+            const node = this.nodes[nodeIdx];
+            index.add(node.id, node.vector);
+        }
+        return index;
+    }
+
+    serialize(): SerializedHNSWIndex {
+        return {
+            version: 1,
+            options: { ...this.options },
+            entryPoint: this.entryPoint,
+            maxLevel: this.maxLevel,
+            rngState: this.rngState,
+            nodes: this.nodes,
+        };
+    }
+
+    static deserialize(data: SerializedHNSWIndex): HNSWIndex {
+        if (data.version !== 1) {
+            throw new Error(`Unsupported HNSW index version: ${data.version}`);
+        }
+
+        const index = new HNSWIndex(data.options);
+        index.nodes = data.nodes;
+        index.entryPoint = data.entryPoint;
+        index.maxLevel = data.maxLevel;
+        index.rngState = data.rngState;
+        data.nodes.forEach((node, idx) => {
+            if (!node.deleted) index.idToNode.set(node.id, idx);
+        });
+        return index;
+    }
+
+    /**
+     * Write the index to a file
+     */
+    async save(filePath: string): Promise<void> {
+        const tempPath = `${filePath}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(this.serialize()));
+        await fs.rename(tempPath, filePath);
+    }
+
+    /**
+     * Read an index written by save()
+     */
+    static async load(filePath: string): Promise<HNSWIndex> {
+        const raw = await fs.readFile(filePath, 'utf-8');
+        return HNSWIndex.deserialize(JSON.parse(raw));
+    }
+
+    /**
+     * Best-first search on one layer
+     * @returns Up to ef closest accepted nodes, nearest first
+     */
+    private searchLayer(
+        query: number[],
+        entryPoints: number[],
+        ef: number,
+        layer: number,
+        accept?: (nodeIdx: number) => boolean
+    ): HeapItem[] {
+        const visited = new Set<number>(entryPoints);
+        const candidates = new DistanceHeap(false);
+        const results = new DistanceHeap(true);
+
+        for (const nodeIdx of entryPoints) {
+            const item = { node: nodeIdx, distance: this.distance(query, this.nodes[nodeIdx].vector) };
+            candidates.push(item);
+            if (!accept || accept(nodeIdx)) results.push(item);
+        }
+
+        while (candidates.size > 0) {
+            const current = candidates.pop()!;
+            const furthest = results.peek();
+            if (furthest && results.size >= ef && current.distance > furthest.distance) break;
+
+            for (const neighbor of this.nodes[current.node].neighbors[layer] || []) {
+                if (visited.has(neighbor)) continue;
+                visited.add(neighbor);
+
+                const distance = this.distance(query, this.nodes[neighbor].vector);
+                const bound = results.peek();
+                if (results.size < ef || !bound || distance < bound.distance) {
+                    candidates.push({ node: neighbor, distance });
+                    if (!accept || accept(neighbor)) {
+                        results.push({ node: neighbor, distance });
+                        if (results.size > ef) results.pop();
+                    }
+                }
+            }
+        }
+
+        return results.toArray().sort((a, b) => a.distance - b.distance);
+    }
+
+    /**
+     * Neighbour selection heuristic: prefer candidates that are closer to the
+     * base node than to any already selected neighbour, keeping the graph diverse
+     */
+    private selectNeighbors(candidates: HeapItem[], max: number): HeapItem[] {
+        const selected: HeapItem[] = [];
+        const pruned: HeapItem[] = [];
+
+        for (const candidate of candidates) {
+            if (selected.length >= max) break;
+            const vector = this.nodes[candidate.node].vector;
+            const diverse = selected.every(
+                (item) => this.distance(vector, this.nodes[item.node].vector) > candidate.distance
+            );
+            (diverse ? selected : pruned).push(candidate);
+        }
+
+        // Top up with pruned candidates so sparse regions stay connected
+        for (const candidate of pruned) {
+            if (selected.length >= max) break;
+            selected.push(candidate);
+        }
+
+        return selected;
+    }
+
+    private shrinkConnections(nodeIdx: number, layer: number): void {
+        const node = this.nodes[nodeIdx];
+        const candidates = node.neighbors[layer]
+            .map((neighbor) => ({ node: neighbor, distance: this.distance(node.vector, this.nodes[neighbor].vector) }))
+            .sort((a, b) => a.distance - b.distance);
+        node.neighbors[layer] = this.selectNeighbors(candidates, this.maxConnections(layer)).map((item) => item.node);
+    }
+
+    private maxConnections(layer: number): number {
+        return layer === 0 ? this.options.M * 2 : this.options.M;
+    }
+
+    private randomLevel(): number {
+        // mulberry32
+        this.rngState = (this.rngState + 0x6d2b79f5) >>> 0;
+        let t = this.rngState;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        const random = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+
+        return Math.floor(-Math.log(1 - random) * this.levelMultiplier);
+    }
+
+    /**
+     * Cosine vectors are normalised once on the way in, so cosine distance is 1 - dot
+     */
+    private prepare(vector: number[]): number[] {
+        if (this.options.space !== 'cosine') return [...vector];
+
+        const magnitude = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
+        return magnitude === 0 ? [...vector] : vector.map((val) => val / magnitude);
+    }
+
+    private distance(a: number[], b: number[]): number {
+        if (this.options.space === 'euclidean') {
+            let sum = 0;
+            for (let i = 0; i < a.length; i++) {
+                const diff = a[i] - b[i];
+                sum += diff * diff;
+            }
+            return Math.sqrt(sum);
+        }
+
+        let dot = 0;
+        for (let i = 0; i < a.length; i++) {
+            dot += a[i] * b[i];
+        }
+        return this.options.space === 'cosine' ? 1 - dot : -dot;
+    }
+}
@@ -0,0 +1,32 @@
+/**
+ * Options for a JSON HTTP request
+ */
+export interface JsonRequestOptions {
+    method?: string;
+    body?: unknown;
+    headers?: Record<string, string>;
+}
+
+/**
+ * Send a JSON request and parse the JSON response
+ * Used by the vector stores that talk to their backend over a REST API
+ */
+export async function jsonRequest<T = any>(url: string, options: JsonRequestOptions = {}): Promise<T> {
+    const method = options.method || 'GET';
+    const response = await fetch(url, {
+        method,
+        headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json',
+            ...options.headers,
+        },
+        body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+
+    const text = await response.text();
+    if (!response.ok) {
+        throw new Error(`${method} ${url} failed with status ${response.status}: ${text}`);
+    }
+
+    return (text ? JSON.parse(text) : undefined) as T;
+}
@@ -0,0 +1,15 @@
+import { v5 as uuidv5, validate as uuidValidate } from 'uuid';
+
+/**
+ * Namespace for deriving point ids from document ids
+ */
+const ID_NAMESPACE = '7d3c6a52-3f0e-4d5b-9c53-2a4f8f1b6e10';
+
+/**
+ * Map an arbitrary document id to a UUID, for backends that only accept UUID ids.
+ * UUIDs pass through unchanged; anything else maps to a deterministic UUIDv5,
+ * so the same document id always addresses the same point.
+ */
+export function toUuid(id: string): string {
+    return uuidValidate(id) ? id.toLowerCase() : uuidv5(id, ID_NAMESPACE);
+}
@@ -1,41 +1,283 @@
-import { VectorStore, VectorStoreConfig, EmbeddingModel } from '../core/types';
+import {
+    VectorStore,
+    VectorStoreConfig,
+    VectorStoreOptionsMap,
+    EmbeddingModel,
+    BuiltInVectorStoreType,
+} from '../core/types';
 import { QdrantVectorStore } from './qdrant';
 import { OpenSearchVectorStore } from './opensearch';
+import { ElasticsearchVectorStore } from './elasticsearch';
+import { ChromaVectorStore } from './chroma';
+import { WeaviateVectorStore } from './weaviate';
+import { MilvusVectorStore } from './milvus';
+import { PgVectorStore } from './pgvector';
+import { SqliteVectorStore } from './sqlite';
+import { RedisVectorStore } from './redis';
+import { InMemoryVectorStore } from './memory';
+import { FileVectorStore } from './file';
+import { ConfigFieldSchema, createRegisteredVectorStore, registerVectorStore } from './registry';
+
+type StoreOptions<T extends BuiltInVectorStoreType> = VectorStoreOptionsMap[T];
+
+const hnswOptions: ConfigFieldSchema = {
+    type: 'object',
+    properties: {
+        M: { type: 'number' },
+        efConstruction: { type: 'number' },
+        efSearch: { type: 'number' },
+        space: { type: 'string', enum: ['cosine'] },
+        seed: { type: 'number' },
+    },
+};
+
+const metadataSchema: ConfigFieldSchema = { type: 'object' };
+
+const usernamePassword: ConfigFieldSchema = {
+    type: 'object',
+    properties: {
+        username: { type: 'string', required: true },
+        password: { type: 'string', required: true },
+    },
+};
+
+registerVectorStore<StoreOptions<'qdrant'>>(
+    'qdrant',
+    (options, embeddingModel) =>
+        new QdrantVectorStore(options.url, options.collectionName, embeddingModel, options.apiKey, {
+            metadataSchema: options.metadataSchema,
+            filterableFields: options.filterableFields,
+            vectors: options.vectors,
+            searchVector: options.searchVector,
+            sparse: options.sparse,
+        }),
+    {
+        fields: {
+            url: { type: 'string', required: true },
+            apiKey: { type: 'string' },
+            collectionName: { type: 'string', required: true },
+            metadataSchema,
+            filterableFields: { type: 'object' },
+            vectors: { type: 'object' },
+            searchVector: { type: 'string' },
+            sparse: {
+                type: 'object',
+                properties: { name: { type: 'string' }, modifier: { type: 'string', enum: ['idf', 'none'] } },
+            },
+        },
+    }
+);
+
+registerVectorStore<StoreOptions<'opensearch'>>(
+    'opensearch',
+    (options, embeddingModel) =>
+        new OpenSearchVectorStore(options.node, options.indexName, embeddingModel, options.auth, {
+            metadataSchema: options.metadataSchema,
+        }),
+    {
+        fields: {
+            node: { type: 'string', required: true },
+            auth: usernamePassword,
+            indexName: { type: 'string', required: true },
+            metadataSchema,
+        },
+    }
+);
+
+registerVectorStore<StoreOptions<'elasticsearch'>>(
+    'elasticsearch',
+    (options, embeddingModel) =>
+        new ElasticsearchVectorStore(options.node, options.indexName, embeddingModel, options.auth, {
+            numCandidatesFactor: options.numCandidatesFactor,
+            metadataSchema: options.metadataSchema,
+        }),
+    {
+        fields: {
+            node: { type: 'string', required: true },
+            // Either username/password or apiKey
+            auth: {
+                type: 'object',
+                properties: { username: { type: 'string' }, password: { type: 'string' }, apiKey: { type: 'string' } },
+            },
+            indexName: { type: 'string', required: true },
+            numCandidatesFactor: { type: 'number' },
+            metadataSchema,
+        },
+    }
+);
+
+registerVectorStore<StoreOptions<'chroma'>>(
+    'chroma',
+    (options, embeddingModel) =>
+        new ChromaVectorStore(options.url, options.collectionName, embeddingModel, {
+            token: options.token,
+            tenant: options.tenant,
+            database: options.database,
+        }),
+    {
+        fields: {
+            url: { type: 'string', required: true },
+            collectionName: { type: 'string', required: true },
+            token: { type: 'string' },
+            tenant: { type: 'string' },
+            database: { type: 'string' },
+        },
+    }
+);
+
+registerVectorStore<StoreOptions<'weaviate'>>(
+    'weaviate',
+    (options, embeddingModel) =>
+        new WeaviateVectorStore(options.url, options.className, embeddingModel, options.apiKey),
+    {
+        fields: {
+            url: { type: 'string', required: true },
+            className: { type: 'string', required: true },
+            apiKey: { type: 'string' },
+        },
+    }
+);
+
+registerVectorStore<StoreOptions<'milvus'>>(
+    'milvus',
+    (options, embeddingModel) =>
+        new MilvusVectorStore(options.url, options.collectionName, embeddingModel, options.token),
+    {
+        fields: {
+            url: { type: 'string', required: true },
+            collectionName: { type: 'string', required: true },
+            token: { type: 'string' },
+        },
+    }
+);
+
+registerVectorStore<StoreOptions<'pgvector'>>(
+    'pgvector',
+    (options, embeddingModel) =>
+        new PgVectorStore(options.connectionString, options.tableName, embeddingModel, {
+            indexType: options.indexType,
+            hnsw: options.hnsw,
+            lists: options.lists,
+        }),
+    {
+        fields: {
+            connectionString: { type: 'string', required: true },
+            tableName: { type: 'string', required: true },
+            indexType: { type: 'string', enum: ['hnsw', 'ivfflat', 'none'] },
+            hnsw: {
+                type: 'object',
+                properties: {
+                    m: { type: 'number' },
+                    efConstruction: { type: 'number' },
+                },
+            },
+            lists: { type: 'number' },
+        },
+    }
+);
+
+registerVectorStore<StoreOptions<'sqlite'>>(
+    'sqlite',
+    (options, embeddingModel) =>
+        new SqliteVectorStore(options.filePath, embeddingModel, { tableName: options.tableName }),
+    {
+        fields: {
+            filePath: { type: 'string', required: true },
+            tableName: { type: 'string' },
+        },
+    }
+);
+
+registerVectorStore<StoreOptions<'redis'>>(
+    'redis',
+    (options, embeddingModel) =>
+        new RedisVectorStore(options.url, options.indexName, embeddingModel, {
+            metadataSchema: options.metadataSchema,
+        }),
+    {
+        fields: {
+            url: { type: 'string', required: true },
+            indexName: { type: 'string', required: true },
+            metadataSchema,
+        },
+    }
+);
+
+registerVectorStore<StoreOptions<'memory'> | undefined>(
+    'memory',
+    (options, embeddingModel) => new InMemoryVectorStore(embeddingModel, { hnsw: options?.hnsw }),
+    {
+        required: false,
+        fields: { hnsw: hnswOptions },
+    }
+);
+
+registerVectorStore<StoreOptions<'file'>>(
+    'file',
+    (options, embeddingModel) =>
+        new FileVectorStore(options.directory, embeddingModel, {
+            compactionThreshold: options.compactionThreshold,
+            hnsw: options.hnsw,
+        }),
+    {
+        fields: {
+            directory: { type: 'string', required: true },
+            compactionThreshold: { type: 'number' },
+            hnsw: hnswOptions,
+        },
+    }
+);
 
 /**
  * Factory function to create a vector store based on configuration
+ *
+ * Resolves `config.type` through the vector store registry, so stores added
+ * with `registerVectorStore` are created the same way as the built-in ones.
+ * @throws Error naming the offending field when the config is invalid
  */
-export function createVectorStore(
-    config: VectorStoreConfig,
-    embeddingModel: EmbeddingModel
-): VectorStore {
-    switch (config.type) {
-        case 'qdrant':
-            if (!config.qdrant) {
-                throw new Error('Qdrant configuration is required');
-            }
-            return new QdrantVectorStore(
-                config.qdrant.url,
-                config.qdrant.collectionName,
-                embeddingModel,
-                config.qdrant.apiKey
-            );
-
-        case 'opensearch':
-            if (!config.opensearch) {
-                throw new Error('OpenSearch configuration is required');
-            }
-            return new OpenSearchVectorStore(
-                config.opensearch.node,
-                config.opensearch.indexName,
-                embeddingModel,
-                config.opensearch.auth
-            );
-
-        default:
-            throw new Error(`Unsupported vector store type: ${config.type}`);
-    }
+export function createVectorStore(config: VectorStoreConfig, embeddingModel: EmbeddingModel): VectorStore {
+    return createRegisteredVectorStore(config, embeddingModel);
 }
 
+export {
+    registerVectorStore,
+    unregisterVectorStore,
+    getVectorStoreTypes,
+    validateVectorStoreConfig,
+} from './registry';
+export type { ConfigFieldSchema, ConfigFieldType, VectorStoreConfigSchema, VectorStoreFactory } from './registry';
+export { parseFilterExpression, toFilterExpression } from './filters/filter-expression';
+export { matchesFilter } from './filters/memory-filter';
+export { hasConditions, validateFilter } from './filters/validate-filter';
+export { coerceMetadata, validateMetadataSchema } from './metadata-schema';
+export { fuseRankedLists, fuseResults } from './fusion';
+export type { FusedResult, FusionOptions } from './fusion';
+export { applyMinScore, fromElasticsearchCosineScore, fromOpenSearchCosineScore } from './scores';
 export { QdrantVectorStore } from './qdrant';
+export type {
+    QdrantNamedVector,
+    QdrantPayloadIndexType,
+    QdrantSparseVectorOptions,
+    QdrantVectorStoreOptions,
+} from './qdrant';
 export { OpenSearchVectorStore } from './opensearch';
+export type { OpenSearchVectorStoreOptions } from './opensearch';
+export { ElasticsearchVectorStore } from './elasticsearch';
+export type { ElasticsearchAuth, ElasticsearchVectorStoreOptions } from './elasticsearch';
+export { ChromaVectorStore } from './chroma';
+export type { ChromaVectorStoreOptions } from './chroma';
+export { WeaviateVectorStore } from './weaviate';
+export { MilvusVectorStore } from './milvus';
+export { PgVectorStore } from './pgvector';
+export type { PgQueryable, PgVectorStoreOptions } from './pgvector';
+export { SqliteVectorStore } from './sqlite';
+export type { SqliteVectorStoreOptions } from './sqlite';
+export { RedisVectorStore } from './redis';
+export type { RedisClient, RedisVectorStoreOptions } from './redis';
+export type { RedisFieldType } from './filters/redis-filter';
+export { InMemoryVectorStore } from './memory';
+export type { InMemoryVectorStoreOptions, LocalHNSWOptions } from './memory';
+export { FileVectorStore } from './file';
+export type { FileVectorStoreOptions } from './file';
+export { HNSWIndex } from './hnsw';
+export type { HNSWIndexOptions, HNSWSearchOptions, HNSWResult, HNSWSpace } from './hnsw';
@@ -0,0 +1,270 @@
+import { InMemoryVectorStore, cosineSimilarity } from '../vector-store/memory';
+import { createVectorStore } from '../vector-store';
+import { MockEmbeddingModel } from '../core/embedding';
+
+describe('InMemoryVectorStore', () => {
+    let embeddingModel: MockEmbeddingModel;
+    let store: InMemoryVectorStore;
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        embeddingModel = new MockEmbeddingModel(32);
+        store = new InMemoryVectorStore(embeddingModel);
+        await store.initialize();
+        await store.addDocuments([
+            { id: 'a', content: 'alpha', metadata: { category: 'tech', year: 2022, tags: ['ai', 'ml'] } },
+            { id: 'b', content: 'beta', metadata: { category: 'tech', year: 2024, tags: ['web'] } },
+            { id: 'c', content: 'gamma', metadata: { category: 'science', year: 2023 } },
+        ]);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should return the exact match first', async () => {
+        const results = await store.similaritySearch('beta', 3);
+        expect(results.length).toBe(3);
+        expect(results[0].document.id).toBe('b');
+        expect(results[0].score).toBeCloseTo(1, 5);
+    });
+
+    it('should accept a query vector', async () => {
+        const vector = await embeddingModel.embedText('gamma');
+        const results = await store.similaritySearch(vector, 1);
+        expect(results[0].document.id).toBe('c');
+    });
+
+    it('should limit results to k', async () => {
+        const results = await store.similaritySearch('alpha', 2);
+        expect(results.length).toBe(2);
+    });
+
+    it('should drop results below minScore instead of padding to k', async () => {
+        const results = await store.similaritySearch('beta', 3, undefined, { minScore: 0.99 });
+        expect(results.map((r) => r.document.id)).toEqual(['b']);
+        expect(results[0].rawScore).toBe(results[0].score);
+    });
+
+    it('should return stored embeddings only when asked', async () => {
+        const [plain] = await store.similaritySearch('alpha', 1);
+        expect(plain.embedding).toBeUndefined();
+
+        const [withEmbedding] = await store.similaritySearch('alpha', 1, undefined, { includeEmbeddings: true });
+        expect(withEmbedding.embedding).toEqual(await embeddingModel.embedText('alpha'));
+    });
+
+    it('should upsert documents by id', async () => {
+        await store.addDocuments([{ id: 'a', content: 'alpha v2', metadata: { category: 'news' } }]);
+        expect(store.size()).toBe(3);
+
+        const results = await store.similaritySearch('alpha v2', 1);
+        expect(results[0].document).toEqual({ id: 'a', content: 'alpha v2', metadata: { category: 'news' } });
+    });
+
+    it('should delete documents', async () => {
+        await store.deleteDocuments(['a', 'b']);
+        const results = await store.similaritySearch('alpha', 5);
+        expect(results.map((r) => r.document.id)).toEqual(['c']);
+    });
+
+    describe('metadata filters', () => {
+        const ids = async (filter: any) =>
+            (await store.similaritySearch('alpha', 10, filter)).map((r) => r.document.id).sort();
+
+        it('should filter by equality', async () => {
+            expect(await ids({ equals: { category: 'tech' } })).toEqual(['a', 'b']);
+        });
+
+        it('should match any element of array fields', async () => {
+            expect(await ids({ equals: { tags: 'ml' } })).toEqual(['a']);
+            expect(await ids({ in: { tags: ['web', 'ml'] } })).toEqual(['a', 'b']);
+        });
+
+        it('should filter by numeric ranges', async () => {
+            expect(await ids({ greaterThan: { year: 2022 } })).toEqual(['b', 'c']);
+            expect(await ids({ greaterThanOrEqual: { year: 2022 }, lessThan: { year: 2024 } })).toEqual([
+                'a',
+                'c',
+            ]);
+            expect(await ids({ lessThanOrEqual: { year: 2023 } })).toEqual(['a', 'c']);
+        });
+
+        it('should combine and/or/not', async () => {
+            expect(
+                await ids({
+                    and: [{ equals: { category: 'tech' } }],
+                    or: [{ equals: { year: 2024 } }, { equals: { tags: 'ai' } }],
+                })
+            ).toEqual(['a', 'b']);
+            expect(await ids({ not: { equals: { category: 'tech' } } })).toEqual(['c']);
+        });
+
+        it('should treat missing fields as non-matching', async () => {
+            expect(await ids({ equals: { tags: 'web' } })).toEqual(['b']);
+            expect(await ids({ not: { in: { tags: ['ai'] } } })).toEqual(['b', 'c']);
+        });
+    });
+
+    it('should get documents by id, skipping unknown ids', async () => {
+        const documents = await store.getDocuments(['c', 'missing', 'a']);
+        expect(documents.map((d) => d.id)).toEqual(['c', 'a']);
+    });
+
+    it('should return copies that callers can mutate without touching the store', async () => {
+        const [a] = await store.getDocuments(['a']);
+        a.metadata!.category = 'changed';
+        const { documents } = await store.listDocuments({ limit: 1 });
+        documents[0].metadata!.year = 1999;
+        const [hit] = await store.similaritySearch('query', 1, { equals: { category: 'tech' } });
+        hit.document.metadata!.extra = true;
+
+        expect(await store.count({ equals: { category: 'tech' } })).toBe(2);
+        const stored = (await store.listDocuments()).documents;
+        expect(stored[0].metadata).toEqual({ category: 'tech', year: 2022, tags: ['ai', 'ml'] });
+        stored.forEach((document) => expect(document.metadata).not.toHaveProperty('extra'));
+    });
+
+    it('should deep-copy array metadata on the way in and out', async () => {
+        const tags = ['x'];
+        const patch = { tags: ['p'] };
+        await store.addDocuments([{ id: 'e', content: 'epsilon', metadata: { tags } }]);
+        tags.push('in');
+
+        const [e] = await store.getDocuments(['e']);
+        (e.metadata!.tags as string[]).push('out');
+        expect((await store.getDocuments(['e']))[0].metadata).toEqual({ tags: ['x'] });
+
+        await store.updateMetadata(['e'], patch);
+        patch.tags.push('patched');
+        expect((await store.getDocuments(['e']))[0].metadata).toEqual({ tags: ['p'] });
+    });
+
+    it('should page through documents with a cursor', async () => {
+        const first = await store.listDocuments({ limit: 2 });
+        expect(first.documents.map((d) => d.id)).toEqual(['a', 'b']);
+        expect(first.nextCursor).toBeDefined();
+
+        const second = await store.listDocuments({ limit: 2, cursor: first.nextCursor });
+        expect(second.documents.map((d) => d.id)).toEqual(['c']);
+        expect(second.nextCursor).toBeUndefined();
+
+        const filtered = await store.listDocuments({ filter: { equals: { category: 'tech' } }, limit: 2 });
+        expect(filtered.documents.map((d) => d.id)).toEqual(['a', 'b']);
+        expect(filtered.nextCursor).toBeUndefined();
+    });
+
+    it('should delete documents by filter', async () => {
+        await store.deleteByFilter({ equals: { category: 'tech' } });
+        expect((await store.listDocuments()).documents.map((d) => d.id)).toEqual(['c']);
+    });
+
+    it('should merge a metadata patch by ids or filter', async () => {
+        await store.updateMetadata(['a', 'missing'], { reviewed: true });
+        await store.updateMetadata({ equals: { category: 'science' } }, { category: 'physics' });
+
+        const [a, c] = await store.getDocuments(['a', 'c']);
+        expect(a.metadata).toEqual({ category: 'tech', year: 2022, tags: ['ai', 'ml'], reviewed: true });
+        expect(c.metadata).toEqual({ category: 'physics', year: 2023 });
+        expect(await store.count({ equals: { category: 'physics' } })).toBe(1);
+    });
+
+    it('should count documents', async () => {
+        expect(await store.count()).toBe(3);
+        expect(await store.count({ greaterThan: { year: 2022 } })).toBe(2);
+    });
+});
+
+describe('InMemoryVectorStore with HNSW', () => {
+    it('should search and filter through the index', async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        const store = new InMemoryVectorStore(new MockEmbeddingModel(32), { hnsw: { M: 4 } });
+        const docs = Array.from({ length: 40 }, (_, idx) => ({
+            id: `d${idx}`,
+            content: `document ${idx}`,
+            metadata: { parity: idx % 2 === 0 ? 'even' : 'odd' },
+        }));
+        await store.addDocuments(docs);
+
+        const [top] = await store.similaritySearch('document 7', 1, undefined, { includeEmbeddings: true });
+        expect(top.document.id).toBe('d7');
+        expect(top.score).toBeCloseTo(1, 5);
+        expect(top.embedding).toHaveLength(32);
+
+        const filtered = await store.similaritySearch('document 7', 5, { equals: { parity: 'even' } });
+        expect(filtered.length).toBe(5);
+        filtered.forEach((r) => expect(r.document.metadata?.parity).toBe('even'));
+
+        await store.deleteDocuments(['d7']);
+        expect((await store.similaritySearch('document 7', 3)).map((r) => r.document.id)).not.toContain('d7');
+        jest.restoreAllMocks();
+    });
+});
+
+describe('InMemoryVectorStore HNSW tombstones', () => {
+    let store: InMemoryVectorStore;
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        store = new InMemoryVectorStore(new MockEmbeddingModel(8), { hnsw: {} });
+        await store.addDocuments(['a', 'b', 'c'].map((id) => ({ id, content: `content ${id}` })));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should patch metadata without touching the index', async () => {
+        for (let round = 0; round < 5; round++) {
+            await store.updateMetadata(['a', 'b', 'c'], { round });
+        }
+
+        expect(store['index']!.tombstones).toBe(0);
+        expect((await store.similaritySearch('content a', 1))[0].document.metadata).toEqual({ round: 4 });
+    });
+
+    it('should rebuild once re-embedded upserts leave more tombstones than live nodes', async () => {
+        for (let round = 0; round < 5; round++) {
+            await store.addDocuments(['a', 'b', 'c'].map((id) => ({ id, content: `content ${id} ${round}` })));
+            expect(store['index']!.tombstones).toBeLessThanOrEqual(3);
+        }
+        expect(store['index']!.size).toBe(3);
+    });
+});
+
+describe('InMemoryVectorStore HNSW space', () => {
+    it('should score hits by cosine similarity', async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        const embeddingModel = new MockEmbeddingModel(8);
+        const store = new InMemoryVectorStore(embeddingModel, { hnsw: { space: 'cosine' } });
+        await store.addDocuments([
+            { id: 'a', content: 'alpha' },
+            { id: 'b', content: 'beta' },
+        ]);
+
+        const queryVector = await embeddingModel.embedText('alpha');
+        const results = await store.similaritySearch(queryVector, 2, undefined, { minScore: -1 });
+        expect(results).toHaveLength(2);
+        for (const result of results) {
+            const expected = cosineSimilarity(queryVector, await embeddingModel.embedText(result.document.content));
+            expect(result.score).toBeCloseTo(expected, 10);
+            expect(result.rawScore).toBe(result.score);
+        }
+        expect(results[0].score).toBeGreaterThanOrEqual(results[1].score);
+        expect(results[0].document.id).toBe('a');
+        jest.restoreAllMocks();
+    });
+
+    it.each(['dot', 'euclidean'])('should reject a %s index', (space) => {
+        expect(() => new InMemoryVectorStore(new MockEmbeddingModel(8), { hnsw: { space } as any })).toThrow(
+            `Only the cosine HNSW space is supported, got "${space}"`
+        );
+    });
+});
+
+describe('createVectorStore', () => {
+    it('should create an in-memory store', () => {
+        const store = createVectorStore({ type: 'memory' }, new MockEmbeddingModel(8));
+        expect(store).toBeInstanceOf(InMemoryVectorStore);
+    });
+});
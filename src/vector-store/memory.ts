@@ -0,0 +1,341 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+    VectorStore,
+    Document,
+    SearchResult,
+    EmbeddingModel,
+    MetadataFilter,
+    Metadata,
+    SimilaritySearchOptions,
+    ListDocumentsOptions,
+    DocumentPage,
+} from '../core/types';
+import { matchesFilter } from './filters/memory-filter';
+import { decodeCursor, encodeCursor, DEFAULT_PAGE_SIZE } from './cursor';
+import { HNSWIndex, HNSWIndexOptions } from './hnsw';
+import { applyMinScore } from './scores';
+
+/**
+ * A stored document together with its embedding
+ */
+export interface StoredDocument {
+    document: Document;
+    embedding: number[];
+}
+
+/**
+ * Deep-copy a document so callers cannot mutate stored state through it, nested values included
+ */
+function copyDocument(document: Document): Document {
+    return { ...document, metadata: structuredClone(document.metadata ?? {}) };
+}
+
+function sameVector(a: number[], b: number[]): boolean {
+    return a === b || (a.length === b.length && a.every((value, idx) => value === b[idx]));
+}
+
+/**
+ * Cosine similarity between two vectors
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dotProduct = 0;
+    let normA = 0;
+    let normB = 0;
+
+    for (let i = 0; i < a.length; i++) {
+        dotProduct += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+
+    if (normA === 0 || normB === 0) return 0;
+    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * HNSW options for the local stores, which always rank and score by cosine
+ */
+export type LocalHNSWOptions = Omit<HNSWIndexOptions, 'space'> & { space?: 'cosine' };
+
+/**
+ * In-memory vector store options
+ */
+export interface InMemoryVectorStoreOptions {
+    /** Search through an HNSW index instead of brute-force cosine */
+    hnsw?: LocalHNSWOptions;
+}
+
+/**
+ * In-memory vector store implementation
+ * Brute-force cosine search by default, or approximate search through an HNSW index
+ */
+export class InMemoryVectorStore implements VectorStore {
+    protected documents: Map<string, StoredDocument> = new Map();
+    protected index?: HNSWIndex;
+    protected embeddingModel: EmbeddingModel;
+    protected dimension: number;
+    protected storeName = 'in-memory store';
+    private hnswOptions?: LocalHNSWOptions;
+
+    constructor(embeddingModel: EmbeddingModel, options: InMemoryVectorStoreOptions = {}) {
+        // Scores are cosine, so a dot or euclidean index would return hits out of score order
+        const space = options.hnsw?.space;
+        if (space !== undefined && space !== 'cosine') {
+            throw new Error(`Only the cosine HNSW space is supported, got "${space}"`);
+        }
+
+        this.embeddingModel = embeddingModel;
+        this.dimension = embeddingModel.getDimension();
+        this.hnswOptions = options.hnsw;
+        this.index = this.createIndex();
+    }
+
+    async initialize(): Promise<void> {
+        console.log('In-memory vector store ready');
+    }
+
+    async addDocuments(documents: Document[]): Promise<void> {
+        if (documents.length === 0) return;
+
+        try {
+            // Generate embeddings for documents
+            const texts = documents.map((doc) => doc.content);
+            const embeddings = await this.embeddingModel.embedBatch(texts);
+
+            const records: StoredDocument[] = documents.map((doc, idx) => {
+                const embedding = embeddings[idx];
+                if (embedding.length !== this.dimension) {
+                    throw new Error(
+                        `Expected embedding dimension ${this.dimension}, got ${embedding.length}`
+                    );
+                }
+
+                const id = doc.id || uuidv4();
+                return {
+                    document: {
+                        id,
+                        content: doc.content,
+                        metadata: structuredClone(doc.metadata ?? {}),
+                    },
+                    embedding,
+                };
+            });
+
+            await this.putDocuments(records);
+
+            console.log(`Added ${documents.length} documents to ${this.storeName}`);
+        } catch (error) {
+            throw new Error(`Failed to add documents to ${this.storeName}: ${error} `);
+        }
+    }
+
+    async similaritySearch(
+        query: string | number[],
+        k: number,
+        filter?: MetadataFilter,
+        options: SimilaritySearchOptions = {}
+    ): Promise<SearchResult[]> {
+        try {
+            // Get query embedding
+            let queryVector: number[];
+            if (typeof query === 'string') {
+                queryVector = await this.embeddingModel.embedText(query);
+            } else {
+                queryVector = query;
+            }
+
+            if (this.index) {
+                const accept = filter
+                    ? (id: string) => matchesFilter(this.documents.get(id)!.document.metadata, filter)
+                    : undefined;
+
+                const hits = this.index.search(queryVector, k, { filter: accept }).map((hit) => {
+                    const stored = this.documents.get(hit.id)!;
+                    const score = cosineSimilarity(queryVector, stored.embedding);
+                    return {
+                        document: copyDocument(stored.document),
+                        score,
+                        rawScore: score,
+                        ...(options.includeEmbeddings && { embedding: [...stored.embedding] }),
+                    };
+                });
+                return applyMinScore(hits, options.minScore);
+            }
+
+            const results: SearchResult[] = [];
+            for (const stored of this.documents.values()) {
+                if (filter && !matchesFilter(stored.document.metadata, filter)) continue;
+
+                const score = cosineSimilarity(queryVector, stored.embedding);
+                results.push({
+                    document: copyDocument(stored.document),
+                    score,
+                    rawScore: score,
+                    ...(options.includeEmbeddings && { embedding: [...stored.embedding] }),
+                });
+            }
+
+            return applyMinScore(results, options.minScore)
+                .sort((a, b) => b.score - a.score)
+                .slice(0, k);
+        } catch (error) {
+            throw new Error(`Failed to search in ${this.storeName}: ${error} `);
+        }
+    }
+
+    async deleteDocuments(ids: string[]): Promise<void> {
+        try {
+            await this.removeDocuments(ids);
+            console.log(`Deleted ${ids.length} documents from ${this.storeName}`);
+        } catch (error) {
+            throw new Error(`Failed to delete documents from ${this.storeName}: ${error} `);
+        }
+    }
+
+    async deleteByFilter(filter: MetadataFilter): Promise<void> {
+        try {
+            const ids = this.matchingRecords(filter).map((record) => record.document.id!);
+            if (ids.length > 0) {
+                await this.removeDocuments(ids);
+            }
+            console.log(`Deleted ${ids.length} documents from ${this.storeName}`);
+        } catch (error) {
+            throw new Error(`Failed to delete documents from ${this.storeName}: ${error} `);
+        }
+    }
+
+    async updateMetadata(target: string[] | MetadataFilter, patch: Metadata): Promise<void> {
+        try {
+            const records = Array.isArray(target)
+                ? target.flatMap((id) => this.documents.get(id) ?? [])
+                : this.matchingRecords(target);
+
+            // Embeddings are unchanged, so no re-embedding is needed
+            if (records.length > 0) {
+                await this.putDocuments(
+                    records.map(({ document, embedding }) => ({
+                        document: { ...document, metadata: { ...document.metadata, ...structuredClone(patch) } },
+                        embedding,
+                    }))
+                );
+            }
+            console.log(`Updated metadata of ${records.length} documents in ${this.storeName}`);
+        } catch (error) {
+            throw new Error(`Failed to update metadata in ${this.storeName}: ${error} `);
+        }
+    }
+
+    async getDocuments(ids: string[]): Promise<Document[]> {
+        return ids.flatMap((id) => {
+            const record = this.documents.get(id);
+            return record ? [copyDocument(record.document)] : [];
+        });
+    }
+
+    async listDocuments(options: ListDocumentsOptions = {}): Promise<DocumentPage> {
+        const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+        const after = options.cursor ? decodeCursor<string>(options.cursor) : undefined;
+
+        // Ordered by id, so the cursor (last id returned) stays valid across writes
+        const ids = Array.from(this.documents.keys())
+            .filter((id) => after === undefined || id > after)
+            .sort();
+
+        const documents: Document[] = [];
+        for (const id of ids) {
+            const { document } = this.documents.get(id)!;
+            if (options.filter && !matchesFilter(document.metadata, options.filter)) continue;
+            if (documents.length === limit) {
+                return { documents, nextCursor: encodeCursor(documents[documents.length - 1].id) };
+            }
+            documents.push(copyDocument(document));
+        }
+        return { documents };
+    }
+
+    async count(filter?: MetadataFilter): Promise<number> {
+        if (!filter) return this.documents.size;
+
+        let count = 0;
+        for (const { document } of this.documents.values()) {
+            if (matchesFilter(document.metadata, filter)) count++;
+        }
+        return count;
+    }
+
+    async close(): Promise<void> {
+        this.documents.clear();
+        this.index = this.createIndex();
+        console.log('In-memory vector store closed');
+    }
+
+    /**
+     * Upsert embedded documents by id
+     * Subclasses override this to persist writes before they become visible
+     */
+    protected async putDocuments(records: StoredDocument[]): Promise<void> {
+        this.applyPut(records);
+    }
+
+    /**
+     * Remove documents by id
+     */
+    protected async removeDocuments(ids: string[]): Promise<void> {
+        this.applyRemove(ids);
+    }
+
+    /**
+     * Apply an upsert to the document map and search index
+     */
+    protected applyPut(records: StoredDocument[]): void {
+        for (const record of records) {
+            const id = record.document.id!;
+            const previous = this.documents.get(id);
+            this.documents.set(id, record);
+
+            // A metadata-only update keeps its vector, so its graph node stays as it is
+            if (!previous || !sameVector(previous.embedding, record.embedding)) {
+                this.index?.add(id, record.embedding);
+            }
+        }
+        this.compactIndex();
+    }
+
+    /**
+     * Apply a removal to the document map and search index
+     */
+    protected applyRemove(ids: string[]): void {
+        for (const id of ids) {
+            this.documents.delete(id);
+            this.index?.delete(id);
+        }
+        this.compactIndex();
+    }
+
+    /**
+     * Rebuild the index once tombstones, left by deletes and re-embedded upserts,
+     * outnumber live nodes; past that they only slow traversal down
+     */
+    private compactIndex(): void {
+        if (this.index && this.index.tombstones > this.index.size) {
+            this.index = this.index.rebuild();
+        }
+    }
+
+    private matchingRecords(filter: MetadataFilter): StoredDocument[] {
+        return Array.from(this.documents.values()).filter((record) =>
+            matchesFilter(record.document.metadata, filter)
+        );
+    }
+
+    protected createIndex(): HNSWIndex | undefined {
+        return this.hnswOptions ? new HNSWIndex(this.hnswOptions) : undefined;
+    }
+
+    /**
+     * Get the number of stored documents
+     */
+    size(): number {
+        return this.documents.size;
+    }
+}
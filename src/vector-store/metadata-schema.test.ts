@@ -0,0 +1,87 @@
+import { MetadataSchema } from '../core/types';
+import { coerceMetadata, validateMetadataSchema } from '../vector-store';
+import { coerceDocuments, toOpenSearchProperties } from '../vector-store/metadata-schema';
+
+describe('metadata schema', () => {
+    const schema: MetadataSchema = {
+        category: 'keyword',
+        title: 'text',
+        year: 'integer',
+        rating: 'float',
+        draft: 'boolean',
+        published: 'date',
+        tags: 'array',
+    };
+
+    it('should map declared types to OpenSearch field types', () => {
+        expect(toOpenSearchProperties(schema)).toEqual({
+            category: { type: 'keyword' },
+            title: { type: 'text' },
+            year: { type: 'long' },
+            rating: { type: 'double' },
+            draft: { type: 'boolean' },
+            published: { type: 'date' },
+            tags: { type: 'keyword' },
+        });
+    });
+
+    it('should coerce values to the declared types', () => {
+        expect(
+            coerceMetadata(
+                {
+                    category: 42,
+                    year: '2024',
+                    rating: ' 4.5 ',
+                    draft: 'TRUE',
+                    published: '2024-03-01T12:00:00+02:00',
+                    tags: 'ai',
+                    source: 'manual',
+                },
+                schema
+            )
+        ).toEqual({
+            category: '42',
+            year: 2024,
+            rating: 4.5,
+            draft: true,
+            published: '2024-03-01T10:00:00.000Z',
+            tags: ['ai'],
+            source: 'manual',
+        });
+        expect(coerceMetadata({ published: 0, tags: [1, 2] }, schema)).toEqual({
+            published: '1970-01-01T00:00:00.000Z',
+            tags: ['1', '2'],
+        });
+    });
+
+    it('should name every field that cannot be coerced', () => {
+        expect(() =>
+            coerceMetadata({ year: '2024.5', rating: 'high', draft: 'no', published: 'soon', category: ['a'] }, schema)
+        ).toThrow(
+            'Invalid metadata: "category" must be a single keyword value (got ["a"]); ' +
+                '"year" must be an integer (got "2024.5"); ' +
+                '"rating" must be a number (got "high"); ' +
+                '"draft" must be a boolean (got "no"); ' +
+                '"published" must be an ISO 8601 date (got "soon")'
+        );
+    });
+
+    it('should name the document that fails and leave documents alone without a schema', () => {
+        const documents = [
+            { id: 'a', content: 'x', metadata: { year: 2024 } },
+            { content: 'y', metadata: { year: 'later' } },
+        ];
+
+        expect(coerceDocuments(documents, {})).toBe(documents);
+        expect(() => coerceDocuments(documents, schema)).toThrow(
+            'Document #1: Invalid metadata: "year" must be a number (got "later")'
+        );
+    });
+
+    it('should reject unknown field types', () => {
+        expect(() => validateMetadataSchema({ year: 'number' } as unknown as MetadataSchema)).toThrow(
+            'Invalid metadata schema: "year" has unknown type "number" ' +
+                '(expected keyword, text, integer, float, boolean, date, array)'
+        );
+    });
+});
@@ -0,0 +1,142 @@
+import { Document, Metadata, MetadataFieldType, MetadataSchema } from '../core/types';
+
+type MetadataValue = Metadata[string];
+
+type OpenSearchFieldType = 'keyword' | 'text' | 'long' | 'double' | 'boolean' | 'date';
+
+/**
+ * OpenSearch/Elasticsearch field mapping for each declared type
+ */
+const OPENSEARCH_TYPES: Record<MetadataFieldType, OpenSearchFieldType> = {
+    keyword: 'keyword',
+    text: 'text',
+    integer: 'long',
+    float: 'double',
+    boolean: 'boolean',
+    date: 'date',
+    // Any field can hold several values, so a list of keywords maps like a keyword
+    array: 'keyword',
+};
+
+/**
+ * Mapping properties for the `metadata` object of an OpenSearch/Elasticsearch index
+ */
+export function toOpenSearchProperties(schema: MetadataSchema): Record<string, { type: OpenSearchFieldType }> {
+    return Object.fromEntries(Object.entries(schema).map(([field, type]) => [field, { type: OPENSEARCH_TYPES[type] }]));
+}
+
+/**
+ * Check that every declared field has a known type
+ * @throws Error naming every field with an unknown type
+ */
+export function validateMetadataSchema(schema: MetadataSchema): void {
+    const errors = Object.entries(schema)
+        .filter(([, type]) => !(type in OPENSEARCH_TYPES))
+        .map(([field, type]) => `"${field}" has unknown type ${describe(type)}`);
+    if (errors.length > 0) {
+        throw new Error(
+            `Invalid metadata schema: ${errors.join('; ')} (expected ${Object.keys(OPENSEARCH_TYPES).join(', ')})`
+        );
+    }
+}
+
+function describe(value: unknown): string {
+    return JSON.stringify(value) ?? String(value);
+}
+
+/**
+ * Coerce one value to a declared type
+ * @returns The coerced value, or an error message
+ */
+function coerceValue(type: MetadataFieldType, value: MetadataValue): { value: MetadataValue } | { error: string } {
+    if (type === 'array') {
+        const values: unknown[] = Array.isArray(value) ? value : [value];
+        if (!values.every((item) => ['string', 'number', 'boolean'].includes(typeof item))) {
+            return { error: `must be a list of strings (got ${describe(value)})` };
+        }
+        return { value: values.map(String) };
+    }
+
+    if (Array.isArray(value)) {
+        return { error: `must be a single ${type} value (got ${describe(value)})` };
+    }
+
+    switch (type) {
+        case 'keyword':
+        case 'text':
+            return { value: String(value) };
+
+        case 'integer':
+        case 'float': {
+            const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+            if (typeof number !== 'number' || !Number.isFinite(number)) {
+                return { error: `must be a number (got ${describe(value)})` };
+            }
+            if (type === 'integer' && !Number.isInteger(number)) {
+                return { error: `must be an integer (got ${describe(value)})` };
+            }
+            return { value: number };
+        }
+
+        case 'boolean':
+            if (typeof value === 'boolean') return { value };
+            if (typeof value === 'string' && ['true', 'false'].includes(value.toLowerCase())) {
+                return { value: value.toLowerCase() === 'true' };
+            }
+            return { error: `must be a boolean (got ${describe(value)})` };
+
+        case 'date': {
+            // Numbers are epoch milliseconds
+            const time = typeof value === 'string' ? Date.parse(value) : typeof value === 'number' ? value : NaN;
+            if (Number.isNaN(time)) {
+                return { error: `must be an ISO 8601 date (got ${describe(value)})` };
+            }
+            return { value: new Date(time).toISOString() };
+        }
+    }
+}
+
+/**
+ * Coerce metadata to a declared schema
+ *
+ * Numeric and boolean strings become numbers and booleans, dates become UTC
+ * ISO 8601 strings and array fields always hold a list of strings. Fields
+ * missing from the schema, and null values, are kept as they are.
+ * @throws Error naming every field that cannot be coerced
+ */
+export function coerceMetadata(metadata: Metadata | undefined, schema: MetadataSchema): Metadata {
+    const coerced: Metadata = { ...metadata };
+    const errors: string[] = [];
+
+    for (const [field, type] of Object.entries(schema)) {
+        const value = coerced[field];
+        if (value === undefined || value === null) continue;
+
+        const result = coerceValue(type, value);
+        if ('error' in result) {
+            errors.push(`"${field}" ${result.error}`);
+        } else {
+            coerced[field] = result.value;
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid metadata: ${errors.join('; ')}`);
+    }
+    return coerced;
+}
+
+/**
+ * Coerce the metadata of a batch of documents, naming the document that fails
+ */
+export function coerceDocuments(documents: Document[], schema: MetadataSchema): Document[] {
+    if (Object.keys(schema).length === 0) return documents;
+
+    return documents.map((doc, idx) => {
+        try {
+            return { ...doc, metadata: coerceMetadata(doc.metadata, schema) };
+        } catch (error) {
+            throw new Error(`Document ${doc.id ?? `#${idx}`}: ${(error as Error).message}`);
+        }
+    });
+}
@@ -0,0 +1,113 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { MilvusVectorStore } from '../vector-store/milvus';
+import { toMilvusFilter } from '../vector-store/filters/milvus-filter';
+import { MockEmbeddingModel } from '../core/embedding';
+
+describe('toMilvusFilter', () => {
+    it('should return an empty expression for an empty filter', () => {
+        expect(toMilvusFilter({})).toBe('');
+    });
+
+    it('should match scalar and array fields on equality', () => {
+        expect(toMilvusFilter({ equals: { tags: 'ai' } })).toBe(
+            '(metadata["tags"] == "ai" or json_contains(metadata["tags"], "ai"))'
+        );
+    });
+
+    it('should translate ranges, in and logical operators', () => {
+        expect(
+            toMilvusFilter({
+                greaterThan: { year: 2022 },
+                in: { lang: ['en', 'de'] },
+                or: [{ lessThanOrEqual: { a: 1 } }, { greaterThanOrEqual: { b: 2 } }],
+                not: { equals: { draft: true } },
+            })
+        ).toBe(
+            'metadata["year"] > 2022' +
+                ' and (metadata["lang"] in ["en", "de"] or json_contains_any(metadata["lang"], ["en", "de"]))' +
+                ' and ((metadata["a"] <= 1) or (metadata["b"] >= 2))' +
+                ' and not ((metadata["draft"] == true or json_contains(metadata["draft"], true)))'
+        );
+    });
+});
+
+describe('MilvusVectorStore', () => {
+    let server: Server;
+    let requests: Array<{ path: string; body: any }>;
+    let store: MilvusVectorStore;
+
+    beforeAll(async () => {
+        const app = express();
+        app.use(express.json({ limit: '10mb' }));
+        app.post('*path', (req, res) => {
+            requests.push({ path: req.path, body: req.body });
+            if (req.path.endsWith('/collections/has')) {
+                return res.json({ code: 0, data: { has: false } });
+            }
+            if (req.path.endsWith('/entities/search')) {
+                return res.json({
+                    code: 0,
+                    data: [{ id: 'a', distance: 0.8, content: 'alpha', metadata: { year: 2024 } }],
+                });
+            }
+            if (req.path.endsWith('/entities/delete')) {
+                return res.json({ code: 1100, message: 'collection not loaded' });
+            }
+            res.json({ code: 0, data: {} });
+        });
+        server = await new Promise<Server>((resolve) => {
+            const listening = app.listen(0, () => resolve(listening));
+        });
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        requests = [];
+        const { port } = server.address() as AddressInfo;
+        store = new MilvusVectorStore(`http://127.0.0.1:${port}`, 'docs', new MockEmbeddingModel(4));
+        await store.initialize();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should create the collection with a JSON metadata field', () => {
+        expect(requests[1].path).toBe('/v2/vectordb/collections/create');
+        const fields = requests[1].body.schema.fields.map((f: any) => `${f.fieldName}:${f.dataType}`);
+        expect(fields).toEqual(['id:VarChar', 'content:VarChar', 'metadata:JSON', 'vector:FloatVector']);
+    });
+
+    it('should upsert entities', async () => {
+        await store.addDocuments([{ id: 'a', content: 'alpha', metadata: { year: 2024 } }]);
+        expect(requests[2].path).toBe('/v2/vectordb/entities/upsert');
+        expect(requests[2].body.data[0]).toMatchObject({ id: 'a', content: 'alpha', metadata: { year: 2024 } });
+    });
+
+    it('should search with a filter expression', async () => {
+        const results = await store.similaritySearch([1, 0, 0, 0], 5, { greaterThan: { year: 2023 } });
+
+        expect(requests[2].body).toEqual({
+            collectionName: 'docs',
+            data: [[1, 0, 0, 0]],
+            annsField: 'vector',
+            limit: 5,
+            outputFields: ['content', 'metadata'],
+            filter: 'metadata["year"] > 2023',
+        });
+        expect(results).toEqual([
+            { document: { id: 'a', content: 'alpha', metadata: { year: 2024 } }, score: 0.8, rawScore: 0.8 },
+        ]);
+    });
+
+    it('should surface errors reported in the response body', async () => {
+        await expect(store.deleteDocuments(['a'])).rejects.toThrow('Milvus error 1100: collection not loaded');
+        expect(requests[2].body.filter).toBe('id in ["a"]');
+    });
+});
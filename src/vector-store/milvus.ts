@@ -0,0 +1,191 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+    VectorStore,
+    Document,
+    SearchResult,
+    EmbeddingModel,
+    MetadataFilter,
+    Metadata,
+    SimilaritySearchOptions,
+} from '../core/types';
+import { toMilvusFilter } from './filters/milvus-filter';
+import { jsonRequest } from './http';
+import { applyMinScore } from './scores';
+
+/**
+ * Envelope of every Milvus RESTful API response
+ */
+interface MilvusResponse<T> {
+    code: number;
+    message?: string;
+    data: T;
+}
+
+/**
+ * Entity returned by a search
+ */
+interface MilvusHit {
+    id: string;
+    distance: number;
+    content: string;
+    metadata: Metadata;
+    vector?: number[];
+}
+
+/**
+ * Milvus vector store implementation
+ * Talks to the Milvus v2 RESTful API (Milvus 2.4+ or Zilliz Cloud)
+ */
+export class MilvusVectorStore implements VectorStore {
+    private url: string;
+    private collectionName: string;
+    private embeddingModel: EmbeddingModel;
+    private dimension: number;
+    private token?: string;
+
+    constructor(url: string, collectionName: string, embeddingModel: EmbeddingModel, token?: string) {
+        this.url = url.replace(/\/+$/, '');
+        this.collectionName = collectionName;
+        this.embeddingModel = embeddingModel;
+        this.dimension = embeddingModel.getDimension();
+        this.token = token;
+    }
+
+    async initialize(): Promise<void> {
+        try {
+            // Check if collection exists
+            const { has } = await this.request<{ has: boolean }>('/v2/vectordb/collections/has', {
+                collectionName: this.collectionName,
+            });
+
+            if (!has) {
+                // Create collection with explicit schema and a cosine index
+                await this.request('/v2/vectordb/collections/create', {
+                    collectionName: this.collectionName,
+                    schema: {
+                        autoId: false,
+                        enableDynamicField: false,
+                        fields: [
+                            {
+                                fieldName: 'id',
+                                dataType: 'VarChar',
+                                isPrimary: true,
+                                elementTypeParams: { max_length: 512 },
+                            },
+                            { fieldName: 'content', dataType: 'VarChar', elementTypeParams: { max_length: 65535 } },
+                            { fieldName: 'metadata', dataType: 'JSON' },
+                            { fieldName: 'vector', dataType: 'FloatVector', elementTypeParams: { dim: this.dimension } },
+                        ],
+                    },
+                    indexParams: [{ fieldName: 'vector', indexName: 'vector', metricType: 'COSINE' }],
+                });
+                console.log(`Created Milvus collection: ${this.collectionName} `);
+            } else {
+                console.log(`Milvus collection already exists: ${this.collectionName} `);
+            }
+        } catch (error) {
+            throw new Error(`Failed to initialize Milvus: ${error} `);
+        }
+    }
+
+    async addDocuments(documents: Document[]): Promise<void> {
+        if (documents.length === 0) return;
+
+        try {
+            // Generate embeddings for documents
+            const texts = documents.map((doc) => doc.content);
+            const embeddings = await this.embeddingModel.embedBatch(texts);
+
+            await this.request('/v2/vectordb/entities/upsert', {
+                collectionName: this.collectionName,
+                data: documents.map((doc, idx) => ({
+                    id: doc.id || uuidv4(),
+                    content: doc.content,
+                    metadata: doc.metadata || {},
+                    vector: embeddings[idx],
+                })),
+            });
+
+            console.log(`Added ${documents.length} documents to Milvus`);
+        } catch (error) {
+            throw new Error(`Failed to add documents to Milvus: ${error} `);
+        }
+    }
+
+    async similaritySearch(
+        query: string | number[],
+        k: number,
+        filter?: MetadataFilter,
+        options: SimilaritySearchOptions = {}
+    ): Promise<SearchResult[]> {
+        try {
+            // Get query embedding
+            let queryVector: number[];
+            if (typeof query === 'string') {
+                queryVector = await this.embeddingModel.embedText(query);
+            } else {
+                queryVector = query;
+            }
+
+            const expression = filter ? toMilvusFilter(filter) : '';
+            const hits = await this.request<MilvusHit[]>('/v2/vectordb/entities/search', {
+                collectionName: this.collectionName,
+                data: [queryVector],
+                annsField: 'vector',
+                limit: k,
+                outputFields: ['content', 'metadata', ...(options.includeEmbeddings ? ['vector'] : [])],
+                ...(expression && { filter: expression }),
+            });
+
+            // Convert to SearchResult format; COSINE "distance" is already a similarity
+            const results = hits.map((hit) => ({
+                document: {
+                    id: hit.id,
+                    content: hit.content,
+                    metadata: hit.metadata,
+                },
+                score: hit.distance,
+                rawScore: hit.distance,
+                ...(hit.vector && { embedding: hit.vector }),
+            }));
+            return applyMinScore(results, options.minScore);
+        } catch (error) {
+            throw new Error(`Failed to search in Milvus: ${error} `);
+        }
+    }
+
+    async deleteDocuments(ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+
+        try {
+            await this.request('/v2/vectordb/entities/delete', {
+                collectionName: this.collectionName,
+                filter: `id in [${ids.map((id) => JSON.stringify(id)).join(', ')}]`,
+            });
+            console.log(`Deleted ${ids.length} documents from Milvus`);
+        } catch (error) {
+            throw new Error(`Failed to delete documents from Milvus: ${error} `);
+        }
+    }
+
+    async close(): Promise<void> {
+        // HTTP API is stateless
+        console.log('Milvus connection closed');
+    }
+
+    /**
+     * POST to the RESTful API; Milvus reports errors in the body with HTTP 200
+     */
+    private async request<T = any>(path: string, body: unknown): Promise<T> {
+        const response = await jsonRequest<MilvusResponse<T>>(`${this.url}${path}`, {
+            method: 'POST',
+            body,
+            headers: this.token ? { Authorization: `Bearer ${this.token}` } : undefined,
+        });
+
+        if (response.code !== 0) {
+            throw new Error(`Milvus error ${response.code}: ${response.message}`);
+        }
+        return response.data;
+    }
+}
@@ -0,0 +1,199 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { toOpenSearchFilter } from '../vector-store/filters/opensearch-filter';
+import { OpenSearchVectorStore } from '../vector-store/opensearch';
+import { MockEmbeddingModel } from '../core/embedding';
+
+describe('toOpenSearchFilter', () => {
+    it('should translate comparisons into a bool query', () => {
+        expect(toOpenSearchFilter({ equals: { category: 'tech' }, in: { tags: ['ai', 'ml'] } })).toEqual({
+            bool: {
+                must: [{ term: { 'metadata.category': 'tech' } }, { terms: { 'metadata.tags': ['ai', 'ml'] } }],
+            },
+        });
+    });
+
+    it('should translate exists, text, prefix and date range conditions', () => {
+        expect(
+            toOpenSearchFilter({
+                exists: { tags: true, archived: false },
+                textMatch: { title: 'vector search' },
+                prefix: { slug: 'guide' },
+                dateRange: { published: { gt: '2024-01-01T01:00:00+01:00' } },
+            })
+        ).toEqual({
+            bool: {
+                must: [
+                    { exists: { field: 'metadata.tags' } },
+                    { match: { 'metadata.title': { query: 'vector search', operator: 'and' } } },
+                    { prefix: { 'metadata.slug': 'guide' } },
+                    { range: { 'metadata.published': { gt: '2024-01-01T00:00:00.000Z' } } },
+                ],
+                must_not: [{ exists: { field: 'metadata.archived' } }],
+            },
+        });
+    });
+
+    it('should expand notEquals into a negated term', () => {
+        expect(toOpenSearchFilter({ notEquals: { category: 'art' } })).toEqual({
+            bool: {
+                must: [{ bool: { must_not: [{ bool: { must: [{ term: { 'metadata.category': 'art' } }] } }] } }],
+            },
+        });
+    });
+
+    it('should reject invalid dates', () => {
+        expect(() => toOpenSearchFilter({ dateRange: { published: { lt: 'yesterday' } } })).toThrow(
+            'Invalid date for "published": yesterday'
+        );
+    });
+});
+
+describe('OpenSearchVectorStore search', () => {
+    let server: Server;
+    let searches: any[];
+    let bulk: any[];
+    let admin: Array<{ method: string; path: string; body: any }>;
+    let store: OpenSearchVectorStore;
+
+    const hit = (id: string, score: number) => ({
+        _id: id,
+        _score: score,
+        _source: { content: `content ${id}`, metadata: { category: 'tech' } },
+    });
+
+    beforeAll(async () => {
+        const app = express();
+        app.post('/_bulk', express.text({ type: () => true, limit: '10mb' }), (req, res) => {
+            bulk = String(req.body)
+                .split('\n')
+                .filter(Boolean)
+                .map((line) => JSON.parse(line));
+            res.json({ errors: false, items: [] });
+        });
+        app.use(express.json({ limit: '10mb' }));
+        // An existing index whose documents predate docId
+        app.head('/docs', (req, res) => res.status(200).end());
+        app.post('/docs/_mapping', (req, res) => {
+            admin.push({ method: req.method, path: req.path, body: req.body });
+            res.json({ acknowledged: true });
+        });
+        app.post('/docs/_update_by_query', (req, res) => {
+            admin.push({ method: req.method, path: req.path, body: req.body });
+            res.json({ updated: 3 });
+        });
+        app.post('/docs/_search', (req, res) => {
+            searches.push(req.body);
+            // The kNN leg ranks a > b > c, the BM25 leg ranks c > a
+            const isKeyword = JSON.stringify(req.body.query).includes('"match"');
+            const hits = isKeyword ? [hit('c', 12), hit('a', 4)] : [hit('a', 1), hit('b', 0.75), hit('c', 0.5)];
+            // Sorted listings carry their sort values, for search_after
+            const sorted = hits.map((h) => ({ ...h, ...(req.body.sort && { sort: [h._id] }) }));
+            res.json({ hits: { hits: sorted.slice(0, req.body.size) } });
+        });
+        server = await new Promise<Server>((resolve) => {
+            const listening = app.listen(0, () => resolve(listening));
+        });
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        searches = [];
+        bulk = [];
+        admin = [];
+        const { port } = server.address() as AddressInfo;
+        store = new OpenSearchVectorStore(`http://127.0.0.1:${port}`, 'docs', new MockEmbeddingModel(4));
+    });
+
+    it('should report cosine similarity for kNN hits and drop those below minScore', async () => {
+        const results = await store.similaritySearch('vector search', 3, undefined, { minScore: 0.5 });
+
+        // cosinesimil scores 1 / (2 - cos): 1 -> 1, 0.75 -> 2/3, 0.5 -> 0
+        expect(results.map((r) => [r.document.id, r.rawScore])).toEqual([
+            ['a', 1],
+            ['b', 0.75],
+        ]);
+        expect(results[0].score).toBe(1);
+        expect(results[1].score).toBeCloseTo(2 / 3);
+    });
+
+    it('should run BM25 and kNN legs with the filter in both', async () => {
+        await store.hybridSearch('vector search', 2, { filter: { equals: { category: 'tech' } } });
+
+        const filter = { bool: { must: [{ term: { 'metadata.category': 'tech' } }] } };
+        const [knn, keyword] = searches;
+        expect(knn.size).toBe(4);
+        expect(knn.query.bool.filter).toEqual([filter]);
+        expect(keyword).toEqual({
+            size: 4,
+            query: { bool: { must: [{ match: { content: 'vector search' } }], filter: [filter] } },
+        });
+    });
+
+    it('should fuse normalised scores by weight', async () => {
+        const results = await store.hybridSearch('vector search', 3, { alpha: 0.5 });
+
+        // a: 0.5 * 1 + 0.5 * 0, c: 0.5 * 0 + 0.5 * 1, b: 0.5 * 0.5
+        expect(results.map((r) => [r.document.id, r.score])).toEqual([
+            ['a', 0.5],
+            ['c', 0.5],
+            ['b', 0.25],
+        ]);
+        expect(results[0].document).toEqual({ id: 'a', content: 'content a', metadata: { category: 'tech' } });
+    });
+
+    it('should fuse ranks with RRF', async () => {
+        const results = await store.hybridSearch('vector search', 2, { fusion: 'rrf', rrfK: 1 });
+
+        // a: 1/2 + 1/3, c: 1/4 + 1/2
+        expect(results.map((r) => r.document.id)).toEqual(['a', 'c']);
+        expect(results[0].score).toBeCloseTo(0.5 * (1 / 2 + 1 / 3));
+    });
+
+    it('should run the keyword leg on its own', async () => {
+        const results = await store.keywordSearch('vector search', 1);
+        expect(results).toEqual([
+            { document: { id: 'c', content: 'content c', metadata: { category: 'tech' } }, score: 12 },
+        ]);
+    });
+
+    it('should page through documents by docId with search_after', async () => {
+        const first = await store.listDocuments({ limit: 2 });
+        const second = await store.listDocuments({ limit: 2, cursor: first.nextCursor });
+
+        expect(first.documents.map((d) => d.id)).toEqual(['a', 'b']);
+        expect(searches[0]).toEqual({ size: 2, query: { match_all: {} }, sort: [{ docId: 'asc' }] });
+        expect(searches[1].search_after).toEqual(['b']);
+        expect(second.documents.map((d) => d.id)).toEqual(['a', 'b']);
+    });
+
+    it('should add and backfill docId on an existing index', async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        await store.initialize();
+        jest.restoreAllMocks();
+
+        const [mapping, backfill] = admin;
+        expect(mapping.body.properties.docId).toEqual({ type: 'keyword' });
+        expect(backfill.path).toBe('/docs/_update_by_query');
+        expect(backfill.body).toEqual({
+            query: { bool: { must_not: [{ exists: { field: 'docId' } }] } },
+            script: { lang: 'painless', source: 'ctx._source.docId = ctx._id;' },
+        });
+    });
+
+    it('should index each document with its docId', async () => {
+        await store.addDocuments([{ id: 'a', content: 'alpha' }]);
+
+        expect(bulk[1]).toMatchObject({ docId: 'a', content: 'alpha', metadata: {} });
+    });
+
+    it('should reject an alpha outside 0 to 1', async () => {
+        await expect(store.hybridSearch('vector search', 2, { alpha: 2 })).rejects.toThrow(
+            'alpha must be between 0 and 1 (got 2)'
+        );
+    });
+});
@@ -1,7 +1,40 @@
 import { Client } from '@opensearch-project/opensearch';
 import { v4 as uuidv4 } from 'uuid';
-import { VectorStore, Document, SearchResult, EmbeddingModel, MetadataFilter } from '../core/types';
+import {
+    VectorStore,
+    Document,
+    SearchResult,
+    EmbeddingModel,
+    MetadataFilter,
+    Metadata,
+    MetadataSchema,
+    HybridSearchOptions,
+    SimilaritySearchOptions,
+    ListDocumentsOptions,
+    DocumentPage,
+} from '../core/types';
 import { toOpenSearchFilter } from './filters/opensearch-filter';
+import { validateFilter } from './filters/validate-filter';
+import {
+    coerceDocuments,
+    coerceMetadata,
+    toOpenSearchProperties,
+    validateMetadataSchema,
+} from './metadata-schema';
+import { decodeCursor, encodeCursor, DEFAULT_PAGE_SIZE } from './cursor';
+import { fuseResults } from './fusion';
+import { applyMinScore, fromOpenSearchCosineScore } from './scores';
+
+/**
+ * OpenSearch vector store options
+ */
+export interface OpenSearchVectorStoreOptions {
+    /**
+     * Declared metadata fields: mapped with the matching type instead of dynamic
+     * mapping, coerced on write, and used to validate filters
+     */
+    metadataSchema?: MetadataSchema;
+}
 
 /**
  * OpenSearch vector store implementation
@@ -11,12 +44,14 @@ export class OpenSearchVectorStore implements VectorStore {
     private indexName: string;
     private embeddingModel: EmbeddingModel;
     private dimension: number;
+    private metadataSchema: MetadataSchema;
 
     constructor(
         node: string,
         indexName: string,
         embeddingModel: EmbeddingModel,
-        auth?: { username: string; password: string }
+        auth?: { username: string; password: string },
+        options: OpenSearchVectorStoreOptions = {}
     ) {
         this.client = new Client({
             node,
@@ -30,6 +65,8 @@ export class OpenSearchVectorStore implements VectorStore {
         this.indexName = indexName;
         this.embeddingModel = embeddingModel;
         this.dimension = embeddingModel.getDimension();
+        this.metadataSchema = options.metadataSchema || {};
+        validateMetadataSchema(this.metadataSchema);
     }
 
     async initialize(): Promise<void> {
@@ -50,6 +87,8 @@ export class OpenSearchVectorStore implements VectorStore {
                         },
                         mappings: {
                             properties: {
+                                // Copy of _id that can be sorted on, which _id cannot without fielddata
+                                docId: { type: 'keyword' },
                                 content: { type: 'text' },
                                 embedding: {
                                     type: 'knn_vector',
@@ -60,7 +99,11 @@ export class OpenSearchVectorStore implements VectorStore {
                                         engine: 'nmslib',
                                     },
                                 },
-                                metadata: { type: 'object', enabled: true },
+                                metadata: {
+                                    type: 'object',
+                                    enabled: true,
+                                    properties: toOpenSearchProperties(this.metadataSchema),
+                                },
                             },
                         },
                     },
@@ -68,16 +111,44 @@ export class OpenSearchVectorStore implements VectorStore {
                 console.log(`Created OpenSearch index: ${this.indexName} `);
             } else {
                 console.log(`OpenSearch index already exists: ${this.indexName} `);
+
+                // Mappings are additive, so docId and newly declared fields are picked up; changing a type fails
+                await this.client.indices.putMapping({
+                    index: this.indexName,
+                    body: {
+                        properties: {
+                            docId: { type: 'keyword' },
+                            metadata: { properties: toOpenSearchProperties(this.metadataSchema) },
+                        },
+                    },
+                });
+
+                // Documents indexed before docId existed would sort as null and be skipped by search_after
+                const backfill = await this.client.updateByQuery({
+                    index: this.indexName,
+                    refresh: true,
+                    body: {
+                        query: { bool: { must_not: [{ exists: { field: 'docId' } }] } },
+                        script: { lang: 'painless', source: 'ctx._source.docId = ctx._id;' },
+                    },
+                });
+                const backfilled = (backfill.body as any).updated ?? 0;
+                if (backfilled > 0) {
+                    console.log(`Backfilled docId on ${backfilled} documents in ${this.indexName} `);
+                }
             }
         } catch (error) {
             throw new Error(`Failed to initialize OpenSearch: ${error} `);
         }
     }
 
-    async addDocuments(documents: Document[]): Promise<void> {
-        if (documents.length === 0) return;
+    async addDocuments(input: Document[]): Promise<void> {
+        if (input.length === 0) return;
 
         try {
+            // Coerce before embedding, so invalid metadata fails fast
+            const documents = coerceDocuments(input, this.metadataSchema);
+
             // Generate embeddings
             const texts = documents.map((doc) => doc.content);
             const embeddings = await this.embeddingModel.embedBatch(texts);
@@ -88,6 +159,7 @@ export class OpenSearchVectorStore implements VectorStore {
                 return [
                     { index: { _index: this.indexName, _id: id } },
                     {
+                        docId: id,
                         content: doc.content,
                         embedding: embeddings[idx],
                         metadata: doc.metadata || {},
@@ -110,7 +182,12 @@ export class OpenSearchVectorStore implements VectorStore {
         }
     }
 
-    async similaritySearch(query: string | number[], k: number, filter?: MetadataFilter): Promise<SearchResult[]> {
+    async similaritySearch(
+        query: string | number[],
+        k: number,
+        filter?: MetadataFilter,
+        options: SimilaritySearchOptions = {}
+    ): Promise<SearchResult[]> {
         try {
             // Get query embedding
             let queryVector: number[];
@@ -120,59 +197,53 @@ export class OpenSearchVectorStore implements VectorStore {
                 queryVector = query;
             }
 
-            // Build query
-            let searchQuery: any;
-
-            if (filter) {
-                // Combine KNN with filter using bool query
-                const filterQuery = toOpenSearchFilter(filter);
-                searchQuery = {
-                    bool: {
-                        must: [
-                            {
-                                knn: {
-                                    embedding: {
-                                        vector: queryVector,
-                                        k: k * 2, // Fetch more candidates for filtering
-                                    },
-                                },
-                            },
-                            filterQuery,
-                        ],
-                    },
-                };
-            } else {
-                // Just KNN search
-                searchQuery = {
-                    knn: {
-                        embedding: {
-                            vector: queryVector,
-                            k: k,
-                        },
-                    },
-                };
+            const hits = await this.search(this.knnQuery(queryVector, k, filter), k, options.includeEmbeddings);
+            const results = hits.map((hit) => ({
+                ...hit,
+                score: fromOpenSearchCosineScore(hit.score),
+                rawScore: hit.score,
+            }));
+            return applyMinScore(results, options.minScore);
+        } catch (error) {
+            throw new Error(`Failed to search in OpenSearch: ${error} `);
+        }
+    }
+
+    async keywordSearch(query: string, k: number, filter?: MetadataFilter): Promise<SearchResult[]> {
+        try {
+            return await this.search(this.matchQuery(query, filter), k);
+        } catch (error) {
+            throw new Error(`Failed to run keyword search in OpenSearch: ${error} `);
+        }
+    }
+
+    /**
+     * BM25 `match` on content alongside kNN, with the filter applied to both legs
+     *
+     * Each leg fetches `candidates` hits; the lists are then fused by normalised
+     * weighted sum (`alpha` weights the vector leg) or RRF.
+     */
+    async hybridSearch(query: string, k: number, options: HybridSearchOptions = {}): Promise<SearchResult[]> {
+        try {
+            const alpha = options.alpha ?? 0.5;
+            if (alpha < 0 || alpha > 1) {
+                throw new Error(`alpha must be between 0 and 1 (got ${alpha})`);
             }
+            const candidates = Math.max(options.candidates ?? k * 2, k);
 
-            // KNN search
-            const response = await this.client.search({
-                index: this.indexName,
-                body: {
-                    size: k,
-                    query: searchQuery,
-                },
-            });
+            const queryVector = await this.embeddingModel.embedText(query);
+            const [vectorResults, keywordResults] = await Promise.all([
+                this.search(this.knnQuery(queryVector, candidates, options.filter), candidates),
+                this.search(this.matchQuery(query, options.filter), candidates),
+            ]);
 
-            // Convert to SearchResult format
-            return response.body.hits.hits.map((hit: any) => ({
-                document: {
-                    id: hit._id,
-                    content: hit._source.content,
-                    metadata: hit._source.metadata,
-                },
-                score: hit._score,
-            }));
+            return fuseResults([vectorResults, keywordResults], {
+                method: options.fusion,
+                weights: [alpha, 1 - alpha],
+                rrfK: options.rrfK,
+            }).slice(0, k);
         } catch (error) {
-            throw new Error(`Failed to search in OpenSearch: ${error} `);
+            throw new Error(`Failed to run hybrid search in OpenSearch: ${error} `);
         }
     }
 
@@ -187,8 +258,171 @@ export class OpenSearchVectorStore implements VectorStore {
         }
     }
 
+    async deleteByFilter(filter: MetadataFilter): Promise<void> {
+        try {
+            const response = await this.client.deleteByQuery({
+                index: this.indexName,
+                refresh: true,
+                body: { query: { bool: { filter: [this.toFilter(filter)] } } },
+            });
+            console.log(`Deleted ${(response.body as any).deleted ?? 0} documents from OpenSearch`);
+        } catch (error) {
+            throw new Error(`Failed to delete documents from OpenSearch: ${error} `);
+        }
+    }
+
+    async updateMetadata(target: string[] | MetadataFilter, patch: Metadata): Promise<void> {
+        try {
+            const query = Array.isArray(target)
+                ? { ids: { values: target } }
+                : { bool: { filter: [this.toFilter(target)] } };
+
+            const response = await this.client.updateByQuery({
+                index: this.indexName,
+                refresh: true,
+                conflicts: 'proceed',
+                body: {
+                    query,
+                    script: {
+                        lang: 'painless',
+                        source:
+                            'if (ctx._source.metadata == null) { ctx._source.metadata = new HashMap(); } ' +
+                            'ctx._source.metadata.putAll(params.patch);',
+                        params: { patch: coerceMetadata(patch, this.metadataSchema) },
+                    },
+                },
+            });
+            console.log(`Updated metadata of ${(response.body as any).updated ?? 0} documents in OpenSearch`);
+        } catch (error) {
+            throw new Error(`Failed to update metadata in OpenSearch: ${error} `);
+        }
+    }
+
+    async getDocuments(ids: string[]): Promise<Document[]> {
+        if (ids.length === 0) return [];
+
+        try {
+            const response = await this.client.mget({
+                index: this.indexName,
+                body: { ids },
+                _source_excludes: ['embedding'],
+            });
+
+            return response.body.docs
+                .filter((doc: any) => doc.found)
+                .map((doc: any) => this.toDocument(doc));
+        } catch (error) {
+            throw new Error(`Failed to get documents from OpenSearch: ${error} `);
+        }
+    }
+
+    async listDocuments(options: ListDocumentsOptions = {}): Promise<DocumentPage> {
+        try {
+            const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+
+            // Sort by docId so search_after can resume after the last document of the previous page
+            const response = await this.client.search({
+                index: this.indexName,
+                _source_excludes: ['embedding'],
+                body: {
+                    size: limit,
+                    query: options.filter ? { bool: { filter: [this.toFilter(options.filter)] } } : { match_all: {} },
+                    sort: [{ docId: 'asc' }],
+                    ...(options.cursor && { search_after: decodeCursor<Array<string | number>>(options.cursor) }),
+                },
+            });
+
+            const hits = response.body.hits.hits;
+            const last = hits[hits.length - 1];
+            return {
+                documents: hits.map((hit: any) => this.toDocument(hit)),
+                ...(hits.length === limit && last && { nextCursor: encodeCursor(last.sort) }),
+            };
+        } catch (error) {
+            throw new Error(`Failed to list documents in OpenSearch: ${error} `);
+        }
+    }
+
+    async count(filter?: MetadataFilter): Promise<number> {
+        try {
+            const response = await this.client.count({
+                index: this.indexName,
+                body: {
+                    query: filter ? { bool: { filter: [this.toFilter(filter)] } } : { match_all: {} },
+                },
+            });
+            return response.body.count;
+        } catch (error) {
+            throw new Error(`Failed to count documents in OpenSearch: ${error} `);
+        }
+    }
+
     async close(): Promise<void> {
         await this.client.close();
         console.log('OpenSearch connection closed');
     }
+
+    /**
+     * Translate a filter, checking it against the declared schema first
+     */
+    private toFilter(filter: MetadataFilter) {
+        if (Object.keys(this.metadataSchema).length > 0) {
+            validateFilter(filter, this.metadataSchema);
+        }
+        return toOpenSearchFilter(filter);
+    }
+
+    private knnQuery(queryVector: number[], k: number, filter?: MetadataFilter): any {
+        if (!filter) {
+            return { knn: { embedding: { vector: queryVector, k } } };
+        }
+
+        // Combine KNN with filter using bool query; filter context keeps the score the pure kNN score
+        return {
+            bool: {
+                must: [
+                    {
+                        knn: {
+                            embedding: {
+                                vector: queryVector,
+                                k: k * 2, // Fetch more candidates for filtering
+                            },
+                        },
+                    },
+                ],
+                filter: [this.toFilter(filter)],
+            },
+        };
+    }
+
+    private matchQuery(query: string, filter?: MetadataFilter): any {
+        return {
+            bool: {
+                must: [{ match: { content: query } }],
+                ...(filter && { filter: [this.toFilter(filter)] }),
+            },
+        };
+    }
+
+    private async search(query: any, size: number, includeEmbeddings = false): Promise<SearchResult[]> {
+        const response = await this.client.search({
+            index: this.indexName,
+            ...(!includeEmbeddings && { _source_excludes: ['embedding'] }),
+            body: { size, query },
+        });
+
+        return response.body.hits.hits.map((hit: any) => ({
+            document: this.toDocument(hit),
+            score: hit._score,
+            ...(includeEmbeddings && { embedding: hit._source.embedding }),
+        }));
+    }
+
+    private toDocument(hit: any): Document {
+        return {
+            id: hit._id,
+            content: hit._source.content,
+            metadata: hit._source.metadata,
+        };
+    }
 }
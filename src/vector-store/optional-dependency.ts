@@ -0,0 +1,18 @@
+/**
+ * Load a backend client that is an optional peer dependency
+ *
+ * Store modules only import types from these packages, so importing the
+ * library does not load drivers (or native addons) for backends that are not used.
+ * @throws Error naming the package to install when it is missing
+ */
+export function requireOptional<T>(packageName: string, storeName: string): T {
+    try {
+        // eslint-disable-next-line @typescript-eslint/no-require-imports
+        return require(packageName);
+    } catch (error: any) {
+        if (error?.code === 'MODULE_NOT_FOUND' && String(error.message).includes(`'${packageName}'`)) {
+            throw new Error(`${storeName} needs the "${packageName}" package: npm install ${packageName}`);
+        }
+        throw error;
+    }
+}
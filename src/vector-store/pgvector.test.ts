@@ -0,0 +1,165 @@
+import { PgQueryable, PgVectorStore } from '../vector-store/pgvector';
+import { toPgFilter } from '../vector-store/filters/pg-filter';
+import { MockEmbeddingModel } from '../core/embedding';
+
+/**
+ * In-process stand-in that records queries and replays canned rows
+ */
+class RecordingClient implements PgQueryable {
+    queries: Array<{ text: string; values?: unknown[] }> = [];
+    rows: any[] = [];
+
+    async query(text: string, values?: unknown[]) {
+        this.queries.push({ text, values });
+        return { rows: this.rows };
+    }
+}
+
+describe('toPgFilter', () => {
+    it('should return TRUE for an empty filter', () => {
+        expect(toPgFilter({}, [])).toBe('TRUE');
+    });
+
+    it('should translate conditions into jsonpath bind parameters', () => {
+        const params: unknown[] = [];
+        const sql = toPgFilter({ equals: { category: 'tech' }, greaterThanOrEqual: { year: 2023 } }, params);
+
+        expect(sql).toBe('metadata @? $1::jsonpath AND metadata @? $2::jsonpath');
+        expect(params).toEqual(['$."category"[*] ? (@ == "tech")', '$."year"[*] ? (@ >= 2023)']);
+    });
+
+    it('should number parameters after existing ones', () => {
+        const params: unknown[] = ['[0,1]', 5];
+        const sql = toPgFilter({ in: { tags: ['ai', 'ml'] } }, params);
+
+        expect(sql).toBe('metadata @? $3::jsonpath');
+        expect(params[2]).toBe('$."tags"[*] ? (@ == "ai" || @ == "ml")');
+    });
+
+    it('should translate logical operators', () => {
+        const params: unknown[] = [];
+        const sql = toPgFilter(
+            {
+                or: [{ equals: { a: 1 } }, { equals: { b: true } }],
+                not: { equals: { c: 'x' } },
+            },
+            params
+        );
+
+        expect(sql).toBe(
+            '((metadata @? $1::jsonpath) OR (metadata @? $2::jsonpath)) AND NOT (metadata @? $3::jsonpath)'
+        );
+    });
+
+    it('should quote keys and string values', () => {
+        const params: unknown[] = [];
+        toPgFilter({ equals: { 'odd "key"': 'a "quoted" value' } }, params);
+        expect(params[0]).toBe('$."odd \\"key\\""[*] ? (@ == "a \\"quoted\\" value")');
+    });
+
+    it('should never match an empty in list', () => {
+        expect(toPgFilter({ in: { tags: [] } }, [])).toBe('FALSE');
+    });
+
+    it('should translate exists, prefix and textMatch into path predicates', () => {
+        const params: unknown[] = [];
+        const sql = toPgFilter(
+            { exists: { tags: false }, prefix: { slug: 'guide' }, textMatch: { title: 'Vector search' } },
+            params
+        );
+
+        expect(sql).toBe('NOT metadata @? $1::jsonpath AND metadata @? $2::jsonpath AND metadata @? $3::jsonpath');
+        expect(params).toEqual([
+            '$."tags"[*] ? (@ != null)',
+            '$."title"[*] ? (@ like_regex "(^|[^[:alnum:]])vector([^[:alnum:]]|$)" flag "i" && ' +
+                '@ like_regex "(^|[^[:alnum:]])search([^[:alnum:]]|$)" flag "i")',
+            '$."slug"[*] ? (@ starts with "guide")',
+        ]);
+    });
+
+    it('should reject date ranges', () => {
+        expect(() => toPgFilter({ not: { dateRange: { published: { gte: '2024-01-01' } } } }, [])).toThrow(
+            'Filter operator "dateRange" is not supported by pgvector'
+        );
+    });
+});
+
+describe('PgVectorStore', () => {
+    let client: RecordingClient;
+    let store: PgVectorStore;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        client = new RecordingClient();
+        store = new PgVectorStore(client, 'chunks', new MockEmbeddingModel(3));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should reject unsafe table names', () => {
+        expect(() => new PgVectorStore(client, 'chunks; DROP TABLE x', new MockEmbeddingModel(3))).toThrow(
+            'Invalid table name'
+        );
+    });
+
+    it('should create the table and indexes', async () => {
+        await store.initialize();
+        const sql = client.queries.map((q) => q.text).join('\n');
+
+        expect(sql).toContain('CREATE EXTENSION IF NOT EXISTS vector');
+        expect(sql).toContain('embedding vector(3) NOT NULL');
+        expect(sql).toContain('USING gin (metadata jsonb_path_ops)');
+        expect(sql).toContain('USING hnsw (embedding vector_cosine_ops)');
+    });
+
+    it('should upsert documents by id', async () => {
+        await store.addDocuments([{ id: 'a', content: 'alpha', metadata: { year: 2024 } }]);
+        const [insert] = client.queries;
+
+        expect(insert.text).toContain('ON CONFLICT (id) DO UPDATE');
+        expect(insert.values?.slice(0, 3)).toEqual(['a', 'alpha', '{"year":2024}']);
+        expect(insert.values?.[3]).toMatch(/^\[.*\]$/);
+    });
+
+    it('should keep only the last copy of a repeated id in one upsert', async () => {
+        const embeddingModel = new MockEmbeddingModel(3);
+        const embedBatch = jest.spyOn(embeddingModel, 'embedBatch');
+        await new PgVectorStore(client, 'chunks', embeddingModel).addDocuments([
+            { id: 'a', content: 'first' },
+            { id: 'b', content: 'beta' },
+            { id: 'a', content: 'second' },
+        ]);
+        const [insert] = client.queries;
+
+        expect(embedBatch).toHaveBeenCalledWith(['second', 'beta']);
+        expect(insert.values).toHaveLength(8);
+        expect([insert.values?.[0], insert.values?.[1], insert.values?.[4], insert.values?.[5]]).toEqual([
+            'a',
+            'second',
+            'b',
+            'beta',
+        ]);
+    });
+
+    it('should push filters into the search query', async () => {
+        client.rows = [{ id: 'a', content: 'alpha', metadata: { year: 2024 }, score: '0.9' }];
+        const results = await store.similaritySearch([1, 0, 0], 2, { equals: { year: 2024 } });
+
+        const [search] = client.queries;
+        expect(search.text).toContain('WHERE metadata @? $3::jsonpath');
+        expect(search.values).toEqual(['[1,0,0]', 2, '$."year"[*] ? (@ == 2024)']);
+        expect(results).toEqual([
+            { document: { id: 'a', content: 'alpha', metadata: { year: 2024 } }, score: 0.9, rawScore: 0.9 },
+        ]);
+    });
+
+    it('should select embeddings as text when asked', async () => {
+        client.rows = [{ id: 'a', content: 'alpha', metadata: {}, score: '0.9', embedding: '[0.5,0,1]' }];
+        const [result] = await store.similaritySearch([1, 0, 0], 1, undefined, { includeEmbeddings: true });
+
+        expect(client.queries[0].text).toContain('embedding::text AS embedding');
+        expect(result.embedding).toEqual([0.5, 0, 1]);
+    });
+});
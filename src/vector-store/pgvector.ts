@@ -0,0 +1,230 @@
+import type * as pg from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import {
+    VectorStore,
+    Document,
+    SearchResult,
+    EmbeddingModel,
+    MetadataFilter,
+    SimilaritySearchOptions,
+} from '../core/types';
+import { toPgFilter } from './filters/pg-filter';
+import { applyMinScore } from './scores';
+import { requireOptional } from './optional-dependency';
+
+/**
+ * Minimal query interface satisfied by `pg.Pool`, `pg.Client` and in-process stand-ins
+ */
+export interface PgQueryable {
+    query(text: string, values?: unknown[]): Promise<{ rows: any[] }>;
+    end?(): Promise<void>;
+}
+
+/**
+ * pgvector store options
+ */
+export interface PgVectorStoreOptions {
+    /** Approximate index built on the embedding column (default: 'hnsw') */
+    indexType?: 'hnsw' | 'ivfflat' | 'none';
+    /** HNSW build parameters */
+    hnsw?: { m?: number; efConstruction?: number };
+    /** IVFFlat list count (default: 100) */
+    lists?: number;
+}
+
+/**
+ * Convert an embedding to pgvector's text input format
+ */
+function toVectorLiteral(embedding: number[]): string {
+    return `[${embedding.join(',')}]`;
+}
+
+/**
+ * PostgreSQL + pgvector store implementation
+ * Stores one row per document with a `vector(n)` embedding and JSONB metadata
+ */
+export class PgVectorStore implements VectorStore {
+    private client: PgQueryable;
+    private ownsClient: boolean;
+    private tableName: string;
+    private embeddingModel: EmbeddingModel;
+    private dimension: number;
+    private options: PgVectorStoreOptions;
+
+    /**
+     * @param connection - Connection string, or an existing pool/client (left open on close)
+     */
+    constructor(
+        connection: string | PgQueryable,
+        tableName: string,
+        embeddingModel: EmbeddingModel,
+        options: PgVectorStoreOptions = {}
+    ) {
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(tableName)) {
+            throw new Error(`Invalid table name: ${tableName}`);
+        }
+
+        if (typeof connection === 'string') {
+            const { Pool } = requireOptional<typeof pg>('pg', 'PgVectorStore');
+            this.client = new Pool({ connectionString: connection });
+            this.ownsClient = true;
+        } else {
+            this.client = connection;
+            this.ownsClient = false;
+        }
+        this.tableName = tableName;
+        this.embeddingModel = embeddingModel;
+        this.dimension = embeddingModel.getDimension();
+        this.options = options;
+    }
+
+    async initialize(): Promise<void> {
+        try {
+            await this.client.query('CREATE EXTENSION IF NOT EXISTS vector');
+            await this.client.query(
+                `CREATE TABLE IF NOT EXISTS ${this.table()} (
+                    id TEXT PRIMARY KEY,
+                    content TEXT NOT NULL,
+                    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+                    embedding vector(${this.dimension}) NOT NULL
+                )`
+            );
+
+            // GIN index answers the jsonpath (@?) conditions produced by toPgFilter
+            await this.client.query(
+                `CREATE INDEX IF NOT EXISTS ${this.tableName}_metadata_idx
+                    ON ${this.table()} USING gin (metadata jsonb_path_ops)`
+            );
+
+            const indexType = this.options.indexType ?? 'hnsw';
+            if (indexType === 'hnsw') {
+                const m = this.options.hnsw?.m ?? 16;
+                const efConstruction = this.options.hnsw?.efConstruction ?? 64;
+                await this.client.query(
+                    `CREATE INDEX IF NOT EXISTS ${this.tableName}_embedding_idx
+                        ON ${this.table()} USING hnsw (embedding vector_cosine_ops)
+                        WITH (m = ${m}, ef_construction = ${efConstruction})`
+                );
+            } else if (indexType === 'ivfflat') {
+                await this.client.query(
+                    `CREATE INDEX IF NOT EXISTS ${this.tableName}_embedding_idx
+                        ON ${this.table()} USING ivfflat (embedding vector_cosine_ops)
+                        WITH (lists = ${this.options.lists ?? 100})`
+                );
+            }
+
+            console.log(`pgvector table ready: ${this.tableName} `);
+        } catch (error) {
+            throw new Error(`Failed to initialize pgvector: ${error} `);
+        }
+    }
+
+    async addDocuments(documents: Document[]): Promise<void> {
+        if (documents.length === 0) return;
+
+        try {
+            // ON CONFLICT cannot touch the same row twice in one statement, so the last copy of an id wins
+            const byId = new Map<string, Document>();
+            documents.forEach((doc) => byId.set(doc.id || uuidv4(), doc));
+            const unique = [...byId.entries()];
+
+            // Generate embeddings
+            const texts = unique.map(([, doc]) => doc.content);
+            const embeddings = await this.embeddingModel.embedBatch(texts);
+
+            // Multi-row upsert by id
+            const params: unknown[] = [];
+            const rows = unique.map(([id, doc], idx) => {
+                params.push(
+                    id,
+                    doc.content,
+                    JSON.stringify(doc.metadata || {}),
+                    toVectorLiteral(embeddings[idx])
+                );
+                const base = idx * 4;
+                return `($${base + 1}, $${base + 2}, $${base + 3}::jsonb, $${base + 4}::vector)`;
+            });
+
+            await this.client.query(
+                `INSERT INTO ${this.table()} (id, content, metadata, embedding)
+                    VALUES ${rows.join(', ')}
+                    ON CONFLICT (id) DO UPDATE SET
+                        content = EXCLUDED.content,
+                        metadata = EXCLUDED.metadata,
+                        embedding = EXCLUDED.embedding`,
+                params
+            );
+
+            console.log(`Added ${unique.length} documents to pgvector`);
+        } catch (error) {
+            throw new Error(`Failed to add documents to pgvector: ${error} `);
+        }
+    }
+
+    async similaritySearch(
+        query: string | number[],
+        k: number,
+        filter?: MetadataFilter,
+        options: SimilaritySearchOptions = {}
+    ): Promise<SearchResult[]> {
+        try {
+            // Get query embedding
+            let queryVector: number[];
+            if (typeof query === 'string') {
+                queryVector = await this.embeddingModel.embedText(query);
+            } else {
+                queryVector = query;
+            }
+
+            const params: unknown[] = [toVectorLiteral(queryVector), k];
+            const where = filter ? `WHERE ${toPgFilter(filter, params)}` : '';
+
+            // <=> is cosine distance
+            // The vector's text form is a JSON array
+            const embeddingColumn = options.includeEmbeddings ? ', embedding::text AS embedding' : '';
+            const result = await this.client.query(
+                `SELECT id, content, metadata, 1 - (embedding <=> $1::vector) AS score${embeddingColumn}
+                    FROM ${this.table()}
+                    ${where}
+                    ORDER BY embedding <=> $1::vector
+                    LIMIT $2`,
+                params
+            );
+
+            // Convert to SearchResult format
+            const results = result.rows.map((row) => ({
+                document: {
+                    id: row.id,
+                    content: row.content,
+                    metadata: row.metadata,
+                },
+                score: Number(row.score),
+                rawScore: Number(row.score),
+                ...(options.includeEmbeddings && { embedding: JSON.parse(row.embedding) }),
+            }));
+            return applyMinScore(results, options.minScore);
+        } catch (error) {
+            throw new Error(`Failed to search in pgvector: ${error} `);
+        }
+    }
+
+    async deleteDocuments(ids: string[]): Promise<void> {
+        try {
+            await this.client.query(`DELETE FROM ${this.table()} WHERE id = ANY($1::text[])`, [ids]);
+            console.log(`Deleted ${ids.length} documents from pgvector`);
+        } catch (error) {
+            throw new Error(`Failed to delete documents from pgvector: ${error} `);
+        }
+    }
+
+    async close(): Promise<void> {
+        if (this.ownsClient && this.client.end) {
+            await this.client.end();
+        }
+        console.log('pgvector connection closed');
+    }
+
+    private table(): string {
+        return `"${this.tableName}"`;
+    }
+}
@@ -0,0 +1,330 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { QdrantVectorStore } from '../vector-store/qdrant';
+import { toQdrantFilter } from '../vector-store/filters/qdrant-filter';
+import { toUuid } from '../vector-store/ids';
+import { MockEmbeddingModel } from '../core/embedding';
+
+describe('toQdrantFilter', () => {
+    it('should target keys under the metadata payload field', () => {
+        expect(toQdrantFilter({ equals: { category: 'tech' }, greaterThan: { year: 2022 } })).toEqual({
+            must: [
+                { key: 'metadata.category', match: { value: 'tech' } },
+                { key: 'metadata.year', range: { gt: 2022 } },
+            ],
+        });
+    });
+
+    it('should never match an empty in list', () => {
+        expect(toQdrantFilter({ in: { category: [] } })).toEqual({ must: [{ has_id: [] }] });
+    });
+
+    it('should translate exists, text, prefix and date range conditions', () => {
+        expect(
+            toQdrantFilter({
+                exists: { tags: true, archived: false },
+                textMatch: { title: 'vector search' },
+                prefix: { slug: 'guide-' },
+                dateRange: { published: { gte: '2024-01-01', lt: '2024-07-01T02:00:00+02:00' } },
+            })
+        ).toEqual({
+            must: [
+                { is_empty: { key: 'metadata.archived' } },
+                { key: 'metadata.title', match: { text: 'vector search' } },
+                { key: 'metadata.slug', match: { text: 'guide-' } },
+                {
+                    key: 'metadata.published',
+                    range: { gte: '2024-01-01T00:00:00.000Z', lt: '2024-07-01T00:00:00.000Z' },
+                },
+            ],
+            must_not: [{ is_empty: { key: 'metadata.tags' } }],
+        });
+    });
+
+    it('should expand negated and array operators', () => {
+        expect(toQdrantFilter({ notIn: { category: ['art'] }, containsAll: { tags: ['ai', 'ml'] } })).toEqual({
+            must: [
+                { must_not: [{ must: [{ key: 'metadata.category', match: { value: 'art' } }] }] },
+                { must: [{ key: 'metadata.tags', match: { value: 'ai' } }] },
+                { must: [{ key: 'metadata.tags', match: { value: 'ml' } }] },
+            ],
+        });
+    });
+});
+
+describe('QdrantVectorStore', () => {
+    let server: Server;
+    let requests: Array<{ method: string; path: string; body: any }>;
+    let store: QdrantVectorStore;
+
+    const point = (docId: string) => ({
+        id: toUuid(docId),
+        score: 0.9,
+        payload: { docId, content: 'alpha', metadata: { category: 'tech' } },
+    });
+
+    beforeAll(async () => {
+        const app = express();
+        app.use(express.json({ limit: '10mb' }));
+        app.use((req, res) => {
+            if (req.path === '/') {
+                return res.json({ title: 'qdrant', version: '1.16.0' });
+            }
+            requests.push({ method: req.method, path: req.path, body: req.body });
+
+            let result: unknown = { operation_id: 1, status: 'completed' };
+            if (req.path === '/collections' && req.method === 'GET') {
+                result = { collections: [{ name: 'docs' }] };
+            } else if (req.path.endsWith('/points/search')) {
+                // Named vectors come back keyed by name
+                const withVector = req.body.with_vector;
+                const vector = Array.isArray(withVector)
+                    ? Object.fromEntries(withVector.map((name: string) => [name, [0, 1, 0, 0]]))
+                    : [0, 1, 0, 0];
+                result = [{ ...point('doc_chunk_0'), ...(withVector && { vector }) }];
+            } else if (req.path.endsWith('/points/query')) {
+                result = { points: [point('doc_chunk_0')] };
+            } else if (req.path.endsWith('/points/query/batch')) {
+                // The dense leg ranks doc_chunk_0 first, the sparse leg only finds doc_chunk_1
+                result = [
+                    { points: [point('doc_chunk_0'), { ...point('doc_chunk_1'), score: 0.5 }] },
+                    { points: [{ ...point('doc_chunk_1'), score: 7 }] },
+                ];
+            } else if (req.path.endsWith('/points') && req.method === 'POST') {
+                // Point written before ids were mapped, without docId
+                result = [point('doc_chunk_0'), { id: 7, payload: { content: 'legacy', metadata: {} } }];
+            }
+            res.json({ result, status: 'ok', time: 0 });
+        });
+        server = await new Promise<Server>((resolve) => {
+            const listening = app.listen(0, () => resolve(listening));
+        });
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        requests = [];
+        const { port } = server.address() as AddressInfo;
+        store = new QdrantVectorStore(`http://127.0.0.1:${port}`, 'docs', new MockEmbeddingModel(4));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should create payload indexes for filterable fields', async () => {
+        const { port } = server.address() as AddressInfo;
+        store = new QdrantVectorStore(`http://127.0.0.1:${port}`, 'docs', new MockEmbeddingModel(4), undefined, {
+            filterableFields: { category: 'keyword', year: 'integer', slug: 'prefix' },
+        });
+        await store.initialize();
+
+        const indexRequests = requests.filter((r) => r.path === '/collections/docs/index');
+        expect(indexRequests.map((r) => r.body)).toEqual([
+            { field_name: 'metadata.category', field_schema: 'keyword' },
+            { field_name: 'metadata.year', field_schema: 'integer' },
+            { field_name: 'metadata.slug', field_schema: { type: 'text', tokenizer: 'prefix' } },
+        ]);
+    });
+
+    it('should derive payload indexes and coerce metadata from a declared schema', async () => {
+        const { port } = server.address() as AddressInfo;
+        store = new QdrantVectorStore(`http://127.0.0.1:${port}`, 'docs', new MockEmbeddingModel(4), undefined, {
+            metadataSchema: { year: 'integer', draft: 'boolean', published: 'date', tags: 'array', slug: 'keyword' },
+            filterableFields: { slug: 'prefix' },
+        });
+        await store.initialize();
+        await store.addDocuments([
+            { id: 'doc_chunk_0', content: 'alpha', metadata: { year: '2024', draft: 'false', tags: 'ai' } },
+        ]);
+
+        const indexRequests = requests.filter((r) => r.path === '/collections/docs/index');
+        expect(indexRequests.map((r) => r.body)).toEqual([
+            { field_name: 'metadata.year', field_schema: 'integer' },
+            { field_name: 'metadata.draft', field_schema: 'bool' },
+            { field_name: 'metadata.published', field_schema: 'datetime' },
+            { field_name: 'metadata.tags', field_schema: 'keyword' },
+            { field_name: 'metadata.slug', field_schema: { type: 'text', tokenizer: 'prefix' } },
+        ]);
+        const upsert = requests.find((r) => r.path === '/collections/docs/points');
+        expect(upsert?.body.points[0].payload.metadata).toEqual({ year: 2024, draft: false, tags: ['ai'] });
+
+        await expect(
+            store.addDocuments([{ id: 'doc_chunk_1', content: 'beta', metadata: { published: 'soon' } }])
+        ).rejects.toThrow('Document doc_chunk_1: Invalid metadata: "published" must be an ISO 8601 date (got "soon")');
+        await expect(store.similaritySearch([1, 0, 0, 0], 1, { greaterThan: { published: 5 } })).rejects.toThrow(
+            '"greaterThan.published" cannot be used on date field "published" (use dateRange)'
+        );
+    });
+
+    it('should search with a metadata-prefixed filter', async () => {
+        await store.similaritySearch([1, 0, 0, 0], 1, { equals: { category: 'tech' } });
+        expect(requests[0].body.filter).toEqual({ must: [{ key: 'metadata.category', match: { value: 'tech' } }] });
+    });
+
+    it('should reject full-text filters on fields without the matching payload index', async () => {
+        const { port } = server.address() as AddressInfo;
+        store = new QdrantVectorStore(`http://127.0.0.1:${port}`, 'docs', new MockEmbeddingModel(4), undefined, {
+            filterableFields: { title: 'text', slug: 'keyword' },
+        });
+
+        await expect(store.similaritySearch([1, 0, 0, 0], 1, { prefix: { slug: 'guide' } })).rejects.toThrow(
+            'prefix on "slug" needs a "prefix" payload index in Qdrant'
+        );
+        await expect(
+            store.similaritySearch([1, 0, 0, 0], 1, { not: { textMatch: { summary: 'vector' } } })
+        ).rejects.toThrow('textMatch on "summary" needs a "text" payload index in Qdrant');
+        await store.similaritySearch([1, 0, 0, 0], 1, { textMatch: { title: 'vector' } });
+        expect(requests[0].body.filter).toEqual({ must: [{ key: 'metadata.title', match: { text: 'vector' } }] });
+    });
+
+    it('should upsert pipeline chunk ids as UUID point ids', async () => {
+        await store.addDocuments([{ id: 'doc_chunk_3', content: 'alpha', metadata: { category: 'tech' } }]);
+
+        const [upserted] = requests[0].body.points;
+        expect(requests[0].path).toBe('/collections/docs/points');
+        expect(upserted.id).toBe(toUuid('doc_chunk_3'));
+        expect(upserted.payload).toEqual({ docId: 'doc_chunk_3', content: 'alpha', metadata: { category: 'tech' } });
+    });
+
+    it('should keep UUID ids unchanged', async () => {
+        const id = '8a4e5c3a-9a7b-4d4b-8f59-7a1c2b3d4e5f';
+        await store.addDocuments([{ id, content: 'alpha' }]);
+        expect(requests[0].body.points[0].id).toBe(id);
+    });
+
+    it('should return original ids from search', async () => {
+        const results = await store.similaritySearch([1, 0, 0, 0], 1);
+        expect(results).toEqual([
+            {
+                document: { id: 'doc_chunk_0', content: 'alpha', metadata: { category: 'tech' } },
+                score: 0.9,
+                rawScore: 0.9,
+            },
+        ]);
+    });
+
+    it('should return the point vector when embeddings are included', async () => {
+        const [result] = await store.similaritySearch([1, 0, 0, 0], 1, undefined, { includeEmbeddings: true });
+
+        expect(requests[0].body.with_vector).toBe(true);
+        expect(result.embedding).toEqual([0, 1, 0, 0]);
+    });
+
+    it('should map ids when fetching and fall back to point ids', async () => {
+        const documents = await store.getDocuments(['doc_chunk_0', '7']);
+
+        expect(requests[0].body.ids).toEqual([toUuid('doc_chunk_0'), toUuid('7')]);
+        expect(documents.map((doc) => doc.id)).toEqual(['doc_chunk_0', '7']);
+    });
+
+    it('should delete by mapped point id', async () => {
+        await store.deleteDocuments(['doc_chunk_0']);
+
+        expect(requests[0].path).toBe('/collections/docs/points/delete');
+        expect(requests[0].body).toEqual({ points: [toUuid('doc_chunk_0')] });
+    });
+
+    it('should need a sparse vector for keyword search', async () => {
+        await expect(store.keywordSearch('alpha', 2)).rejects.toThrow(
+            'Keyword and hybrid search need a sparse vector; set the sparse option'
+        );
+    });
+
+    it('should reject a search vector that is not declared', () => {
+        const { port } = server.address() as AddressInfo;
+        expect(
+            () =>
+                new QdrantVectorStore(`http://127.0.0.1:${port}`, 'docs', new MockEmbeddingModel(4), undefined, {
+                    vectors: { body: {} },
+                    searchVector: 'title',
+                })
+        ).toThrow('Unknown Qdrant search vector: title');
+    });
+
+    describe('with named and sparse vectors', () => {
+        beforeEach(() => {
+            const { port } = server.address() as AddressInfo;
+            store = new QdrantVectorStore(`http://127.0.0.1:${port}`, 'hybrid', new MockEmbeddingModel(4), undefined, {
+                vectors: { body: {}, title: { field: 'title', embeddingModel: new MockEmbeddingModel(2) } },
+                sparse: {},
+            });
+        });
+
+        it('should create the collection with named dense vectors and a sparse vector', async () => {
+            await store.initialize();
+
+            const create = requests.find((r) => r.method === 'PUT' && r.path === '/collections/hybrid');
+            expect(create?.body).toEqual({
+                vectors: { body: { size: 4, distance: 'Cosine' }, title: { size: 2, distance: 'Cosine' } },
+                sparse_vectors: { text: { modifier: 'idf' } },
+            });
+        });
+
+        it('should write every named vector and skip those whose field is missing', async () => {
+            await store.addDocuments([
+                { id: 'doc_chunk_0', content: 'alpha beta', metadata: { title: 'Alpha' } },
+                { id: 'doc_chunk_1', content: 'gamma' },
+            ]);
+
+            const [titled, untitled] = requests[0].body.points;
+            expect(Object.keys(titled.vector)).toEqual(['body', 'title', 'text']);
+            expect(titled.vector.title).toHaveLength(2);
+            expect(titled.vector.text.indices).toHaveLength(2);
+            expect(Object.keys(untitled.vector)).toEqual(['body', 'text']);
+        });
+
+        it('should search the first named vector by default', async () => {
+            await store.similaritySearch([1, 0, 0, 0], 1);
+            expect(requests[0].body.vector).toEqual({ name: 'body', vector: [1, 0, 0, 0] });
+        });
+
+        it('should return only the searched named vector', async () => {
+            const [result] = await store.similaritySearch([1, 0, 0, 0], 1, undefined, { includeEmbeddings: true });
+
+            expect(requests[0].body.with_vector).toEqual(['body']);
+            expect(result.embedding).toEqual([0, 1, 0, 0]);
+        });
+
+        it('should fuse dense and sparse prefetches with RRF in one query', async () => {
+            const results = await store.hybridSearch('alpha', 3, {
+                fusion: 'rrf',
+                filter: { equals: { category: 'tech' } },
+            });
+
+            const filter = { must: [{ key: 'metadata.category', match: { value: 'tech' } }] };
+            const { body } = requests[0];
+            expect(requests[0].path).toBe('/collections/hybrid/points/query');
+            expect(body.prefetch.map((leg: any) => [leg.using, leg.limit, leg.filter])).toEqual([
+                ['body', 6, filter],
+                ['text', 6, filter],
+            ]);
+            expect(body.prefetch[1].query.values).toEqual([1]);
+            expect(body).toMatchObject({ query: { rrf: { k: 60 } }, limit: 3, with_payload: true });
+            expect(results.map((r) => r.document.id)).toEqual(['doc_chunk_0']);
+        });
+
+        it('should reject a weighted RRF', async () => {
+            await expect(store.hybridSearch('alpha', 2, { fusion: 'rrf', alpha: 0.7 })).rejects.toThrow(
+                'alpha is not supported with RRF fusion in Qdrant'
+            );
+        });
+
+        it('should run the legs as a batch for weighted fusion', async () => {
+            const results = await store.hybridSearch('alpha', 2, { alpha: 0.25 });
+
+            expect(requests[0].path).toBe('/collections/hybrid/points/query/batch');
+            expect(requests[0].body.searches.map((leg: any) => leg.using)).toEqual(['body', 'text']);
+            // doc_chunk_1: 0.25 * 0 + 0.75 * 1, doc_chunk_0: 0.25 * 1
+            expect(results.map((r) => [r.document.id, r.score])).toEqual([
+                ['doc_chunk_1', 0.75],
+                ['doc_chunk_0', 0.25],
+            ]);
+        });
+    });
+});
@@ -1,22 +1,127 @@
 import { QdrantClient } from '@qdrant/js-client-rest';
 import { v4 as uuidv4 } from 'uuid';
-import { VectorStore, Document, SearchResult, EmbeddingModel, MetadataFilter } from '../core/types';
+import {
+    VectorStore,
+    Document,
+    SearchResult,
+    EmbeddingModel,
+    MetadataFilter,
+    Metadata,
+    MetadataFieldType,
+    MetadataSchema,
+    HybridSearchOptions,
+    SimilaritySearchOptions,
+    ListDocumentsOptions,
+    DocumentPage,
+    SparseEncoder,
+    SparseVector,
+} from '../core/types';
+import { TermFrequencyEncoder } from '../core/embedding';
 import { toQdrantFilter } from './filters/qdrant-filter';
+import { validateFilter } from './filters/validate-filter';
+import { coerceDocuments, coerceMetadata, validateMetadataSchema } from './metadata-schema';
+import { decodeCursor, encodeCursor, DEFAULT_PAGE_SIZE } from './cursor';
+import { toUuid } from './ids';
+import { fuseResults } from './fusion';
+import { applyMinScore } from './scores';
+
+/**
+ * Qdrant payload index type for a filterable metadata field;
+ * `prefix` is a full-text index with the prefix tokenizer, for `prefix` filters
+ */
+export type QdrantPayloadIndexType = 'keyword' | 'integer' | 'float' | 'bool' | 'datetime' | 'text' | 'prefix';
+
+/**
+ * Payload index type for each declared metadata type
+ */
+const PAYLOAD_INDEX_TYPES: Record<MetadataFieldType, QdrantPayloadIndexType> = {
+    keyword: 'keyword',
+    text: 'text',
+    integer: 'integer',
+    float: 'float',
+    boolean: 'bool',
+    date: 'datetime',
+    array: 'keyword',
+};
+
+/**
+ * A named dense vector, e.g. separate `title` and `body` embeddings
+ */
+export interface QdrantNamedVector {
+    /** Metadata field embedded into this vector; the document content when omitted */
+    field?: string;
+    /** Embedding model for this vector (default: the store's model) */
+    embeddingModel?: EmbeddingModel;
+}
+
+/**
+ * Qdrant sparse vector options
+ */
+export interface QdrantSparseVectorOptions {
+    /** Sparse vector name (default: 'text') */
+    name?: string;
+    /** Turns content and queries into term weights (default: TermFrequencyEncoder) */
+    encoder?: SparseEncoder;
+    /** `idf` has Qdrant weight terms by inverse document frequency, for BM25; `none` suits SPLADE (default: 'idf') */
+    modifier?: 'idf' | 'none';
+}
+
+/**
+ * Vectors of one point: a single unnamed vector, or vectors by name
+ */
+type PointVectors = number[] | Record<string, number[] | SparseVector>;
+
+/**
+ * Dense vector name used when only a sparse vector is declared
+ */
+const DEFAULT_DENSE_VECTOR = 'dense';
+
+/**
+ * Qdrant vector store options
+ */
+export interface QdrantVectorStoreOptions {
+    /**
+     * Declared metadata fields: each gets a payload index of the matching type,
+     * metadata is coerced to it on write and filters are validated against it
+     */
+    metadataSchema?: MetadataSchema;
+    /** Metadata fields to create payload indexes for, overriding the index derived from metadataSchema */
+    filterableFields?: Record<string, QdrantPayloadIndexType>;
+    /**
+     * Named dense vectors stored side by side on each point; without them the
+     * collection has a single unnamed vector (named `dense` when `sparse` is set)
+     */
+    vectors?: Record<string, QdrantNamedVector>;
+    /** Named vector used by similaritySearch and hybridSearch (default: the first one) */
+    searchVector?: string;
+    /** Store a sparse vector of the content, enabling keywordSearch and hybridSearch */
+    sparse?: QdrantSparseVectorOptions;
+}
 
 /**
  * Qdrant vector store implementation
+ *
+ * Qdrant only accepts UUIDs or unsigned integers as point ids, so document ids
+ * are mapped to deterministic UUIDv5 point ids and the original id is kept in
+ * the `docId` payload field.
  */
 export class QdrantVectorStore implements VectorStore {
     private client: QdrantClient;
     private collectionName: string;
     private embeddingModel: EmbeddingModel;
     private dimension: number;
+    private metadataSchema: MetadataSchema;
+    private filterableFields: Record<string, QdrantPayloadIndexType>;
+    private vectors?: Record<string, QdrantNamedVector>;
+    private searchVector?: string;
+    private sparse?: Required<QdrantSparseVectorOptions>;
 
     constructor(
         url: string,
         collectionName: string,
         embeddingModel: EmbeddingModel,
-        apiKey?: string
+        apiKey?: string,
+        options: QdrantVectorStoreOptions = {}
     ) {
         this.client = new QdrantClient({
             url,
@@ -25,6 +130,33 @@ export class QdrantVectorStore implements VectorStore {
         this.collectionName = collectionName;
         this.embeddingModel = embeddingModel;
         this.dimension = embeddingModel.getDimension();
+        this.metadataSchema = options.metadataSchema || {};
+        validateMetadataSchema(this.metadataSchema);
+        this.filterableFields = {
+            ...Object.fromEntries(
+                Object.entries(this.metadataSchema).map(([field, type]) => [field, PAYLOAD_INDEX_TYPES[type]])
+            ),
+            ...options.filterableFields,
+        };
+
+        this.vectors = options.vectors ?? (options.sparse && { [DEFAULT_DENSE_VECTOR]: {} });
+        if (this.vectors && Object.keys(this.vectors).length === 0) {
+            throw new Error('Qdrant vectors must declare at least one named vector');
+        }
+        this.searchVector = options.searchVector ?? (this.vectors && Object.keys(this.vectors)[0]);
+        if (this.searchVector !== undefined && !this.vectors?.[this.searchVector]) {
+            throw new Error(`Unknown Qdrant search vector: ${this.searchVector}`);
+        }
+        if (options.sparse) {
+            this.sparse = {
+                name: options.sparse.name ?? 'text',
+                encoder: options.sparse.encoder ?? new TermFrequencyEncoder(),
+                modifier: options.sparse.modifier ?? 'idf',
+            };
+            if (this.vectors?.[this.sparse.name]) {
+                throw new Error(`Qdrant sparse vector name is already used by a dense vector: ${this.sparse.name}`);
+            }
+        }
     }
 
     async initialize(): Promise<void> {
@@ -36,37 +168,60 @@ export class QdrantVectorStore implements VectorStore {
             if (!exists) {
                 // Create collection
                 await this.client.createCollection(this.collectionName, {
-                    vectors: {
-                        size: this.dimension,
-                        distance: 'Cosine',
-                    },
+                    vectors: this.vectors
+                        ? Object.fromEntries(
+                              Object.keys(this.vectors).map((name) => [
+                                  name,
+                                  { size: this.modelFor(name).getDimension(), distance: 'Cosine' as const },
+                              ])
+                          )
+                        : {
+                              size: this.dimension,
+                              distance: 'Cosine',
+                          },
+                    ...(this.sparse && { sparse_vectors: { [this.sparse.name]: { modifier: this.sparse.modifier } } }),
                 });
                 console.log(`Created Qdrant collection: ${this.collectionName} `);
             } else {
                 console.log(`Qdrant collection already exists: ${this.collectionName} `);
             }
+
+            // Creating an existing payload index is a no-op, so newly declared fields are picked up too
+            for (const [field, type] of Object.entries(this.filterableFields)) {
+                await this.client.createPayloadIndex(this.collectionName, {
+                    wait: true,
+                    field_name: `metadata.${field}`,
+                    field_schema: type === 'prefix' ? { type: 'text', tokenizer: 'prefix' } : type,
+                });
+            }
         } catch (error) {
             throw new Error(`Failed to initialize Qdrant: ${error} `);
         }
     }
 
-    async addDocuments(documents: Document[]): Promise<void> {
-        if (documents.length === 0) return;
+    async addDocuments(input: Document[]): Promise<void> {
+        if (input.length === 0) return;
 
         try {
+            // Coerce before embedding, so invalid metadata fails fast
+            const documents = coerceDocuments(input, this.metadataSchema);
+
             // Generate embeddings for documents
-            const texts = documents.map((doc) => doc.content);
-            const embeddings = await this.embeddingModel.embedBatch(texts);
+            const vectors = await this.embedDocuments(documents);
 
             // Prepare points for Qdrant
-            const points = documents.map((doc, idx) => ({
-                id: doc.id || uuidv4(),
-                vector: embeddings[idx],
-                payload: {
-                    content: doc.content,
-                    metadata: doc.metadata || {},
-                },
-            }));
+            const points = documents.map((doc, idx) => {
+                const docId = doc.id || uuidv4();
+                return {
+                    id: toUuid(docId),
+                    vector: vectors[idx],
+                    payload: {
+                        docId,
+                        content: doc.content,
+                        metadata: doc.metadata || {},
+                    },
+                };
+            });
 
             // Upsert points
             await this.client.upsert(this.collectionName, {
@@ -80,50 +235,132 @@ export class QdrantVectorStore implements VectorStore {
         }
     }
 
-    async similaritySearch(query: string | number[], k: number, filter?: MetadataFilter): Promise<SearchResult[]> {
+    async similaritySearch(
+        query: string | number[],
+        k: number,
+        filter?: MetadataFilter,
+        options: SimilaritySearchOptions = {}
+    ): Promise<SearchResult[]> {
         try {
             // Get query embedding
             let queryVector: number[];
             if (typeof query === 'string') {
-                queryVector = await this.embeddingModel.embedText(query);
+                queryVector = await this.modelFor(this.searchVector).embedText(query);
             } else {
                 queryVector = query;
             }
 
             // Build search params
             const searchParams: any = {
-                vector: queryVector,
+                vector: this.searchVector ? { name: this.searchVector, vector: queryVector } : queryVector,
                 limit: k,
                 with_payload: true,
             };
 
+            // Only the searched vector is returned, keyed by name for named vectors
+            if (options.includeEmbeddings) {
+                searchParams.with_vector = this.searchVector ? [this.searchVector] : true;
+            }
+
             // Add filter if provided
             if (filter) {
-                searchParams.filter = toQdrantFilter(filter);
+                searchParams.filter = this.toFilter(filter);
             }
 
             // Search
             const searchResult = await this.client.search(this.collectionName, searchParams);
 
             // Convert to SearchResult format
-            return searchResult.map((result) => ({
-                document: {
-                    id: result.id.toString(),
-                    content: result.payload?.content as string,
-                    metadata: result.payload?.metadata as any,
-                },
-                score: result.score,
-            }));
+            const results = searchResult.map((result) => {
+                const vector: any = result.vector;
+                const embedding = this.searchVector ? vector?.[this.searchVector] : vector;
+                return {
+                    document: this.toDocument(result),
+                    score: result.score,
+                    rawScore: result.score,
+                    ...(Array.isArray(embedding) && { embedding }),
+                };
+            });
+            return applyMinScore(results, options.minScore);
         } catch (error) {
             throw new Error(`Failed to search in Qdrant: ${error} `);
         }
     }
 
+    /**
+     * Search the sparse vector only
+     * @throws Error when the store has no sparse vector
+     */
+    async keywordSearch(query: string, k: number, filter?: MetadataFilter): Promise<SearchResult[]> {
+        try {
+            const sparse = this.requireSparse();
+            const response = await this.client.query(this.collectionName, {
+                query: sparse.encoder.encodeQuery(query),
+                using: sparse.name,
+                limit: k,
+                with_payload: true,
+                ...(filter && { filter: this.toFilter(filter) }),
+            });
+            return response.points.map((point) => ({ document: this.toDocument(point), score: point.score }));
+        } catch (error) {
+            throw new Error(`Failed to run keyword search in Qdrant: ${error} `);
+        }
+    }
+
+    /**
+     * Dense and sparse search with the filter applied to both legs
+     *
+     * RRF runs as one Query API request, prefetching `candidates` points from each
+     * leg and fusing them in Qdrant. Weighted fusion needs both score lists, so the
+     * legs run as one batch request and are fused here.
+     * @throws Error when the store has no sparse vector
+     */
+    async hybridSearch(query: string, k: number, options: HybridSearchOptions = {}): Promise<SearchResult[]> {
+        try {
+            const sparse = this.requireSparse();
+            const alpha = options.alpha ?? 0.5;
+            if (alpha < 0 || alpha > 1) {
+                throw new Error(`alpha must be between 0 and 1 (got ${alpha})`);
+            }
+            const candidates = Math.max(options.candidates ?? k * 2, k);
+            const filter = options.filter && this.toFilter(options.filter);
+
+            const legs = [
+                { query: await this.modelFor(this.searchVector).embedText(query), using: this.searchVector },
+                { query: sparse.encoder.encodeQuery(query), using: sparse.name },
+            ].map((leg) => ({ ...leg, limit: candidates, ...(filter && { filter }) }));
+
+            if (options.fusion === 'rrf') {
+                // Qdrant's RRF weighs both legs equally
+                if (options.alpha !== undefined && options.alpha !== 0.5) {
+                    throw new Error('alpha is not supported with RRF fusion in Qdrant');
+                }
+                const response = await this.client.query(this.collectionName, {
+                    prefetch: legs,
+                    query: { rrf: { k: options.rrfK ?? 60 } },
+                    limit: k,
+                    with_payload: true,
+                });
+                return response.points.map((point) => ({ document: this.toDocument(point), score: point.score }));
+            }
+
+            const responses = await this.client.queryBatch(this.collectionName, {
+                searches: legs.map((leg) => ({ ...leg, with_payload: true })),
+            });
+            const lists = responses.map((response) =>
+                response.points.map((point) => ({ document: this.toDocument(point), score: point.score }))
+            );
+            return fuseResults(lists, { weights: [alpha, 1 - alpha] }).slice(0, k);
+        } catch (error) {
+            throw new Error(`Failed to run hybrid search in Qdrant: ${error} `);
+        }
+    }
+
     async deleteDocuments(ids: string[]): Promise<void> {
         try {
             await this.client.delete(this.collectionName, {
                 wait: true,
-                points: ids,
+                points: ids.map(toUuid),
             });
             console.log(`Deleted ${ids.length} documents from Qdrant`);
         } catch (error) {
@@ -131,8 +368,164 @@ export class QdrantVectorStore implements VectorStore {
         }
     }
 
+    async deleteByFilter(filter: MetadataFilter): Promise<void> {
+        try {
+            await this.client.delete(this.collectionName, {
+                wait: true,
+                filter: this.toFilter(filter),
+            });
+            console.log('Deleted documents matching filter from Qdrant');
+        } catch (error) {
+            throw new Error(`Failed to delete documents from Qdrant: ${error} `);
+        }
+    }
+
+    async updateMetadata(target: string[] | MetadataFilter, patch: Metadata): Promise<void> {
+        try {
+            // key: 'metadata' merges the patch into the nested metadata object
+            await this.client.setPayload(this.collectionName, {
+                wait: true,
+                key: 'metadata',
+                payload: coerceMetadata(patch, this.metadataSchema),
+                ...(Array.isArray(target) ? { points: target.map(toUuid) } : { filter: this.toFilter(target) }),
+            });
+            console.log('Updated document metadata in Qdrant');
+        } catch (error) {
+            throw new Error(`Failed to update metadata in Qdrant: ${error} `);
+        }
+    }
+
+    async getDocuments(ids: string[]): Promise<Document[]> {
+        if (ids.length === 0) return [];
+
+        try {
+            const points = await this.client.retrieve(this.collectionName, {
+                ids: ids.map(toUuid),
+                with_payload: true,
+                with_vector: false,
+            });
+            return points.map((point) => this.toDocument(point));
+        } catch (error) {
+            throw new Error(`Failed to get documents from Qdrant: ${error} `);
+        }
+    }
+
+    async listDocuments(options: ListDocumentsOptions = {}): Promise<DocumentPage> {
+        try {
+            // Scroll is ordered by point id; next_page_offset is the first id of the next page
+            const response = await this.client.scroll(this.collectionName, {
+                limit: options.limit ?? DEFAULT_PAGE_SIZE,
+                with_payload: true,
+                with_vector: false,
+                ...(options.filter && { filter: this.toFilter(options.filter) }),
+                ...(options.cursor && { offset: decodeCursor<string | number>(options.cursor) }),
+            });
+
+            const nextOffset = response.next_page_offset;
+            return {
+                documents: response.points.map((point) => this.toDocument(point)),
+                ...(nextOffset !== null && nextOffset !== undefined && { nextCursor: encodeCursor(nextOffset) }),
+            };
+        } catch (error) {
+            throw new Error(`Failed to list documents in Qdrant: ${error} `);
+        }
+    }
+
+    async count(filter?: MetadataFilter): Promise<number> {
+        try {
+            const response = await this.client.count(this.collectionName, {
+                exact: true,
+                ...(filter && { filter: this.toFilter(filter) }),
+            });
+            return response.count;
+        } catch (error) {
+            throw new Error(`Failed to count documents in Qdrant: ${error} `);
+        }
+    }
+
     async close(): Promise<void> {
         // Qdrant client doesn't require explicit closing
         console.log('Qdrant connection closed');
     }
+
+    private modelFor(vectorName?: string): EmbeddingModel {
+        return (vectorName && this.vectors?.[vectorName]?.embeddingModel) || this.embeddingModel;
+    }
+
+    private requireSparse(): Required<QdrantSparseVectorOptions> {
+        if (!this.sparse) {
+            throw new Error('Keyword and hybrid search need a sparse vector; set the sparse option');
+        }
+        return this.sparse;
+    }
+
+    /**
+     * Point vectors for each document: one unnamed vector, or every named dense vector plus the sparse vector
+     */
+    private async embedDocuments(documents: Document[]): Promise<PointVectors[]> {
+        if (!this.vectors) {
+            return this.embeddingModel.embedBatch(documents.map((doc) => doc.content));
+        }
+
+        const pointVectors = documents.map(() => ({}) as Record<string, number[] | SparseVector>);
+        for (const [name, vector] of Object.entries(this.vectors)) {
+            // Documents without a string value for the field get no vector of this name
+            const texts = documents.map((doc) => (vector.field ? doc.metadata?.[vector.field] : doc.content));
+            const embedded = documents.map((_, idx) => idx).filter((idx) => typeof texts[idx] === 'string');
+            const embeddings = await this.modelFor(name).embedBatch(embedded.map((idx) => texts[idx] as string));
+            embedded.forEach((docIdx, idx) => {
+                pointVectors[docIdx][name] = embeddings[idx];
+            });
+        }
+
+        if (this.sparse) {
+            documents.forEach((doc, idx) => {
+                pointVectors[idx][this.sparse!.name] = this.sparse!.encoder.encodeDocument(doc.content);
+            });
+        }
+        return pointVectors;
+    }
+
+    /**
+     * Translate a filter, checking it against the declared schema first
+     */
+    private toFilter(filter: MetadataFilter) {
+        if (Object.keys(this.metadataSchema).length > 0) {
+            validateFilter(filter, this.metadataSchema);
+        }
+        this.checkFullTextFields(filter);
+        return toQdrantFilter(filter);
+    }
+
+    /**
+     * Full-text conditions need the matching payload index: without one Qdrant
+     * falls back to a case-sensitive substring match, unlike the other stores
+     */
+    private checkFullTextFields(filter: MetadataFilter): void {
+        const required: Array<['textMatch' | 'prefix', QdrantPayloadIndexType]> = [
+            ['textMatch', 'text'],
+            ['prefix', 'prefix'],
+        ];
+        for (const [operator, indexType] of required) {
+            for (const field of Object.keys(filter[operator] ?? {})) {
+                if (this.filterableFields[field] !== indexType) {
+                    throw new Error(`${operator} on "${field}" needs a "${indexType}" payload index in Qdrant`);
+                }
+            }
+        }
+        [...(filter.and || []), ...(filter.or || []), ...(filter.not ? [filter.not] : [])].forEach((subFilter) =>
+            this.checkFullTextFields(subFilter)
+        );
+    }
+
+    /**
+     * Points written before ids were mapped have no docId and keep their point id
+     */
+    private toDocument(point: { id: string | number; payload?: Record<string, unknown> | null }): Document {
+        return {
+            id: (point.payload?.docId as string | undefined) ?? point.id.toString(),
+            content: point.payload?.content as string,
+            metadata: point.payload?.metadata as any,
+        };
+    }
 }
@@ -0,0 +1,173 @@
+import { RedisClient, RedisVectorStore } from '../vector-store/redis';
+import { toRedisFilter } from '../vector-store/filters/redis-filter';
+import { MockEmbeddingModel } from '../core/embedding';
+
+const schema = { category: 'keyword', tags: 'array', year: 'integer', title: 'text', published: 'date' } as const;
+
+/**
+ * In-process stand-in that records calls and replays a canned search reply
+ */
+function recordingClient() {
+    const calls: Array<{ method: string; args: unknown[] }> = [];
+    const record =
+        (method: string, result?: unknown) =>
+        async (...args: unknown[]) => {
+            calls.push({ method, args });
+            return result;
+        };
+    const multiCalls: Array<{ method: string; args: unknown[] }> = [];
+    const client = {
+        isOpen: true,
+        ft: {
+            _list: record('ft._list', []),
+            create: record('ft.create'),
+            search: record('ft.search', {
+                total: 1,
+                documents: [{ id: 'docs:a', value: { content: 'alpha', metadata: '{"year":2024}', distance: '0.25' } }],
+            }),
+        },
+        multi: () => {
+            const multi = {
+                del: (...args: unknown[]) => (multiCalls.push({ method: 'del', args }), multi),
+                hSet: (...args: unknown[]) => (multiCalls.push({ method: 'hSet', args }), multi),
+                exec: record('multi.exec', []),
+            };
+            return multi;
+        },
+        del: record('del'),
+    };
+    return { client: client as unknown as RedisClient, calls, multiCalls };
+}
+
+describe('toRedisFilter', () => {
+    it('should return a wildcard for an empty filter', () => {
+        expect(toRedisFilter({}, schema)).toBe('*');
+    });
+
+    it('should translate tag and numeric equality', () => {
+        expect(toRedisFilter({ equals: { category: 'how-to guide', year: 2024 } }, schema)).toBe(
+            '@category:{how\\-to\\ guide} @year:[2024 2024]'
+        );
+    });
+
+    it('should translate ranges and in', () => {
+        expect(
+            toRedisFilter({ greaterThan: { year: 2020 }, lessThanOrEqual: { year: 2024 }, in: { tags: ['ai', 'ml'] } }, schema)
+        ).toBe('@year:[(2020 +inf] @year:[-inf 2024] @tags:{ai | ml}');
+    });
+
+    it('should translate logical operators', () => {
+        expect(
+            toRedisFilter(
+                { or: [{ equals: { category: 'a' } }, { lessThan: { year: 2000 } }], not: { equals: { tags: 'draft' } } },
+                schema
+            )
+        ).toBe('((@category:{a}) | (@year:[-inf (2000])) -(@tags:{draft})');
+    });
+
+    it('should never match an empty in list', () => {
+        expect(toRedisFilter({ in: { category: [] } }, schema)).toBe('(@category:{_} -@category:{_})');
+    });
+
+    it('should translate prefix on tag fields and negated operators', () => {
+        expect(toRedisFilter({ prefix: { category: 'how-' }, notIn: { tags: ['ai'] } }, schema)).toBe(
+            '@category:{how\\-*} (-(@tags:{ai}))'
+        );
+        expect(() => toRedisFilter({ prefix: { year: '20' } }, schema)).toThrow('must be declared keyword or array');
+        expect(() => toRedisFilter({ textMatch: { category: 'x' } }, schema)).toThrow('must be declared text');
+        expect(() => toRedisFilter({ exists: { category: true } }, schema)).toThrow('not supported by Redis');
+    });
+
+    it('should translate textMatch on text fields into a word intersection', () => {
+        expect(toRedisFilter({ textMatch: { title: 'Vector SEARCH!' } }, schema)).toBe('@title:(vector search)');
+        expect(() => toRedisFilter({ equals: { title: 'x' } }, schema)).toThrow('can only be filtered with textMatch');
+    });
+
+    it('should translate dates into epoch millisecond ranges', () => {
+        const range = { gte: '2024-01-01', lt: '2024-02-01T02:00:00+02:00' };
+        expect(toRedisFilter({ dateRange: { published: range } }, schema)).toBe(
+            '@published:[1704067200000 +inf] @published:[-inf (1706745600000]'
+        );
+        expect(toRedisFilter({ equals: { published: '2024-01-01T00:00:00Z' } }, schema)).toBe(
+            '@published:[1704067200000 1704067200000]'
+        );
+    });
+
+    it('should reject undeclared fields and non-numeric ranges', () => {
+        expect(() => toRedisFilter({ equals: { author: 'x' } }, schema)).toThrow('not declared in the Redis metadata schema');
+        expect(() => toRedisFilter({ greaterThan: { category: 1 } }, schema)).toThrow(
+            'must be declared integer or float'
+        );
+    });
+});
+
+describe('RedisVectorStore', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should derive the index schema from the metadata schema', async () => {
+        const { client, calls } = recordingClient();
+        const store = new RedisVectorStore(client, 'docs', new MockEmbeddingModel(4), { metadataSchema: schema });
+        await store.initialize();
+
+        const [index, fields, options] = calls[1].args as any[];
+        expect(index).toBe('docs');
+        expect(fields.embedding).toMatchObject({ type: 'VECTOR', DIM: 4, DISTANCE_METRIC: 'COSINE' });
+        expect(fields.tags).toEqual({ type: 'TAG', SEPARATOR: '|' });
+        expect(fields.category).toEqual({ type: 'TAG', SEPARATOR: '|' });
+        expect(fields.year).toBe('NUMERIC');
+        expect(fields.published).toBe('NUMERIC');
+        expect(fields.title).toEqual({ type: 'TEXT', NOSTEM: true });
+        expect(options).toEqual({ ON: 'HASH', PREFIX: 'docs:', STOPWORDS: [] });
+    });
+
+    it('should write declared metadata fields next to the JSON metadata', async () => {
+        const { client, multiCalls } = recordingClient();
+        const store = new RedisVectorStore(client, 'docs', new MockEmbeddingModel(4), { metadataSchema: schema });
+        await store.addDocuments([
+            {
+                id: 'a',
+                content: 'alpha',
+                metadata: { tags: ['ai', 'ml'], year: '2024', published: '2024-01-01T00:00:00Z', extra: true },
+            },
+        ]);
+
+        expect(multiCalls[0]).toEqual({ method: 'del', args: ['docs:a'] });
+        const [key, fields] = multiCalls[1].args as any[];
+        expect(key).toBe('docs:a');
+        expect(fields).toMatchObject({
+            content: 'alpha',
+            metadata: '{"tags":["ai","ml"],"year":2024,"published":"2024-01-01T00:00:00.000Z","extra":true}',
+            tags: 'ai|ml',
+            year: '2024',
+            published: '1704067200000',
+        });
+        expect(fields.embedding.length).toBe(16);
+    });
+
+    it('should run a pre-filtered KNN query', async () => {
+        const { client, calls } = recordingClient();
+        const store = new RedisVectorStore(client, 'docs', new MockEmbeddingModel(4), { metadataSchema: schema });
+        const results = await store.similaritySearch([1, 0, 0, 0], 3, { equals: { category: 'tech' } });
+
+        const [index, query, options] = calls[0].args as any[];
+        expect(index).toBe('docs');
+        expect(query).toBe('(@category:{tech})=>[KNN 3 @embedding $vector AS distance]');
+        expect(options).toMatchObject({ SORTBY: 'distance', DIALECT: 2 });
+        expect(results).toEqual([
+            { document: { id: 'a', content: 'alpha', metadata: { year: 2024 } }, score: 0.75, rawScore: 0.25 },
+        ]);
+    });
+
+    it('should delete by prefixed key', async () => {
+        const { client, calls } = recordingClient();
+        const store = new RedisVectorStore(client, 'docs', new MockEmbeddingModel(4));
+        await store.deleteDocuments(['a', 'b']);
+        expect(calls[0]).toEqual({ method: 'del', args: [['docs:a', 'docs:b']] });
+    });
+});
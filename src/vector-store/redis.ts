@@ -0,0 +1,270 @@
+import type * as Redis from 'redis';
+import type { createClient, RediSearchSchema } from 'redis';
+import { v4 as uuidv4 } from 'uuid';
+import {
+    VectorStore,
+    Document,
+    SearchResult,
+    EmbeddingModel,
+    MetadataFilter,
+    Metadata,
+    MetadataSchema,
+    SimilaritySearchOptions,
+} from '../core/types';
+import { REDIS_FIELD_TYPES, toRedisFilter } from './filters/redis-filter';
+import { validateFilter } from './filters/validate-filter';
+import { coerceDocuments, validateMetadataSchema } from './metadata-schema';
+import { applyMinScore } from './scores';
+import { requireOptional } from './optional-dependency';
+
+function loadRedis(): typeof Redis {
+    return requireOptional('redis', 'RedisVectorStore');
+}
+
+/**
+ * node-redis client with the RediSearch module
+ */
+export type RedisClient = ReturnType<typeof createClient>;
+
+/**
+ * Redis vector store options
+ */
+export interface RedisVectorStoreOptions {
+    /** Metadata fields to index, as TAG, NUMERIC or TEXT by declared type; only these can be filtered on */
+    metadataSchema?: MetadataSchema;
+    /** Key prefix for document hashes (default: `${indexName}:`) */
+    prefix?: string;
+}
+
+/**
+ * Separator for TAG fields holding array values
+ */
+const TAG_SEPARATOR = '|';
+
+/**
+ * Redis (RediSearch) vector store implementation
+ *
+ * Each document is a hash holding content, a FLOAT32 embedding blob, the full
+ * metadata as JSON and one field per declared metadata field. The FT index is
+ * derived from the declared metadata schema.
+ */
+export class RedisVectorStore implements VectorStore {
+    private client: RedisClient;
+    private ownsClient: boolean;
+    private indexName: string;
+    private prefix: string;
+    private metadataSchema: MetadataSchema;
+    private embeddingModel: EmbeddingModel;
+    private dimension: number;
+
+    /**
+     * @param connection - Redis URL, or an existing client (shared with e.g. RedisCache, left open on close)
+     */
+    constructor(
+        connection: string | RedisClient,
+        indexName: string,
+        embeddingModel: EmbeddingModel,
+        options: RedisVectorStoreOptions = {}
+    ) {
+        this.metadataSchema = options.metadataSchema || {};
+        validateMetadataSchema(this.metadataSchema);
+        for (const key of Object.keys(this.metadataSchema)) {
+            if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key) || ['content', 'embedding', 'metadata'].includes(key)) {
+                throw new Error(`Invalid metadata field name for Redis: ${key}`);
+            }
+        }
+
+        if (typeof connection === 'string') {
+            this.client = loadRedis().createClient({ url: connection });
+            this.ownsClient = true;
+        } else {
+            this.client = connection;
+            this.ownsClient = false;
+        }
+        this.indexName = indexName;
+        this.prefix = options.prefix ?? `${indexName}:`;
+        this.embeddingModel = embeddingModel;
+        this.dimension = embeddingModel.getDimension();
+    }
+
+    async initialize(): Promise<void> {
+        try {
+            if (!this.client.isOpen) {
+                await this.client.connect();
+            }
+
+            // Check if index exists
+            const indexes = await this.client.ft._list();
+            if (indexes.map(String).includes(this.indexName)) {
+                console.log(`Redis index already exists: ${this.indexName} `);
+                return;
+            }
+
+            const { SCHEMA_FIELD_TYPE, SCHEMA_VECTOR_FIELD_ALGORITHM } = loadRedis();
+            const schema: RediSearchSchema = {
+                content: SCHEMA_FIELD_TYPE.TEXT,
+                embedding: {
+                    type: SCHEMA_FIELD_TYPE.VECTOR,
+                    ALGORITHM: SCHEMA_VECTOR_FIELD_ALGORITHM.HNSW,
+                    TYPE: 'FLOAT32',
+                    DIM: this.dimension,
+                    DISTANCE_METRIC: 'COSINE',
+                },
+            };
+            for (const [key, type] of Object.entries(this.metadataSchema)) {
+                switch (REDIS_FIELD_TYPES[type]) {
+                    case 'tag':
+                        schema[key] = { type: SCHEMA_FIELD_TYPE.TAG, SEPARATOR: TAG_SEPARATOR };
+                        break;
+                    case 'numeric':
+                        schema[key] = SCHEMA_FIELD_TYPE.NUMERIC;
+                        break;
+                    case 'text':
+                        // Unstemmed, so textMatch compares whole words like the other stores
+                        schema[key] = { type: SCHEMA_FIELD_TYPE.TEXT, NOSTEM: true };
+                        break;
+                }
+            }
+
+            // No stop words, so every word of a textMatch query has to match
+            await this.client.ft.create(this.indexName, schema, { ON: 'HASH', PREFIX: this.prefix, STOPWORDS: [] });
+            console.log(`Created Redis index: ${this.indexName} `);
+        } catch (error) {
+            throw new Error(`Failed to initialize Redis: ${error} `);
+        }
+    }
+
+    async addDocuments(input: Document[]): Promise<void> {
+        if (input.length === 0) return;
+
+        try {
+            // Coerce before embedding, so invalid metadata fails fast
+            const documents = coerceDocuments(input, this.metadataSchema);
+
+            // Generate embeddings
+            const texts = documents.map((doc) => doc.content);
+            const embeddings = await this.embeddingModel.embedBatch(texts);
+
+            // Replace whole hashes so fields dropped from metadata do not linger
+            const multi = this.client.multi();
+            documents.forEach((doc, idx) => {
+                const key = this.prefix + (doc.id || uuidv4());
+                multi.del(key);
+                multi.hSet(key, {
+                    content: doc.content,
+                    embedding: Buffer.from(new Float32Array(embeddings[idx]).buffer),
+                    metadata: JSON.stringify(doc.metadata || {}),
+                    ...this.indexedFields(doc.metadata || {}),
+                });
+            });
+            await multi.exec();
+
+            console.log(`Added ${documents.length} documents to Redis`);
+        } catch (error) {
+            throw new Error(`Failed to add documents to Redis: ${error} `);
+        }
+    }
+
+    async similaritySearch(
+        query: string | number[],
+        k: number,
+        filter?: MetadataFilter,
+        options: SimilaritySearchOptions = {}
+    ): Promise<SearchResult[]> {
+        try {
+            // Get query embedding
+            let queryVector: number[];
+            if (typeof query === 'string') {
+                queryVector = await this.embeddingModel.embedText(query);
+            } else {
+                queryVector = query;
+            }
+
+            // Pre-filtered KNN: the filter selects candidates, KNN ranks them
+            if (filter && Object.keys(this.metadataSchema).length > 0) {
+                validateFilter(filter, this.metadataSchema);
+            }
+            const base = filter ? toRedisFilter(filter, this.metadataSchema) : '*';
+            const response = await this.client.ft.search(
+                this.indexName,
+                `(${base})=>[KNN ${Math.floor(k)} @embedding $vector AS distance]`,
+                {
+                    PARAMS: { vector: Buffer.from(new Float32Array(queryVector).buffer) },
+                    SORTBY: 'distance',
+                    RETURN: ['content', 'metadata', 'distance'],
+                    LIMIT: { from: 0, size: k },
+                    DIALECT: 2,
+                }
+            );
+
+            const embeddings = options.includeEmbeddings
+                ? await this.getEmbeddings(response.documents.map((doc) => doc.id))
+                : undefined;
+
+            // Convert to SearchResult format; cosine distance is 1 - similarity
+            const results = response.documents.map((doc, idx) => ({
+                document: {
+                    id: doc.id.slice(this.prefix.length),
+                    content: String(doc.value.content),
+                    metadata: JSON.parse(String(doc.value.metadata || '{}')),
+                },
+                score: 1 - Number(doc.value.distance),
+                rawScore: Number(doc.value.distance),
+                ...(embeddings?.[idx] && { embedding: embeddings[idx] }),
+            }));
+            return applyMinScore(results, options.minScore);
+        } catch (error) {
+            throw new Error(`Failed to search in Redis: ${error} `);
+        }
+    }
+
+    async deleteDocuments(ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+
+        try {
+            await this.client.del(ids.map((id) => this.prefix + id));
+            console.log(`Deleted ${ids.length} documents from Redis`);
+        } catch (error) {
+            throw new Error(`Failed to delete documents from Redis: ${error} `);
+        }
+    }
+
+    async close(): Promise<void> {
+        if (this.ownsClient && this.client.isOpen) {
+            await this.client.quit();
+        }
+        console.log('Redis connection closed');
+    }
+
+    /**
+     * Read the FLOAT32 embedding blobs of document hashes; search replies decode fields as strings
+     */
+    private async getEmbeddings(keys: string[]): Promise<Array<number[] | undefined>> {
+        const binaryClient = this.client.withTypeMapping({ [loadRedis().RESP_TYPES.BLOB_STRING]: Buffer });
+        const blobs = await Promise.all(keys.map((key) => binaryClient.hGet(key, 'embedding')));
+        // Copy first: a pooled Buffer may not be 4-byte aligned
+        return blobs.map((blob) => (blob ? Array.from(new Float32Array(Uint8Array.from(blob).buffer)) : undefined));
+    }
+
+    /**
+     * Flatten declared metadata fields into hash fields
+     */
+    private indexedFields(metadata: Metadata): Record<string, string> {
+        const fields: Record<string, string> = {};
+        for (const [key, type] of Object.entries(this.metadataSchema)) {
+            const value = metadata[key];
+            if (value === undefined || value === null) continue;
+
+            // Values are already coerced to the declared type
+            if (type === 'date') {
+                fields[key] = String(Date.parse(String(value)));
+            } else if (REDIS_FIELD_TYPES[type] !== 'tag') {
+                fields[key] = String(value);
+            } else {
+                const values: Array<string | number | boolean> = Array.isArray(value) ? value : [value];
+                fields[key] = values.map(String).join(TAG_SEPARATOR);
+            }
+        }
+        return fields;
+    }
+}
@@ -0,0 +1,146 @@
+import {
+    createVectorStore,
+    getVectorStoreTypes,
+    InMemoryVectorStore,
+    registerVectorStore,
+    unregisterVectorStore,
+    validateVectorStoreConfig,
+} from '../vector-store';
+import { MockEmbeddingModel } from '../core/embedding';
+import { VectorStoreConfig } from '../core/types';
+
+declare module '../core/types' {
+    interface VectorStoreOptionsMap {
+        custom: { dimension: number };
+    }
+}
+
+describe('vector store registry', () => {
+    afterEach(() => {
+        unregisterVectorStore('custom');
+    });
+
+    it('should register the built-in stores', () => {
+        expect(getVectorStoreTypes()).toEqual(
+            expect.arrayContaining(['qdrant', 'opensearch', 'pgvector', 'sqlite', 'redis', 'memory', 'file'])
+        );
+    });
+
+    it('should create third-party stores from their config block', () => {
+        const factory = jest.fn((options: { dimension: number }, embeddingModel) => new InMemoryVectorStore(embeddingModel));
+        registerVectorStore('custom', factory, {
+            fields: { dimension: { type: 'number', required: true } },
+        });
+
+        const embeddingModel = new MockEmbeddingModel(4);
+        const store = createVectorStore({ type: 'custom', custom: { dimension: 4 } }, embeddingModel);
+
+        expect(store).toBeInstanceOf(InMemoryVectorStore);
+        expect(factory).toHaveBeenCalledWith({ dimension: 4 }, embeddingModel, { type: 'custom', custom: { dimension: 4 } });
+    });
+
+    it('should reject unknown types and list the registered ones', () => {
+        const config = { type: 'nope' } as unknown as VectorStoreConfig;
+        expect(() => createVectorStore(config, new MockEmbeddingModel(4))).toThrow(
+            /Unsupported vector store type: nope \(registered: qdrant, .*\)/
+        );
+    });
+
+    it('should name a missing config block', () => {
+        expect(() => validateVectorStoreConfig({ type: 'qdrant' })).toThrow(
+            'Invalid vector store config: "qdrant" is required for type "qdrant"'
+        );
+    });
+
+    it('should name every offending field', () => {
+        expect(() =>
+            validateVectorStoreConfig({
+                type: 'pgvector',
+                pgvector: { connectionString: 42, indexType: 'flat', tabelName: 'docs' } as any,
+            })
+        ).toThrow(
+            'Invalid vector store config: "pgvector.connectionString" must be string (got number); ' +
+                '"pgvector.tableName" is required; ' +
+                '"pgvector.indexType" must be one of "hnsw", "ivfflat", "none"; ' +
+                '"pgvector.tabelName" is not a known option'
+        );
+    });
+
+    it('should type-check config blocks against the declared store options', () => {
+        const config: VectorStoreConfig = {
+            type: 'qdrant',
+            // @ts-expect-error misspelled block name
+            qdrnt: { url: 'http://localhost:6333', collectionName: 'docs' },
+        };
+        expect(() => validateVectorStoreConfig(config)).toThrow('"qdrant" is required for type "qdrant"');
+    });
+
+    it('should validate nested fields', () => {
+        expect(() =>
+            validateVectorStoreConfig({ type: 'memory', memory: { hnsw: { space: 'manhattan' } } as any })
+        ).toThrow('"memory.hnsw.space" must be one of "cosine"');
+    });
+
+    it('should validate the pgvector index options', () => {
+        const pgvector = { connectionString: 'postgres://x', tableName: 'chunks', hnsw: { m: '16' }, lists: [] };
+        expect(() => validateVectorStoreConfig({ type: 'pgvector', pgvector: pgvector as any })).toThrow('"pgvector.hnsw.m" must be number (got string); "pgvector.lists" must be number (got array)');
+    });
+
+    it('should allow optional config blocks to be omitted', () => {
+        expect(() => validateVectorStoreConfig({ type: 'memory' })).not.toThrow();
+    });
+});
+
+describe('optional backend drivers', () => {
+    const drivers = ['better-sqlite3', 'pg', 'redis', '@elastic/elasticsearch'];
+
+    afterEach(() => {
+        drivers.forEach((driver) => jest.dontMock(driver));
+    });
+
+    it('should not load drivers when the library is imported', () => {
+        jest.isolateModules(() => {
+            drivers.forEach((driver) =>
+                jest.doMock(driver, () => {
+                    throw new Error(`${driver} was loaded`);
+                })
+            );
+            expect(() => require('../index')).not.toThrow();
+        });
+    });
+
+    it('should pass the pgvector index options to the store', async () => {
+        const model = new MockEmbeddingModel(4);
+        const queries: string[] = [];
+        await jest.isolateModulesAsync(async () => {
+            jest.doMock('pg', () => ({
+                Pool: jest.fn(() => ({ query: async (sql: string) => (queries.push(sql), { rows: [] }) })),
+            }));
+            const { createVectorStore: create } = require('../vector-store');
+            const connection = { connectionString: 'postgres://x', tableName: 'chunks' };
+            const stores = [
+                create({ type: 'pgvector', pgvector: { ...connection, hnsw: { m: 8, efConstruction: 32 } } }, model),
+                create({ type: 'pgvector', pgvector: { ...connection, indexType: 'ivfflat', lists: 25 } }, model),
+            ];
+            jest.spyOn(console, 'log').mockImplementation(() => {});
+            for (const store of stores) await store.initialize();
+        });
+        jest.restoreAllMocks();
+
+        expect(queries.some((sql) => sql.includes('WITH (m = 8, ef_construction = 32)'))).toBe(true);
+        expect(queries.some((sql) => sql.includes('WITH (lists = 25)'))).toBe(true);
+    });
+
+    it('should name the package to install when a driver is missing', () => {
+        jest.isolateModules(() => {
+            jest.doMock('pg', () => {
+                throw Object.assign(new Error("Cannot find module 'pg'"), { code: 'MODULE_NOT_FOUND' });
+            });
+            const { createVectorStore: create } = require('../vector-store');
+            const config = { type: 'pgvector', pgvector: { connectionString: 'postgres://x', tableName: 'chunks' } };
+            expect(() => create(config, new MockEmbeddingModel(4))).toThrow(
+                'PgVectorStore needs the "pg" package: npm install pg'
+            );
+        });
+    });
+});
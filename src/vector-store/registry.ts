@@ -0,0 +1,162 @@
+import { VectorStore, VectorStoreConfig, EmbeddingModel } from '../core/types';
+
+/**
+ * Value types a config field can take
+ */
+export type ConfigFieldType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+/**
+ * Describes one field of a vector store's config block
+ */
+export interface ConfigFieldSchema {
+    type: ConfigFieldType | ConfigFieldType[];
+    required?: boolean;
+    /** Allowed values */
+    enum?: readonly (string | number | boolean)[];
+    /** Nested fields, validated when the value is an object */
+    properties?: Record<string, ConfigFieldSchema>;
+}
+
+/**
+ * Describes the `config[type]` block a vector store reads
+ */
+export interface VectorStoreConfigSchema {
+    /** Whether the block must be present (default: true) */
+    required?: boolean;
+    fields: Record<string, ConfigFieldSchema>;
+}
+
+/**
+ * Creates a store from its config block (`config[type]`)
+ */
+export type VectorStoreFactory<C = any> = (
+    options: C,
+    embeddingModel: EmbeddingModel,
+    config: VectorStoreConfig
+) => VectorStore;
+
+interface RegisteredVectorStore {
+    factory: VectorStoreFactory;
+    configSchema?: VectorStoreConfigSchema;
+}
+
+const registry = new Map<string, RegisteredVectorStore>();
+
+/**
+ * Register a vector store type so it can be created from config
+ * @param type - Value of `config.type`; the store's options are read from `config[type]`
+ * @param factory - Creates the store from its validated options
+ * @param configSchema - Schema for `config[type]`; without one the block is passed through unchecked
+ */
+export function registerVectorStore<C = any>(
+    type: string,
+    factory: VectorStoreFactory<C>,
+    configSchema?: VectorStoreConfigSchema
+): void {
+    if (!type || type === 'type') {
+        throw new Error(`Invalid vector store type: "${type}"`);
+    }
+    registry.set(type, { factory, configSchema });
+}
+
+/**
+ * Remove a registered vector store type
+ */
+export function unregisterVectorStore(type: string): boolean {
+    return registry.delete(type);
+}
+
+/**
+ * Registered vector store types, in registration order
+ */
+export function getVectorStoreTypes(): string[] {
+    return Array.from(registry.keys());
+}
+
+function typeOf(value: unknown): ConfigFieldType | 'null' | 'undefined' | 'function' {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    const type = typeof value;
+    return type === 'bigint' || type === 'symbol' ? 'object' : (type as ConfigFieldType | 'undefined' | 'function');
+}
+
+function validateFields(
+    value: Record<string, unknown>,
+    fields: Record<string, ConfigFieldSchema>,
+    path: string,
+    errors: string[]
+): void {
+    for (const [name, field] of Object.entries(fields)) {
+        const fieldPath = `${path}.${name}`;
+        const fieldValue = value[name];
+
+        if (fieldValue === undefined) {
+            if (field.required) errors.push(`"${fieldPath}" is required`);
+            continue;
+        }
+
+        const allowed = Array.isArray(field.type) ? field.type : [field.type];
+        const actual = typeOf(fieldValue);
+        if (!allowed.includes(actual as ConfigFieldType)) {
+            errors.push(`"${fieldPath}" must be ${allowed.join(' or ')} (got ${actual})`);
+            continue;
+        }
+
+        if (field.enum && !field.enum.includes(fieldValue as string | number | boolean)) {
+            errors.push(`"${fieldPath}" must be one of ${field.enum.map((v) => JSON.stringify(v)).join(', ')}`);
+        }
+
+        if (field.properties && actual === 'object') {
+            validateFields(fieldValue as Record<string, unknown>, field.properties, fieldPath, errors);
+        }
+    }
+
+    for (const name of Object.keys(value)) {
+        if (!(name in fields)) {
+            errors.push(`"${path}.${name}" is not a known option`);
+        }
+    }
+}
+
+/**
+ * Check a config against the schema registered for its type
+ * @throws Error naming every offending field
+ */
+export function validateVectorStoreConfig(config: VectorStoreConfig): void {
+    if (!config || typeof config.type !== 'string') {
+        throw new Error('Invalid vector store config: "type" is required');
+    }
+
+    const entry = registry.get(config.type);
+    if (!entry) {
+        throw new Error(
+            `Unsupported vector store type: ${config.type} (registered: ${getVectorStoreTypes().join(', ')})`
+        );
+    }
+    if (!entry.configSchema) return;
+
+    const errors: string[] = [];
+    const block = config[config.type];
+    if (block === undefined) {
+        if (entry.configSchema.required !== false) {
+            errors.push(`"${config.type}" is required for type "${config.type}"`);
+        }
+    } else if (typeOf(block) !== 'object') {
+        errors.push(`"${config.type}" must be object (got ${typeOf(block)})`);
+    } else {
+        validateFields(block as Record<string, unknown>, entry.configSchema.fields, config.type, errors);
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid vector store config: ${errors.join('; ')}`);
+    }
+}
+
+/**
+ * Validate a config and create the store through its registered factory
+ */
+export function createRegisteredVectorStore(config: VectorStoreConfig, embeddingModel: EmbeddingModel): VectorStore {
+    validateVectorStoreConfig(config);
+    const { factory } = registry.get(config.type)!;
+    return factory(config[config.type], embeddingModel, config);
+}
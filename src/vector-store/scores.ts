@@ -0,0 +1,22 @@
+import { SearchResult } from '../core/types';
+
+/**
+ * Cosine similarity from an OpenSearch `cosinesimil` score, `1 / (2 - cos)` with the nmslib and faiss engines
+ */
+export function fromOpenSearchCosineScore(score: number): number {
+    return 2 - 1 / score;
+}
+
+/**
+ * Cosine similarity from an Elasticsearch `cosine` kNN score, `(1 + cos) / 2`
+ */
+export function fromElasticsearchCosineScore(score: number): number {
+    return 2 * score - 1;
+}
+
+/**
+ * Drop results scoring below `minScore`; results are returned as is when it is not set
+ */
+export function applyMinScore(results: SearchResult[], minScore?: number): SearchResult[] {
+    return minScore === undefined ? results : results.filter((result) => result.score >= minScore);
+}
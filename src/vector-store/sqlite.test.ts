@@ -0,0 +1,122 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SqliteVectorStore } from '../vector-store/sqlite';
+import { MockEmbeddingModel } from '../core/embedding';
+
+describe('SqliteVectorStore', () => {
+    let embeddingModel: MockEmbeddingModel;
+    let store: SqliteVectorStore;
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        embeddingModel = new MockEmbeddingModel(32);
+        store = new SqliteVectorStore(':memory:', embeddingModel);
+        await store.initialize();
+        await store.addDocuments([
+            {
+                id: 'a',
+                content: 'Error E1234 when connecting to the database',
+                metadata: { category: 'tech', year: 2022, tags: ['ai', 'ml'], published: true },
+            },
+            {
+                id: 'b',
+                content: 'Vector databases store embeddings',
+                metadata: { category: 'tech', year: 2024, tags: ['web'], published: false },
+            },
+            { id: 'c', content: 'Photosynthesis converts light', metadata: { category: 'science', year: 2023 } },
+        ]);
+    });
+
+    afterEach(async () => {
+        await store.close();
+        jest.restoreAllMocks();
+    });
+
+    it('should return the exact match first', async () => {
+        const results = await store.similaritySearch('Vector databases store embeddings', 3);
+        expect(results.length).toBe(3);
+        expect(results[0].document).toEqual({
+            id: 'b',
+            content: 'Vector databases store embeddings',
+            metadata: { category: 'tech', year: 2024, tags: ['web'], published: false },
+        });
+        expect(results[0].score).toBeCloseTo(1, 5);
+    });
+
+    it('should upsert and delete documents', async () => {
+        await store.addDocuments([{ id: 'a', content: 'replaced', metadata: {} }]);
+        await store.deleteDocuments(['c']);
+
+        const results = await store.similaritySearch('replaced', 10);
+        expect(results.map((r) => r.document.id).sort()).toEqual(['a', 'b']);
+        expect(results[0].document.content).toBe('replaced');
+        expect(await store.keywordSearch('photosynthesis', 5)).toEqual([]);
+    });
+
+    it('should find exact terms with keyword search', async () => {
+        const results = await store.keywordSearch('E1234', 5);
+        expect(results.map((r) => r.document.id)).toEqual(['a']);
+        expect(results[0].score).toBeGreaterThan(0);
+    });
+
+    it('should treat keyword input as plain terms', async () => {
+        const results = await store.keywordSearch('databases AND "store" (NOT', 5);
+        expect(results.map((r) => r.document.id)).toEqual(['b']);
+    });
+
+    describe('metadata filters', () => {
+        const ids = async (filter: any) =>
+            (await store.similaritySearch('anything', 10, filter)).map((r) => r.document.id).sort();
+
+        it('should filter by typed equality', async () => {
+            expect(await ids({ equals: { category: 'tech' } })).toEqual(['a', 'b']);
+            expect(await ids({ equals: { year: 2023 } })).toEqual(['c']);
+            expect(await ids({ equals: { published: true } })).toEqual(['a']);
+            expect(await ids({ equals: { published: false } })).toEqual(['b']);
+        });
+
+        it('should match any element of array fields', async () => {
+            expect(await ids({ equals: { tags: 'ml' } })).toEqual(['a']);
+            expect(await ids({ in: { tags: ['web', 'ml'] } })).toEqual(['a', 'b']);
+        });
+
+        it('should filter by numeric ranges', async () => {
+            expect(await ids({ greaterThan: { year: 2022 } })).toEqual(['b', 'c']);
+            expect(await ids({ greaterThanOrEqual: { year: 2022 }, lessThan: { year: 2024 } })).toEqual(['a', 'c']);
+        });
+
+        it('should combine and/or/not', async () => {
+            expect(
+                await ids({
+                    and: [{ equals: { category: 'tech' } }],
+                    or: [{ equals: { year: 2024 } }, { equals: { tags: 'ai' } }],
+                })
+            ).toEqual(['a', 'b']);
+            expect(await ids({ not: { in: { tags: ['ai'] } } })).toEqual(['b', 'c']);
+        });
+
+        it('should apply filters to keyword search', async () => {
+            const results = await store.keywordSearch('databases', 5, { equals: { year: 2024 } });
+            expect(results.map((r) => r.document.id)).toEqual(['b']);
+        });
+    });
+
+    it('should persist to a single database file', async () => {
+        const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'literag-sqlite-'));
+        const filePath = path.join(directory, 'index.db');
+        try {
+            const fileStore = new SqliteVectorStore(filePath, embeddingModel);
+            await fileStore.initialize();
+            await fileStore.addDocuments([{ id: 'x', content: 'persisted chunk' }]);
+            await fileStore.close();
+
+            const reopened = new SqliteVectorStore(filePath, embeddingModel);
+            await reopened.initialize();
+            expect((await reopened.keywordSearch('persisted', 1))[0].document.id).toBe('x');
+            await reopened.close();
+        } finally {
+            await fs.rm(directory, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,262 @@
+import type BetterSqlite3 from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import {
+    VectorStore,
+    Document,
+    SearchResult,
+    EmbeddingModel,
+    MetadataFilter,
+    SimilaritySearchOptions,
+} from '../core/types';
+import { toSqliteFilter, TEXT_MATCH_FUNCTION } from './filters/sqlite-filter';
+import { textMatches } from './filters/operators';
+import { cosineSimilarity } from './memory';
+import { applyMinScore } from './scores';
+import { requireOptional } from './optional-dependency';
+
+/**
+ * Row shape of the documents table
+ */
+interface DocumentRow {
+    id: string;
+    content: string;
+    metadata: string;
+    embedding: Buffer;
+}
+
+/**
+ * SQLite vector store options
+ */
+export interface SqliteVectorStoreOptions {
+    /** Table name prefix (default: 'documents') */
+    tableName?: string;
+}
+
+function toBlob(embedding: number[]): Buffer {
+    return Buffer.from(new Float32Array(embedding).buffer);
+}
+
+function fromBlob(blob: Buffer): number[] {
+    return Array.from(new Float32Array(blob.buffer, blob.byteOffset, blob.byteLength / 4));
+}
+
+/**
+ * SQLite vector store implementation
+ *
+ * Keeps chunks, Float32 embedding BLOBs and JSON metadata in a single `.db` file,
+ * with an FTS5 index over content for keyword search. Vector search is a
+ * brute-force cosine scan over the rows that pass the metadata filter.
+ */
+export class SqliteVectorStore implements VectorStore {
+    private db?: BetterSqlite3.Database;
+    private filePath: string;
+    private tableName: string;
+    private embeddingModel: EmbeddingModel;
+
+    /**
+     * @param filePath - Database file, or ':memory:'
+     */
+    constructor(filePath: string, embeddingModel: EmbeddingModel, options: SqliteVectorStoreOptions = {}) {
+        this.tableName = options.tableName ?? 'documents';
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.tableName)) {
+            throw new Error(`Invalid table name: ${this.tableName}`);
+        }
+
+        this.filePath = filePath;
+        this.embeddingModel = embeddingModel;
+    }
+
+    async initialize(): Promise<void> {
+        try {
+            const Database = requireOptional<typeof BetterSqlite3>('better-sqlite3', 'SqliteVectorStore');
+            const db = new Database(this.filePath);
+            db.pragma('journal_mode = WAL');
+            db.function(TEXT_MATCH_FUNCTION, { deterministic: true }, (value: unknown, query: unknown) =>
+                textMatches(String(value), String(query)) ? 1 : 0
+            );
+
+            const table = this.tableName;
+            const fts = `${table}_fts`;
+            db.exec(`
+                CREATE TABLE IF NOT EXISTS ${table} (
+                    id TEXT PRIMARY KEY,
+                    content TEXT NOT NULL,
+                    metadata TEXT NOT NULL DEFAULT '{}',
+                    embedding BLOB NOT NULL
+                );
+
+                CREATE VIRTUAL TABLE IF NOT EXISTS ${fts}
+                    USING fts5(content, content='${table}', content_rowid='rowid');
+
+                -- Keep the external-content FTS index in sync with the documents table
+                CREATE TRIGGER IF NOT EXISTS ${table}_ai AFTER INSERT ON ${table} BEGIN
+                    INSERT INTO ${fts}(rowid, content) VALUES (new.rowid, new.content);
+                END;
+                CREATE TRIGGER IF NOT EXISTS ${table}_ad AFTER DELETE ON ${table} BEGIN
+                    INSERT INTO ${fts}(${fts}, rowid, content) VALUES ('delete', old.rowid, old.content);
+                END;
+                CREATE TRIGGER IF NOT EXISTS ${table}_au AFTER UPDATE ON ${table} BEGIN
+                    INSERT INTO ${fts}(${fts}, rowid, content) VALUES ('delete', old.rowid, old.content);
+                    INSERT INTO ${fts}(rowid, content) VALUES (new.rowid, new.content);
+                END;
+            `);
+
+            this.db = db;
+            console.log(`SQLite vector store ready: ${this.filePath} `);
+        } catch (error) {
+            throw new Error(`Failed to initialize SQLite: ${error} `);
+        }
+    }
+
+    async addDocuments(documents: Document[]): Promise<void> {
+        if (documents.length === 0) return;
+
+        try {
+            const db = this.getDb();
+
+            // Generate embeddings
+            const texts = documents.map((doc) => doc.content);
+            const embeddings = await this.embeddingModel.embedBatch(texts);
+
+            const upsert = db.prepare(
+                `INSERT INTO ${this.tableName} (id, content, metadata, embedding)
+                    VALUES (?, ?, ?, ?)
+                    ON CONFLICT (id) DO UPDATE SET
+                        content = excluded.content,
+                        metadata = excluded.metadata,
+                        embedding = excluded.embedding`
+            );
+
+            // Single transaction so a batch is written atomically
+            db.transaction(() => {
+                documents.forEach((doc, idx) => {
+                    upsert.run(
+                        doc.id || uuidv4(),
+                        doc.content,
+                        JSON.stringify(doc.metadata || {}),
+                        toBlob(embeddings[idx])
+                    );
+                });
+            })();
+
+            console.log(`Added ${documents.length} documents to SQLite`);
+        } catch (error) {
+            throw new Error(`Failed to add documents to SQLite: ${error} `);
+        }
+    }
+
+    async similaritySearch(
+        query: string | number[],
+        k: number,
+        filter?: MetadataFilter,
+        options: SimilaritySearchOptions = {}
+    ): Promise<SearchResult[]> {
+        try {
+            const db = this.getDb();
+
+            // Get query embedding
+            let queryVector: number[];
+            if (typeof query === 'string') {
+                queryVector = await this.embeddingModel.embedText(query);
+            } else {
+                queryVector = query;
+            }
+
+            const params: unknown[] = [];
+            const where = filter ? `WHERE ${toSqliteFilter(filter, params)}` : '';
+            const rows = db
+                .prepare(`SELECT id, content, metadata, embedding FROM ${this.tableName} ${where}`)
+                .all(...params) as DocumentRow[];
+
+            const results = rows.map((row) => {
+                const embedding = fromBlob(row.embedding);
+                const score = cosineSimilarity(queryVector, embedding);
+                return {
+                    document: this.toDocument(row),
+                    score,
+                    rawScore: score,
+                    ...(options.includeEmbeddings && { embedding }),
+                };
+            });
+
+            return applyMinScore(results, options.minScore)
+                .sort((a, b) => b.score - a.score)
+                .slice(0, k);
+        } catch (error) {
+            throw new Error(`Failed to search in SQLite: ${error} `);
+        }
+    }
+
+    /**
+     * Full-text search over content using FTS5, ranked by BM25
+     * @param query - Query text; terms are matched individually (OR)
+     * @param k - Number of results to return
+     * @param filter - Optional metadata filter
+     */
+    async keywordSearch(query: string, k: number, filter?: MetadataFilter): Promise<SearchResult[]> {
+        try {
+            const db = this.getDb();
+
+            // Quote every term so user input is never parsed as FTS5 query syntax
+            const terms = query.match(/[\p{L}\p{N}_]+/gu) || [];
+            if (terms.length === 0) return [];
+            const match = terms.map((term) => `"${term}"`).join(' OR ');
+
+            const params: unknown[] = [match];
+            const filterSql = filter ? `AND ${toSqliteFilter(filter, params)}` : '';
+            params.push(k);
+
+            // bm25() is lower-is-better, so negate it into a score
+            const rows = db
+                .prepare(
+                    `SELECT d.id, d.content, d.metadata, -bm25(${this.tableName}_fts) AS score
+                        FROM ${this.tableName}_fts
+                        JOIN ${this.tableName} d ON d.rowid = ${this.tableName}_fts.rowid
+                        WHERE ${this.tableName}_fts MATCH ? ${filterSql}
+                        ORDER BY score DESC
+                        LIMIT ?`
+                )
+                .all(...params) as Array<Omit<DocumentRow, 'embedding'> & { score: number }>;
+
+            return rows.map((row) => ({
+                document: this.toDocument(row),
+                score: row.score,
+            }));
+        } catch (error) {
+            throw new Error(`Failed to run keyword search in SQLite: ${error} `);
+        }
+    }
+
+    async deleteDocuments(ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+
+        try {
+            const placeholders = ids.map(() => '?').join(', ');
+            this.getDb().prepare(`DELETE FROM ${this.tableName} WHERE id IN (${placeholders})`).run(...ids);
+            console.log(`Deleted ${ids.length} documents from SQLite`);
+        } catch (error) {
+            throw new Error(`Failed to delete documents from SQLite: ${error} `);
+        }
+    }
+
+    async close(): Promise<void> {
+        this.db?.close();
+        this.db = undefined;
+        console.log('SQLite connection closed');
+    }
+
+    private getDb(): BetterSqlite3.Database {
+        if (!this.db) {
+            throw new Error('SQLite store is not initialized');
+        }
+        return this.db;
+    }
+
+    private toDocument(row: Pick<DocumentRow, 'id' | 'content' | 'metadata'>): Document {
+        return {
+            id: row.id,
+            content: row.content,
+            metadata: JSON.parse(row.metadata),
+        };
+    }
+}
@@ -0,0 +1,110 @@
+import { MetadataFilter, MetadataSchema } from '../core/types';
+import { hasConditions, matchesFilter, validateFilter } from '../vector-store';
+
+describe('matchesFilter', () => {
+    const metadata = { category: 'tech', year: 2024, tags: ['ai', 'ml'], published: '2024-03-01T12:00:00+02:00' };
+
+    it('should evaluate filters without a store', () => {
+        expect(matchesFilter(metadata, {})).toBe(true);
+        expect(matchesFilter(metadata, { equals: { tags: 'ml' }, greaterThanOrEqual: { year: 2024 } })).toBe(true);
+        expect(matchesFilter(metadata, { or: [{ equals: { category: 'art' } }, { lessThan: { year: 2000 } }] })).toBe(
+            false
+        );
+        expect(matchesFilter(metadata, { dateRange: { published: { lt: '2024-03-01T11:00:00Z' } } })).toBe(true);
+    });
+
+    it('should treat missing fields as non-matching, except under negation', () => {
+        expect(matchesFilter(undefined, { equals: { category: 'tech' } })).toBe(false);
+        expect(matchesFilter(undefined, { notEquals: { category: 'tech' } })).toBe(true);
+        expect(matchesFilter(undefined, { not: { equals: { category: 'tech' } } })).toBe(true);
+    });
+});
+
+describe('validateFilter', () => {
+    const schema: MetadataSchema = {
+        category: 'keyword',
+        title: 'text',
+        year: 'integer',
+        rating: 'float',
+        draft: 'boolean',
+        published: 'date',
+        tags: 'array',
+    };
+
+    it('should accept well-formed filters', () => {
+        const filter: MetadataFilter = {
+            equals: { category: 'tech', draft: false },
+            greaterThan: { rating: 3.5 },
+            in: { year: [2023, 2024] },
+            containsAll: { tags: ['ai', 'ml'] },
+            textMatch: { title: 'vector search' },
+            dateRange: { published: { gte: '2024-01-01' } },
+            or: [{ exists: { title: true } }, { not: { prefix: { category: 'sci' } } }],
+        };
+        expect(() => validateFilter(filter)).not.toThrow();
+        expect(() => validateFilter(filter, schema)).not.toThrow();
+    });
+
+    it('should reject unknown operators, wrong operand types and empty logical arrays', () => {
+        const filter = {
+            equal: { category: 'tech' },
+            greaterThan: { year: '2023' },
+            in: { category: 'tech' },
+            and: [],
+            or: [{ dateRange: { published: { after: '2024-01-01', lt: 'soon' } } }],
+        } as unknown as MetadataFilter;
+
+        expect(() => validateFilter(filter)).toThrow(
+            'Invalid filter: "equal" is not a known operator; ' +
+                '"greaterThan.year" must be a number (got string); ' +
+                '"in.category" must be an array of strings, numbers or booleans; ' +
+                '"and" must be a non-empty array of filters; ' +
+                '"or[0].dateRange.published.after" is not a known bound; ' +
+                '"or[0].dateRange.published.lt" must be an ISO 8601 date (got "soon")'
+        );
+    });
+
+    it('should reject empty operators and lists that would match every document or none', () => {
+        const filter = {
+            equals: {},
+            in: { category: [] },
+            not: {},
+            or: [{ notIn: {} }],
+        } as unknown as MetadataFilter;
+
+        expect(() => validateFilter(filter)).toThrow(
+            'Invalid filter: "equals" must name at least one field; ' +
+                '"in.category" must not be empty; ' +
+                '"not" must be a non-empty filter; ' +
+                '"or[0].notIn" must name at least one field'
+        );
+        expect(hasConditions({})).toBe(false);
+        expect(hasConditions({ equals: { category: 'tech' } })).toBe(true);
+    });
+
+    it('should reject operators and values that do not fit the declared field type', () => {
+        expect(() => validateFilter({ greaterThan: { category: 5 } }, schema)).toThrow(
+            'Invalid filter: "greaterThan.category" cannot be used on keyword field "category"'
+        );
+        expect(() => validateFilter({ not: { lessThan: { published: 5 } } }, schema)).toThrow(
+            '"not.lessThan.published" cannot be used on date field "published" (use dateRange)'
+        );
+        expect(() => validateFilter({ equals: { year: '2023' } }, schema)).toThrow(
+            '"equals.year" must be an integer for integer field "year" (got "2023")'
+        );
+        expect(() => validateFilter({ in: { draft: [true, 'no'] } }, schema)).toThrow(
+            '"in.draft" must be a boolean for boolean field "draft" (got "no")'
+        );
+        expect(() => validateFilter({ equals: { title: 'x' } }, schema)).toThrow(
+            '"equals.title" cannot be used on text field "title"'
+        );
+    });
+
+    it('should not type-check undeclared fields', () => {
+        expect(() => validateFilter({ greaterThan: { chunkIndex: 2 } }, schema)).not.toThrow();
+    });
+
+    it('should reject a filter that is not an object', () => {
+        expect(() => validateFilter([] as unknown as MetadataFilter)).toThrow('"filter" must be an object (got array)');
+    });
+});
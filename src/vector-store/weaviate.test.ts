@@ -0,0 +1,206 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { WeaviateVectorStore } from '../vector-store/weaviate';
+import { toGraphQLLiteral, toWeaviateFilter } from '../vector-store/filters/weaviate-filter';
+import { toUuid } from '../vector-store/ids';
+import { MockEmbeddingModel } from '../core/embedding';
+
+describe('toWeaviateFilter', () => {
+    it('should return undefined for an empty filter', () => {
+        expect(toWeaviateFilter({})).toBeUndefined();
+    });
+
+    it('should pick the value field from the value type', () => {
+        expect(toWeaviateFilter({ equals: { category: 'tech', year: 2024, draft: false } })).toEqual({
+            operator: 'And',
+            operands: [
+                { operator: 'Equal', path: ['category'], valueText: 'tech' },
+                { operator: 'Equal', path: ['year'], valueNumber: 2024 },
+                { operator: 'Equal', path: ['draft'], valueBoolean: false },
+            ],
+        });
+    });
+
+    it('should translate in as an OR of equals', () => {
+        expect(toWeaviateFilter({ in: { tags: ['ai', 'ml'] } })).toEqual({
+            operator: 'Or',
+            operands: [
+                { operator: 'Equal', path: ['tags'], valueText: 'ai' },
+                { operator: 'Equal', path: ['tags'], valueText: 'ml' },
+            ],
+        });
+    });
+
+    it('should reject negations, which would skip objects without the property', () => {
+        expect(() => toWeaviateFilter({ or: [{ not: { equals: { a: 'x' } } }] })).toThrow(
+            'Filter operator "not" is not supported by Weaviate'
+        );
+        expect(() => toWeaviateFilter({ notEquals: { a: 'x' } })).toThrow(
+            'Filter operator "notEquals" is not supported by Weaviate'
+        );
+    });
+
+    it('should treat an empty in list as matching nothing', () => {
+        expect(toWeaviateFilter({ equals: { a: 'x' }, in: { tags: [] } })).toBeNull();
+        expect(toWeaviateFilter({ or: [{ in: { tags: [] } }, { equals: { a: 'x' } }] })).toEqual({
+            operator: 'Equal',
+            path: ['a'],
+            valueText: 'x',
+        });
+        expect(toWeaviateFilter({ or: [{ in: { tags: [] } }, { containsAny: { tags: [] } }] })).toBeNull();
+    });
+
+    it('should render GraphQL literals with bare enum operators', () => {
+        expect(toGraphQLLiteral({ operator: 'Equal', path: ['a'], valueText: 'say "hi"' })).toBe(
+            '{operator: Equal, path: ["a"], valueText: "say \\"hi\\""}'
+        );
+    });
+});
+
+describe('WeaviateVectorStore', () => {
+    let server: Server;
+    let requests: Array<{ method: string; path: string; body: any }>;
+    let store: WeaviateVectorStore;
+
+    beforeAll(async () => {
+        const app = express();
+        app.use(express.json({ limit: '10mb' }));
+        app.use((req, res) => {
+            requests.push({ method: req.method, path: req.path, body: req.body });
+            if (req.method === 'GET' && req.path === '/v1/schema') {
+                return res.json({ classes: [] });
+            }
+            if (req.path === '/v1/batch/objects' && req.method === 'POST') {
+                return res.json(req.body.objects.map(() => ({ result: {} })));
+            }
+            if (req.path === '/v1/graphql') {
+                return res.json({
+                    data: {
+                        Get: {
+                            Docs: [
+                                {
+                                    content: 'alpha',
+                                    docId: 'doc_chunk_0',
+                                    metadataJson: '{"tags":["ai"]}',
+                                    _additional: { distance: 0.1 },
+                                },
+                            ],
+                        },
+                    },
+                });
+            }
+            res.json({});
+        });
+        server = await new Promise<Server>((resolve) => {
+            const listening = app.listen(0, () => resolve(listening));
+        });
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        requests = [];
+        const { port } = server.address() as AddressInfo;
+        store = new WeaviateVectorStore(`http://127.0.0.1:${port}`, 'Docs', new MockEmbeddingModel(4));
+        await store.initialize();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should create the class when missing', () => {
+        expect(requests[1].method).toBe('POST');
+        expect(requests[1].path).toBe('/v1/schema');
+        expect(requests[1].body.class).toBe('Docs');
+        expect(requests[1].body.vectorizer).toBe('none');
+    });
+
+    it('should write objects with UUID ids and the original id as a property', async () => {
+        await store.addDocuments([{ id: 'doc_chunk_0', content: 'alpha', metadata: { tags: ['ai'] } }]);
+
+        const [object] = requests[3].body.objects;
+        expect(object.id).toBe(toUuid('doc_chunk_0'));
+        expect(object.properties).toEqual({
+            tags: ['ai'],
+            content: 'alpha',
+            docId: 'doc_chunk_0',
+            metadataJson: '{"tags":["ai"]}',
+        });
+        expect(object.vector.length).toBe(4);
+    });
+
+    it('should create string metadata properties with field tokenization once', async () => {
+        await store.addDocuments([{ content: 'alpha', metadata: { tags: ['ai'], category: 'tech', year: 2024 } }]);
+        await store.addDocuments([{ content: 'beta', metadata: { category: 'science' } }]);
+
+        const created = requests.filter((r) => r.path === '/v1/schema/Docs/properties').map((r) => r.body);
+        expect(created).toEqual([
+            { name: 'tags', dataType: ['text[]'], tokenization: 'field' },
+            { name: 'category', dataType: ['text'], tokenization: 'field' },
+        ]);
+    });
+
+    it('should load the properties of an existing class before adding new ones', async () => {
+        const { port } = server.address() as AddressInfo;
+        store = new WeaviateVectorStore(`http://127.0.0.1:${port}`, 'Docs', new MockEmbeddingModel(4));
+        requests = [];
+        await store.addDocuments([{ content: 'alpha', metadata: { category: 'tech' } }]);
+
+        expect(requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+            'GET /v1/schema/Docs',
+            'POST /v1/schema/Docs/properties',
+            'POST /v1/batch/objects',
+        ]);
+    });
+
+    it('should reject metadata keys that collide with stored properties', async () => {
+        await expect(store.addDocuments([{ content: 'x', metadata: { content: 'y' } }])).rejects.toThrow(
+            'cannot be used as a Weaviate property'
+        );
+    });
+
+    it('should search with nearVector and a where filter', async () => {
+        const results = await store.similaritySearch([1, 0, 0, 0], 2, { equals: { tags: 'ai' } });
+
+        expect(requests[2].body.query).toBe(
+            '{ Get { Docs(nearVector: {vector: [1, 0, 0, 0]}, limit: 2, where: {operator: Equal, path: ["tags"], valueText: "ai"}) ' +
+                '{ content docId metadataJson _additional { distance } } } }'
+        );
+        expect(results).toEqual([
+            {
+                document: { id: 'doc_chunk_0', content: 'alpha', metadata: { tags: ['ai'] } },
+                score: 0.9,
+                rawScore: 0.1,
+            },
+        ]);
+    });
+
+    it('should not query for a filter that matches nothing', async () => {
+        expect(await store.similaritySearch([1, 0, 0, 0], 2, { in: { tags: [] } })).toEqual([]);
+        expect(requests).toHaveLength(2);
+    });
+
+    it('should request vectors when embeddings are included', async () => {
+        await store.similaritySearch([1, 0, 0, 0], 1, undefined, { includeEmbeddings: true });
+        expect(requests[2].body.query).toContain('_additional { distance vector }');
+    });
+
+    it('should delete by mapped UUID', async () => {
+        await store.deleteDocuments(['doc_chunk_0']);
+        expect(requests[2]).toEqual({
+            method: 'DELETE',
+            path: '/v1/batch/objects',
+            body: {
+                match: {
+                    class: 'Docs',
+                    where: { path: ['id'], operator: 'ContainsAny', valueTextArray: [toUuid('doc_chunk_0')] },
+                },
+            },
+        });
+    });
+});
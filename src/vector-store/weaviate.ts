@@ -0,0 +1,251 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+    VectorStore,
+    Document,
+    SearchResult,
+    EmbeddingModel,
+    MetadataFilter,
+    SimilaritySearchOptions,
+} from '../core/types';
+import { toGraphQLLiteral, toWeaviateFilter } from './filters/weaviate-filter';
+import { jsonRequest } from './http';
+import { toUuid } from './ids';
+import { applyMinScore } from './scores';
+
+/**
+ * Properties the store itself writes on every object
+ */
+const RESERVED_PROPERTIES = new Set(['id', 'content', 'docId', 'metadataJson']);
+
+/**
+ * Object returned by a GraphQL Get query
+ */
+interface WeaviateHit {
+    content: string;
+    docId: string;
+    metadataJson: string;
+    _additional: { distance: number; vector?: number[] };
+}
+
+/**
+ * Weaviate vector store implementation
+ *
+ * Objects carry their own vectors (`vectorizer: none`). Metadata fields are
+ * written as top-level properties so they can be filtered on, plus a JSON copy
+ * for a lossless round trip. Weaviate only accepts UUID object ids, so document
+ * ids are mapped with toUuid and the original id is kept in `docId`.
+ */
+export class WeaviateVectorStore implements VectorStore {
+    private url: string;
+    private className: string;
+    private embeddingModel: EmbeddingModel;
+    private apiKey?: string;
+    /** Property names known to exist on the class, loaded on first write */
+    private properties?: Set<string>;
+
+    constructor(url: string, className: string, embeddingModel: EmbeddingModel, apiKey?: string) {
+        if (!/^[A-Z][_0-9A-Za-z]*$/.test(className)) {
+            throw new Error(`Invalid Weaviate class name (must start with a capital letter): ${className}`);
+        }
+
+        this.url = url.replace(/\/+$/, '');
+        this.className = className;
+        this.embeddingModel = embeddingModel;
+        this.apiKey = apiKey;
+    }
+
+    async initialize(): Promise<void> {
+        try {
+            // Check if class exists
+            const schema = await this.request<{ classes?: Array<{ class: string }> }>('GET', '/v1/schema');
+            const exists = (schema.classes || []).some((c) => c.class === this.className);
+
+            if (!exists) {
+                // Create class; metadata properties are added on first write
+                await this.request('POST', '/v1/schema', {
+                    class: this.className,
+                    vectorizer: 'none',
+                    vectorIndexConfig: { distance: 'cosine' },
+                    properties: [
+                        { name: 'content', dataType: ['text'] },
+                        { name: 'docId', dataType: ['text'], tokenization: 'field' },
+                        { name: 'metadataJson', dataType: ['text'], indexFilterable: false, indexSearchable: false },
+                    ],
+                });
+                this.properties = new Set(['content', 'docId', 'metadataJson']);
+                console.log(`Created Weaviate class: ${this.className} `);
+            } else {
+                console.log(`Weaviate class already exists: ${this.className} `);
+            }
+        } catch (error) {
+            throw new Error(`Failed to initialize Weaviate: ${error} `);
+        }
+    }
+
+    async addDocuments(documents: Document[]): Promise<void> {
+        if (documents.length === 0) return;
+
+        try {
+            // Generate embeddings for documents
+            const texts = documents.map((doc) => doc.content);
+            const embeddings = await this.embeddingModel.embedBatch(texts);
+
+            const objects = documents.map((doc, idx) => {
+                const id = doc.id || uuidv4();
+                const metadata = doc.metadata || {};
+                for (const key of Object.keys(metadata)) {
+                    if (RESERVED_PROPERTIES.has(key) || !/^[_A-Za-z][_0-9A-Za-z]*$/.test(key)) {
+                        throw new Error(`Metadata key "${key}" cannot be used as a Weaviate property`);
+                    }
+                }
+
+                return {
+                    class: this.className,
+                    id: toUuid(id),
+                    vector: embeddings[idx],
+                    properties: {
+                        ...metadata,
+                        content: doc.content,
+                        docId: id,
+                        metadataJson: JSON.stringify(metadata),
+                    },
+                };
+            });
+
+            await this.addTextProperties(documents);
+            const response = await this.request<Array<{ result?: { errors?: unknown } }>>('POST', '/v1/batch/objects', {
+                objects,
+            });
+
+            const errored = response.filter((item) => item.result?.errors);
+            if (errored.length > 0) {
+                console.error('Errors indexing documents:', JSON.stringify(errored));
+                throw new Error('Some documents failed to index');
+            }
+
+            console.log(`Added ${documents.length} documents to Weaviate`);
+        } catch (error) {
+            throw new Error(`Failed to add documents to Weaviate: ${error} `);
+        }
+    }
+
+    async similaritySearch(
+        query: string | number[],
+        k: number,
+        filter?: MetadataFilter,
+        options: SimilaritySearchOptions = {}
+    ): Promise<SearchResult[]> {
+        try {
+            const where = filter ? toWeaviateFilter(filter) : undefined;
+            // e.g. an empty `in` list: nothing to ask the backend for
+            if (where === null) return [];
+
+            // Get query embedding
+            let queryVector: number[];
+            if (typeof query === 'string') {
+                queryVector = await this.embeddingModel.embedText(query);
+            } else {
+                queryVector = query;
+            }
+
+            const args = [
+                `nearVector: ${toGraphQLLiteral({ vector: queryVector })}`,
+                `limit: ${Math.floor(k)}`,
+                ...(where ? [`where: ${toGraphQLLiteral(where)}`] : []),
+            ];
+            const additional = options.includeEmbeddings ? 'distance vector' : 'distance';
+            const graphql =
+                `{ Get { ${this.className}(${args.join(', ')}) ` +
+                `{ content docId metadataJson _additional { ${additional} } } } }`;
+
+            const response = await this.request<{
+                data?: { Get: Record<string, WeaviateHit[]> };
+                errors?: Array<{ message: string }>;
+            }>('POST', '/v1/graphql', { query: graphql });
+
+            if (response.errors && response.errors.length > 0) {
+                throw new Error(response.errors.map((e) => e.message).join('; '));
+            }
+
+            // Convert to SearchResult format; cosine distance is 1 - similarity
+            const results = (response.data?.Get[this.className] || []).map((hit) => ({
+                document: {
+                    id: hit.docId,
+                    content: hit.content,
+                    metadata: JSON.parse(hit.metadataJson || '{}'),
+                },
+                score: 1 - hit._additional.distance,
+                rawScore: hit._additional.distance,
+                ...(hit._additional.vector && { embedding: hit._additional.vector }),
+            }));
+            return applyMinScore(results, options.minScore);
+        } catch (error) {
+            throw new Error(`Failed to search in Weaviate: ${error} `);
+        }
+    }
+
+    async deleteDocuments(ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+
+        try {
+            await this.request('DELETE', '/v1/batch/objects', {
+                match: {
+                    class: this.className,
+                    where: { path: ['id'], operator: 'ContainsAny', valueTextArray: ids.map(toUuid) },
+                },
+            });
+            console.log(`Deleted ${ids.length} documents from Weaviate`);
+        } catch (error) {
+            throw new Error(`Failed to delete documents from Weaviate: ${error} `);
+        }
+    }
+
+    async close(): Promise<void> {
+        // HTTP API is stateless
+        console.log('Weaviate connection closed');
+    }
+
+    /**
+     * Create string metadata properties with `field` tokenization before auto-schema
+     * would create them with `word`, so `Equal` compares whole values, not words.
+     * Properties that already exist keep their tokenization.
+     */
+    private async addTextProperties(documents: Document[]): Promise<void> {
+        if (!this.properties) {
+            const schema = await this.request<{ properties?: Array<{ name: string }> }>(
+                'GET',
+                `/v1/schema/${this.className}`
+            );
+            this.properties = new Set((schema.properties || []).map((property) => property.name));
+        }
+
+        const missing = new Map<string, string>();
+        for (const doc of documents) {
+            for (const [key, value] of Object.entries(doc.metadata || {})) {
+                if (this.properties.has(key) || missing.has(key)) continue;
+                if (typeof value === 'string') {
+                    missing.set(key, 'text');
+                } else if (Array.isArray(value) && value.length > 0 && typeof value[0] === 'string') {
+                    missing.set(key, 'text[]');
+                }
+            }
+        }
+
+        for (const [name, dataType] of missing) {
+            await this.request('POST', `/v1/schema/${this.className}/properties`, {
+                name,
+                dataType: [dataType],
+                tokenization: 'field',
+            });
+            this.properties.add(name);
+        }
+    }
+
+    private request<T = any>(method: string, path: string, body?: unknown): Promise<T> {
+        return jsonRequest<T>(`${this.url}${path}`, {
+            method,
+            body,
+            headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : undefined,
+        });
+    }
+}